@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { APIResponse, OtpChallenge } from '@/lib/types';
+import { AuthError, requestOtp } from '@/lib/server/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { phone } = body;
+
+    if (!phone || typeof phone !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Missing required field: phone' },
+        { status: 400 }
+      );
+    }
+
+    const challenge = await requestOtp(phone);
+
+    const response: APIResponse<OtpChallenge> = {
+      success: true,
+      data: challenge,
+      message: 'Verification code sent'
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error sending verification code:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to send verification code' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { APIResponse, User } from '@/lib/types';
+import { revokeSession, withAuth } from '@/lib/server/auth';
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, async (user) => {
+    const response: APIResponse<User> = {
+      success: true,
+      data: user,
+      message: 'Session is valid'
+    };
+
+    return NextResponse.json(response);
+  });
+}
+
+// Sign out: the token stops working immediately
+export async function DELETE(request: NextRequest) {
+  try {
+    revokeSession(request);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Signed out successfully'
+    });
+  } catch (error) {
+    console.error('Error signing out:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { APIResponse, AuthSession } from '@/lib/types';
+import { AuthError, verifyOtp } from '@/lib/server/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { phone, code, name } = body;
+
+    if (!phone || !code || typeof phone !== 'string' || typeof code !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields: phone, code' },
+        { status: 400 }
+      );
+    }
+
+    const session = verifyOtp(phone, code, typeof name === 'string' ? name : undefined);
+
+    const response: APIResponse<AuthSession> = {
+      success: true,
+      data: session,
+      message: 'Signed in successfully'
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error('Error verifying code:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify code' },
+      { status: 500 }
+    );
+  }
+}
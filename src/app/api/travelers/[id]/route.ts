@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Traveler, APIResponse, User } from '@/lib/types';
+import { CodecError } from '@/lib/codecs';
+import { validateTravelerUpdate } from '@/lib/validation';
+import { getRepositories } from '@/lib/server/repositories';
+import { withAuth } from '@/lib/server/auth';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withAuth(request, user => getTraveler(id, user));
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withAuth(request, user => updateTraveler(request, id, user));
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withAuth(request, user => deleteTraveler(id, user));
+}
+
+async function getTraveler(travelerId: string, user: User) {
+  try {
+    const traveler = getRepositories().travelers.findById(user.id, travelerId);
+
+    if (!traveler) {
+      return NextResponse.json(
+        { success: false, error: 'Traveler not found' },
+        { status: 404 }
+      );
+    }
+
+    const response: APIResponse<Traveler> = {
+      success: true,
+      data: traveler
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching traveler:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch traveler' },
+      { status: 500 }
+    );
+  }
+}
+
+async function updateTraveler(request: NextRequest, travelerId: string, user: User) {
+  try {
+    const body = await request.json();
+    const updates = validateTravelerUpdate(body.updates ?? {});
+    const repositories = getRepositories();
+
+    return repositories.transaction(() => {
+      // Find traveler
+      const traveler = repositories.travelers.findById(user.id, travelerId);
+
+      if (!traveler) {
+        return NextResponse.json(
+          { success: false, error: 'Traveler not found' },
+          { status: 404 }
+        );
+      }
+
+      // Check for duplicate name if updating name
+      if (updates.name) {
+        const existingTraveler = repositories.travelers.findByName(user.id, updates.name);
+
+        if (existingTraveler && existingTraveler.id !== travelerId) {
+          return NextResponse.json(
+            { success: false, error: 'A traveler with this name already exists' },
+            { status: 400 }
+          );
+        }
+      }
+
+      // Update traveler
+      const updatedTraveler: Traveler = {
+        ...traveler,
+        ...updates,
+        id: travelerId
+      };
+
+      repositories.travelers.save(user.id, updatedTraveler);
+
+      const response: APIResponse<Traveler> = {
+        success: true,
+        data: updatedTraveler,
+        message: 'Traveler updated successfully'
+      };
+
+      return NextResponse.json(response);
+    });
+  } catch (error) {
+    if (error instanceof CodecError) {
+      return NextResponse.json(
+        { success: false, error: error.message, errors: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error('Error updating traveler:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update traveler' },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteTraveler(travelerId: string, user: User) {
+  try {
+    const repositories = getRepositories();
+
+    return repositories.transaction(() => {
+      // Find and remove traveler
+      const deletedTraveler = repositories.travelers.findById(user.id, travelerId);
+
+      if (!deletedTraveler) {
+        return NextResponse.json(
+          { success: false, error: 'Traveler not found' },
+          { status: 404 }
+        );
+      }
+
+      repositories.travelers.delete(user.id, travelerId);
+
+      const response: APIResponse<Traveler> = {
+        success: true,
+        data: deletedTraveler,
+        message: 'Traveler deleted successfully'
+      };
+
+      return NextResponse.json(response);
+    });
+  } catch (error) {
+    console.error('Error deleting traveler:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete traveler' },
+      { status: 500 }
+    );
+  }
+}
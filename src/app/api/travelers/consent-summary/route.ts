@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { User } from '@/lib/types';
+import { getRepositories } from '@/lib/server/repositories';
+import { withAuth } from '@/lib/server/auth';
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, user => getConsentSummary(user));
+}
+
+async function getConsentSummary(user: User) {
+  try {
+    const travelers = getRepositories().travelers.list(user.id);
+    const consented = travelers.filter(t => t.hasConsent).length;
+
+    const consentSummary = {
+      totalTravelers: travelers.length,
+      consented,
+      pending: travelers.length - consented,
+      consentRate: travelers.length > 0 ? Math.round((consented / travelers.length) * 100) : 0
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: consentSummary,
+      message: 'Consent summary retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error getting consent summary:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to get consent summary' },
+      { status: 500 }
+    );
+  }
+}
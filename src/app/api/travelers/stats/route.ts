@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { User } from '@/lib/types';
+import { getRepositories } from '@/lib/server/repositories';
+import { withAuth } from '@/lib/server/auth';
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, user => getTravelerStats(user));
+}
+
+async function getTravelerStats(user: User) {
+  try {
+    const travelers = getRepositories().travelers.list(user.id);
+
+    const stats = {
+      total: travelers.length,
+      withConsent: travelers.filter(t => t.hasConsent).length,
+      withoutConsent: travelers.filter(t => !t.hasConsent).length,
+      byAgeGroup: travelers.reduce((acc, traveler) => {
+        acc[traveler.ageGroup] = (acc[traveler.ageGroup] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>),
+      byRelationship: travelers.reduce((acc, traveler) => {
+        acc[traveler.relationship] = (acc[traveler.relationship] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>)
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: stats,
+      message: 'Statistics retrieved successfully'
+    });
+  } catch (error) {
+    console.error('Error getting traveler statistics:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to get statistics' },
+      { status: 500 }
+    );
+  }
+}
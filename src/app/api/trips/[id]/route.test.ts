@@ -0,0 +1,72 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { requestOtp, verifyOtp } from '@/lib/server/auth';
+import { FakeSmsSender, setSmsSender } from '@/lib/server/sms';
+import { POST } from '../route';
+import { PUT } from './route';
+
+const PHONE = '+919876543210';
+const TRIP_ID = 'trip_conflict_test';
+
+let token = '';
+
+const request = (path: string, method: string, body: unknown) =>
+  new NextRequest(`http://localhost${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body)
+  });
+
+const editTrip = (body: unknown) =>
+  PUT(request(`/api/trips/${TRIP_ID}`, 'PUT', body), { params: Promise.resolve({ id: TRIP_ID }) });
+
+beforeAll(async () => {
+  const sms = new FakeSmsSender();
+  setSmsSender(sms);
+  await requestOtp(PHONE);
+  const code = sms.lastMessageTo(PHONE)!.message.match(/\d{6}/)![0];
+  token = verifyOtp(PHONE, code).token;
+});
+
+describe('PUT /api/trips/:id', () => {
+  it('returns the conflict when two devices edit the same field', async () => {
+    const startTime = new Date(Date.now() - 60 * 60 * 1000);
+    const created = await POST(request('/api/trips', 'POST', {
+      id: TRIP_ID,
+      tripNumber: 1,
+      status: 'completed',
+      origin: { latitude: 8.5241, longitude: 76.9366, timestamp: startTime },
+      destination: { latitude: 8.5568, longitude: 76.8812, timestamp: new Date() },
+      startTime,
+      endTime: new Date(),
+      mode: 'bus',
+      purpose: 'work',
+      primaryTraveler: 'ignored',
+      accompanyingTravelers: [],
+      totalTravelers: 1,
+      createdAt: startTime,
+      updatedAt: startTime
+    }));
+    expect(created.status).toBe(201);
+    const { syncedAt } = (await created.json()).data;
+
+    // A researcher corrects the purpose first...
+    const first = await editTrip({ updates: { purpose: 'shopping' }, baseRevision: syncedAt });
+    expect(first.status).toBe(200);
+    expect((await first.json()).data.conflicts).toBeUndefined();
+
+    // ...then the respondent's device, which has not seen that, sends a later edit
+    const later = new Date(Date.now() + 60 * 1000);
+    const second = await editTrip({
+      updates: { purpose: 'education', fieldRevisions: { purpose: later } },
+      baseRevision: syncedAt
+    });
+    expect(second.status).toBe(200);
+
+    const { data } = await second.json();
+    expect(data.purpose).toBe('education');
+    expect(data.conflicts).toEqual([
+      expect.objectContaining({ field: 'purpose', localValue: 'education', remoteValue: 'shopping' })
+    ]);
+  });
+});
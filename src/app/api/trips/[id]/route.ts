@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Trip, APIResponse, User } from '@/lib/types';
+import { CodecError, decodeDate } from '@/lib/codecs';
+import { validateTripChanges } from '@/lib/validation';
+import { applyTripUpdates, getFieldRevision, mergeTrips, swapConflictSides } from '@/lib/conflicts';
+import { applyTransition, TripTransitionError } from '@/lib/lifecycle';
+import { enrichCompletedTrip } from '@/lib/completion';
+import { withIdempotency } from '@/lib/server/idempotency';
+import { getRepositories } from '@/lib/server/repositories';
+import { withAuth } from '@/lib/server/auth';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withAuth(request, user => getTrip(id, user));
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withAuth(request, user => withIdempotency(request, () => updateTrip(request, id, user), user.id));
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withAuth(request, user => withIdempotency(request, () => deleteTrip(id, user), user.id));
+}
+
+async function getTrip(tripId: string, user: User) {
+  try {
+    const trip = getRepositories().trips.findForUser(user.id, tripId);
+
+    if (!trip) {
+      return NextResponse.json(
+        { success: false, error: 'Trip not found' },
+        { status: 404 }
+      );
+    }
+
+    const response: APIResponse<Trip> = {
+      success: true,
+      data: trip
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching trip:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch trip' },
+      { status: 500 }
+    );
+  }
+}
+
+async function updateTrip(request: NextRequest, tripId: string, user: User) {
+  try {
+    const body = await request.json();
+    const updates = validateTripChanges(body.updates ?? {});
+    // When the client last agreed with us; edits after it on both sides are concurrent
+    const baseRevision = body.baseRevision ? decodeDate(body.baseRevision) : undefined;
+    const repositories = getRepositories();
+
+    return repositories.transaction(() => {
+      // Find trip
+      const current = repositories.trips.findForUser(user.id, tripId);
+
+      if (!current) {
+        return NextResponse.json(
+          { success: false, error: 'Trip not found' },
+          { status: 404 }
+        );
+      }
+
+      // Status changes follow the lifecycle. A status the device never saw
+      // is left to the merge below, which flags it for review if need be.
+      const now = new Date();
+      const statusSeen = !baseRevision || getFieldRevision(current, 'status') <= baseRevision;
+      const changes = statusSeen ? enrichCompletedTrip(current, applyTransition(current, updates, now), now) : updates;
+
+      // Update trip field by field so a stale device cannot overwrite newer edits
+      const incoming = applyTripUpdates(current, changes, now);
+      const { merged, conflicts } = mergeTrips(current, incoming, baseRevision);
+      const updatedTrip: Trip = {
+        ...merged,
+        conflicts: undefined,
+        updatedAt: now,
+        syncedAt: now
+      };
+
+      repositories.trips.save(updatedTrip);
+
+      // Conflicts are reviewed on the device, so they go back with the trip
+      // rather than being kept here
+      const response: APIResponse<Trip> = {
+        success: true,
+        data: { ...updatedTrip, conflicts: conflicts.length > 0 ? swapConflictSides(conflicts) : undefined },
+        message: 'Trip updated successfully'
+      };
+
+      return NextResponse.json(response);
+    });
+  } catch (error) {
+    if (error instanceof CodecError) {
+      return NextResponse.json(
+        { success: false, error: error.message, errors: error.issues },
+        { status: 400 }
+      );
+    }
+    if (error instanceof TripTransitionError) {
+      return NextResponse.json(
+        { success: false, error: error.message, errors: error.issues },
+        { status: 409 }
+      );
+    }
+    console.error('Error updating trip:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update trip' },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteTrip(tripId: string, user: User) {
+  try {
+    const repositories = getRepositories();
+
+    return repositories.transaction(() => {
+      // Find and remove trip
+      const deletedTrip = repositories.trips.findForUser(user.id, tripId);
+
+      if (!deletedTrip) {
+        return NextResponse.json(
+          { success: false, error: 'Trip not found' },
+          { status: 404 }
+        );
+      }
+
+      repositories.trips.delete(tripId);
+
+      const response: APIResponse<Trip> = {
+        success: true,
+        data: deletedTrip,
+        message: 'Trip deleted successfully'
+      };
+
+      return NextResponse.json(response);
+    });
+  } catch (error) {
+    console.error('Error deleting trip:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete trip' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { APIResponse, User } from '@/lib/types';
+import { CodecError } from '@/lib/codecs';
+import { getRepositories, TripChanges } from '@/lib/server/repositories';
+import { withAuth } from '@/lib/server/auth';
+import { parseChangeCursor } from '@/lib/server/query';
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, user => listChanges(request, user));
+}
+
+// The user's trips saved or deleted after `since`, oldest first. Devices
+// keep the returned cursor and send it back on their next pull.
+async function listChanges(request: NextRequest, user: User) {
+  try {
+    const { since, limit } = parseChangeCursor(new URL(request.url).searchParams);
+
+    const response: APIResponse<TripChanges> = {
+      success: true,
+      data: getRepositories().trips.listChanges(user.id, since, limit)
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof CodecError) {
+      return NextResponse.json(
+        { success: false, error: error.message, errors: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error('Error fetching trip changes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch trip changes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CodecError } from '@/lib/codecs';
+import { getRepositories } from '@/lib/server/repositories';
+import { withResearcher } from '@/lib/server/auth';
+import { parseExportFormat, parseTripFilters } from '@/lib/server/query';
+import { describeExportSchema, EXPORT_FORMATS, getExportFilename, renderExport } from '@/lib/export';
+
+export async function GET(request: NextRequest) {
+  return withResearcher(request, () => exportTrips(request));
+}
+
+// Trips of every respondent in one file, filtered as GET /api/trips;
+// `format=schema` describes the columns instead
+async function exportTrips(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = parseExportFormat(searchParams);
+
+    if (format === 'schema') {
+      return NextResponse.json({
+        success: true,
+        data: describeExportSchema(),
+        message: 'Export schema retrieved successfully'
+      });
+    }
+
+    const trips = getRepositories().trips.list(parseTripFilters(searchParams));
+    return new NextResponse(renderExport(trips, format), {
+      headers: {
+        'Content-Type': EXPORT_FORMATS[format].contentType,
+        'Content-Disposition': `attachment; filename="${getExportFilename(format)}"`
+      }
+    });
+  } catch (error) {
+    if (error instanceof CodecError) {
+      return NextResponse.json(
+        { success: false, error: error.message, errors: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error('Error exporting trips:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export trips' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CodecError } from '@/lib/codecs';
+import { getRepositories } from '@/lib/server/repositories';
+import { withResearcher } from '@/lib/server/auth';
+import { parseODOptions, parseTripFilters } from '@/lib/server/query';
+import { buildODMatrix, odMatrixToCsv } from '@/lib/od';
+
+export async function GET(request: NextRequest) {
+  return withResearcher(request, () => getODMatrix(request));
+}
+
+// Completed trips of every respondent, filtered as GET /api/trips (mode,
+// purpose, from/to, origin and destination zone) and by `timeBand`
+async function getODMatrix(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { format, ...options } = parseODOptions(searchParams);
+    const trips = getRepositories().trips.list({ ...parseTripFilters(searchParams), status: 'completed' });
+    const matrix = buildODMatrix(trips, options);
+
+    if (format === 'csv') {
+      return new NextResponse(odMatrixToCsv(matrix), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="natpac_od_${matrix.zoneLevel}.csv"`
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: matrix,
+      message: 'OD matrix built successfully'
+    });
+  } catch (error) {
+    if (error instanceof CodecError) {
+      return NextResponse.json(
+        { success: false, error: error.message, errors: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error('Error building OD matrix:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build OD matrix' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,41 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Trip, NewTripForm, APIResponse } from '@/lib/types';
-
-// In-memory storage for demo purposes
-// In production, this would connect to a real database
-let trips: Trip[] = [];
-let tripIdCounter = 1;
+import { Trip, APIResponse, PaginatedResponse, User } from '@/lib/types';
+import { CodecError } from '@/lib/codecs';
+import { validateNewTrip, validateUploadedTrip } from '@/lib/validation';
+import { mergeTrips, swapConflictSides } from '@/lib/conflicts';
+import { assertTransition, assertTripState, TripTransitionError } from '@/lib/lifecycle';
+import { withIdempotency } from '@/lib/server/idempotency';
+import { getRepositories, TripQuery } from '@/lib/server/repositories';
+import { withAuth } from '@/lib/server/auth';
+import { paginate, parsePagination, parseTripFilters } from '@/lib/server/query';
 
 export async function GET(request: NextRequest) {
+  return withAuth(request, user => listTrips(request, user));
+}
+
+export async function POST(request: NextRequest) {
+  return withAuth(request, user => withIdempotency(request, () => createTrip(request, user), user.id));
+}
+
+async function listTrips(request: NextRequest, user: User) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId') || 'current_user';
-    const status = searchParams.get('status');
-    const limit = parseInt(searchParams.get('limit') || '0');
+    const pagination = parsePagination(searchParams);
 
-    // Filter trips by user and optionally by status
-    let filteredTrips = trips.filter(trip => trip.primaryTraveler === userId);
-    
-    if (status) {
-      filteredTrips = filteredTrips.filter(trip => trip.status === status);
-    }
-
-    // Sort by creation date (newest first)
-    filteredTrips.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    // The user's trips, newest first, filtered by status, mode, purpose and
+    // start date. Devices pull what changed from /api/trips/changes instead.
+    const query: TripQuery = { ...parseTripFilters(searchParams), userId: user.id };
+    const repositories = getRepositories();
+    const trips = repositories.trips.list({ ...query, limit: pagination.limit, offset: pagination.offset });
 
-    // Apply limit if specified
-    if (limit > 0) {
-      filteredTrips = filteredTrips.slice(0, limit);
-    }
-
-    const response: APIResponse<Trip[]> = {
-      success: true,
-      data: filteredTrips,
-      message: `Found ${filteredTrips.length} trips`
-    };
+    const response: PaginatedResponse<Trip> = paginate(trips, repositories.trips.count(query), pagination);
 
     return NextResponse.json(response);
   } catch (error) {
+    if (error instanceof CodecError) {
+      return NextResponse.json(
+        { success: false, error: error.message, errors: error.issues },
+        { status: 400 }
+      );
+    }
     console.error('Error fetching trips:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to fetch trips' },
@@ -44,215 +46,114 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { origin, mode, purpose, purposeDetail, accompanyingTravelers, notes } = body;
-
-    // Validate required fields
-    if (!origin || !mode || !purpose) {
-      return NextResponse.json(
-        { success: false, error: 'Missing required fields: origin, mode, purpose' },
-        { status: 400 }
-      );
+// Trips recorded offline arrive as complete records with a client-generated id
+function upsertClientTrip(body: unknown, user: User): NextResponse {
+  const incoming: Trip = { ...validateUploadedTrip(body), primaryTraveler: user.id };
+  const repositories = getRepositories();
+
+  return repositories.transaction(() => {
+    const existing = repositories.trips.findForUser(user.id, incoming.id);
+    // Edits made on both sides since the device last synced are conflicts
+    const { merged, conflicts } = existing
+      ? mergeTrips(existing, incoming, incoming.syncedAt)
+      : { merged: incoming, conflicts: [] };
+    // Conflicts are per device; the server copy only keeps merged values
+    const trip: Trip = { ...merged, conflicts: undefined, syncedAt: new Date() };
+
+    // A new record, or a status change, must leave the trip valid in its state
+    if (!existing || existing.status !== trip.status) {
+      if (existing) assertTransition(existing.status, trip.status);
+      assertTripState(trip);
     }
 
-    // Check for existing active trip
-    const existingActiveTrip = trips.find(trip => 
-      trip.primaryTraveler === 'current_user' && trip.status === 'active'
-    );
-
-    if (existingActiveTrip) {
+    if (!repositories.trips.save(trip)) {
       return NextResponse.json(
-        { success: false, error: 'Cannot create new trip: active trip already exists' },
-        { status: 400 }
+        { success: false, error: 'Trip id is already in use' },
+        { status: 409 }
       );
     }
 
-    // Create new trip
-    const now = new Date();
-    const tripId = `trip_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-    
-    const newTrip: Trip = {
-      id: tripId,
-      tripNumber: tripIdCounter++,
-      status: 'active',
-      origin: {
-        ...origin,
-        timestamp: new Date(origin.timestamp)
-      },
-      startTime: now,
-      mode,
-      purpose,
-      purposeDetail,
-      primaryTraveler: 'current_user',
-      accompanyingTravelers: accompanyingTravelers || [],
-      totalTravelers: 1 + (accompanyingTravelers?.length || 0),
-      notes,
-      createdAt: now,
-      updatedAt: now
-    };
-
-    trips.push(newTrip);
-
+    // ...and go back to the device that sent the trip for review
     const response: APIResponse<Trip> = {
       success: true,
-      data: newTrip,
-      message: 'Trip created successfully'
+      data: { ...trip, conflicts: conflicts.length > 0 ? swapConflictSides(conflicts) : undefined },
+      message: existing ? 'Trip updated successfully' : 'Trip created successfully'
     };
 
-    return NextResponse.json(response, { status: 201 });
-  } catch (error) {
-    console.error('Error creating trip:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to create trip' },
-      { status: 500 }
-    );
-  }
+    return NextResponse.json(response, { status: existing ? 200 : 201 });
+  });
 }
 
-export async function PUT(request: NextRequest) {
+async function createTrip(request: NextRequest, user: User) {
   try {
     const body = await request.json();
-    const { tripId, updates } = body;
 
-    if (!tripId) {
-      return NextResponse.json(
-        { success: false, error: 'Missing tripId' },
-        { status: 400 }
-      );
+    if (body.id) {
+      return upsertClientTrip(body, user);
     }
 
-    // Find trip
-    const tripIndex = trips.findIndex(trip => trip.id === tripId);
-    
-    if (tripIndex === -1) {
-      return NextResponse.json(
-        { success: false, error: 'Trip not found' },
-        { status: 404 }
-      );
-    }
+    const { status = 'active', origin, mode, purpose, purposeDetail, accompanyingTravelers, notes } = validateNewTrip(body);
+    const repositories = getRepositories();
 
-    // Update trip
-    trips[tripIndex] = {
-      ...trips[tripIndex],
-      ...updates,
-      updatedAt: new Date()
-    };
+    return repositories.transaction(() => {
+      // Check for existing active trip; planned trips may be added any time
+      const existingActiveTrip = status === 'active' ? repositories.trips.findActive(user.id) : null;
 
-    // If completing trip, calculate duration
-    if (updates.status === 'completed' && updates.destination && !updates.duration) {
-      const startTime = new Date(trips[tripIndex].startTime);
-      const endTime = new Date(updates.endTime || new Date());
-      const durationMinutes = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60));
-      trips[tripIndex].duration = durationMinutes;
-    }
+      if (existingActiveTrip) {
+        return NextResponse.json(
+          { success: false, error: 'Cannot create new trip: active trip already exists' },
+          { status: 400 }
+        );
+      }
 
-    const response: APIResponse<Trip> = {
-      success: true,
-      data: trips[tripIndex],
-      message: 'Trip updated successfully'
-    };
+      // Create new trip
+      const now = new Date();
+      const tripId = `trip_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    
+      const newTrip: Trip = {
+        id: tripId,
+        tripNumber: repositories.trips.nextTripNumber(),
+        status,
+        origin,
+        startTime: now,
+        mode,
+        purpose,
+        purposeDetail,
+        primaryTraveler: user.id,
+        accompanyingTravelers,
+        totalTravelers: 1 + accompanyingTravelers.length,
+        notes,
+        createdAt: now,
+        updatedAt: now
+      };
 
-    return NextResponse.json(response);
-  } catch (error) {
-    console.error('Error updating trip:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to update trip' },
-      { status: 500 }
-    );
-  }
-}
+      repositories.trips.save(newTrip);
 
-export async function DELETE(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const tripId = searchParams.get('tripId');
+      const response: APIResponse<Trip> = {
+        success: true,
+        data: newTrip,
+        message: 'Trip created successfully'
+      };
 
-    if (!tripId) {
+      return NextResponse.json(response, { status: 201 });
+    });
+  } catch (error) {
+    if (error instanceof CodecError) {
       return NextResponse.json(
-        { success: false, error: 'Missing tripId parameter' },
+        { success: false, error: error.message, errors: error.issues },
         { status: 400 }
       );
     }
-
-    // Find and remove trip
-    const tripIndex = trips.findIndex(trip => trip.id === tripId);
-    
-    if (tripIndex === -1) {
+    if (error instanceof TripTransitionError) {
       return NextResponse.json(
-        { success: false, error: 'Trip not found' },
-        { status: 404 }
+        { success: false, error: error.message, errors: error.issues },
+        { status: 409 }
       );
     }
-
-    const deletedTrip = trips.splice(tripIndex, 1)[0];
-
-    const response: APIResponse<Trip> = {
-      success: true,
-      data: deletedTrip,
-      message: 'Trip deleted successfully'
-    };
-
-    return NextResponse.json(response);
-  } catch (error) {
-    console.error('Error deleting trip:', error);
+    console.error('Error creating trip:', error);
     return NextResponse.json(
-      { success: false, error: 'Failed to delete trip' },
+      { success: false, error: 'Failed to create trip' },
       { status: 500 }
     );
   }
 }
-
-// Export trip statistics endpoint
-export async function OPTIONS(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId') || 'current_user';
-    const action = searchParams.get('action');
-
-    if (action === 'stats') {
-      const userTrips = trips.filter(trip => trip.primaryTraveler === userId);
-      
-      const stats = {
-        total: userTrips.length,
-        completed: userTrips.filter(t => t.status === 'completed').length,
-        active: userTrips.filter(t => t.status === 'active').length,
-        cancelled: userTrips.filter(t => t.status === 'cancelled').length,
-        avgDuration: Math.round(
-          userTrips
-            .filter(t => t.duration)
-            .reduce((sum, t) => sum + (t.duration || 0), 0) / 
-          Math.max(userTrips.filter(t => t.duration).length, 1)
-        ),
-        totalDistance: 0, // Would calculate from coordinates in real app
-        totalTravelers: userTrips.reduce((sum, t) => sum + t.totalTravelers, 0),
-        byMode: userTrips.reduce((acc, trip) => {
-          acc[trip.mode] = (acc[trip.mode] || 0) + 1;
-          return acc;
-        }, {} as Record<string, number>),
-        byPurpose: userTrips.reduce((acc, trip) => {
-          acc[trip.purpose] = (acc[trip.purpose] || 0) + 1;
-          return acc;
-        }, {} as Record<string, number>)
-      };
-
-      return NextResponse.json({
-        success: true,
-        data: stats,
-        message: 'Statistics retrieved successfully'
-      });
-    }
-
-    return NextResponse.json(
-      { success: false, error: 'Invalid action' },
-      { status: 400 }
-    );
-  } catch (error) {
-    console.error('Error getting trip statistics:', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to get statistics' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { User } from '@/lib/types';
+import { CodecError } from '@/lib/codecs';
+import { getRepositories } from '@/lib/server/repositories';
+import { withAuth } from '@/lib/server/auth';
+import { parseTripFilters, parseZoneLevel } from '@/lib/server/query';
+import { getAverageSpeed, getTotalDistance } from '@/lib/trace';
+import { getTripModes, isMultimodal } from '@/lib/stages';
+import { countTripsByZone } from '@/lib/zones';
+
+export async function GET(request: NextRequest) {
+  return withAuth(request, user => getTripStats(request, user));
+}
+
+// Accepts the same filters as GET /api/trips, plus `zoneLevel` for the
+// zone counts
+async function getTripStats(request: NextRequest, user: User) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userTrips = getRepositories().trips.list({ ...parseTripFilters(searchParams), userId: user.id });
+    const zoneLevel = parseZoneLevel(searchParams);
+    const measured = userTrips.filter(t => t.status === 'completed' && t.duration);
+    const totalDistance = getTotalDistance(userTrips);
+
+    const stats = {
+      total: userTrips.length,
+      planned: userTrips.filter(t => t.status === 'planned').length,
+      completed: userTrips.filter(t => t.status === 'completed').length,
+      active: userTrips.filter(t => t.status === 'active').length,
+      cancelled: userTrips.filter(t => t.status === 'cancelled').length,
+      avgDuration: Math.round(
+        userTrips
+          .filter(t => t.duration)
+          .reduce((sum, t) => sum + (t.duration || 0), 0) /
+        Math.max(userTrips.filter(t => t.duration).length, 1)
+      ),
+      totalDistance,
+      // Over all measured travel, so long trips weigh more than short ones
+      avgSpeed: getAverageSpeed(
+        getTotalDistance(measured),
+        measured.reduce((sum, t) => sum + (t.duration || 0), 0)
+      ) ?? 0,
+      totalTravelers: userTrips.reduce((sum, t) => sum + t.totalTravelers, 0),
+      byMode: userTrips.reduce((acc, trip) => {
+        acc[trip.mode] = (acc[trip.mode] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>),
+      multimodal: userTrips.filter(isMultimodal).length,
+      // Trips using each mode at all, so a multimodal trip counts once per mode
+      byStageMode: userTrips.reduce((acc, trip) => {
+        getTripModes(trip).forEach(mode => {
+          acc[mode] = (acc[mode] || 0) + 1;
+        });
+        return acc;
+      }, {} as Record<string, number>),
+      byPurpose: userTrips.reduce((acc, trip) => {
+        acc[trip.purpose] = (acc[trip.purpose] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>),
+      zoneLevel,
+      byOriginZone: countTripsByZone(userTrips, 'origin', zoneLevel),
+      byDestinationZone: countTripsByZone(userTrips, 'destination', zoneLevel)
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: stats,
+      message: 'Statistics retrieved successfully'
+    });
+  } catch (error) {
+    if (error instanceof CodecError) {
+      return NextResponse.json(
+        { success: false, error: error.message, errors: error.issues },
+        { status: 400 }
+      );
+    }
+    console.error('Error getting trip statistics:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to get statistics' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,19 @@
 "use client";
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import NavigationBar from '@/components/NavigationBar';
 import { ConsentData, AppSettings } from '@/lib/types';
 import { storageService } from '@/lib/storage';
+import { EXPORT_FORMATS, ExportFormat, getExportFilename, renderExport } from '@/lib/export';
+import { useSync } from '@/hooks/useSync';
+import { useAuth } from '@/hooks/useAuth';
 
 interface ConsentItem {
   key: keyof Omit<ConsentData, 'userId' | 'consentDate' | 'ipAddress' | 'userAgent'>;
@@ -56,7 +61,15 @@ const consentItems: ConsentItem[] = [
   }
 ];
 
+const syncFrequencyOptions: { value: AppSettings['syncFrequency']; label: string }[] = [
+  { value: 'manual', label: 'Manual only' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' }
+];
+
 export default function ConsentPage() {
+  const sync = useSync();
+  const auth = useAuth();
   const [consent, setConsent] = useState<ConsentData | null>(null);
   const [settings, setSettings] = useState<AppSettings | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -74,7 +87,7 @@ export default function ConsentPage() {
         } else {
           // Initialize with default consent
           setConsent({
-            userId: 'current_user',
+            userId: storageService.getUser()?.id ?? 'current_user',
             dataCollection: false,
             locationTracking: false,
             dataSharing: false,
@@ -162,6 +175,25 @@ export default function ConsentPage() {
     }
   };
 
+  const handleResearchExport = (format: ExportFormat) => {
+    try {
+      const dataBlob = new Blob([renderExport(storageService.getTrips(), format)], {
+        type: EXPORT_FORMATS[format].contentType
+      });
+
+      const url = URL.createObjectURL(dataBlob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getExportFilename(format);
+      link.click();
+
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting trips:', error);
+      alert('Failed to export trips. Please try again.');
+    }
+  };
+
   const handleDataClear = () => {
     if (!confirm('Are you sure you want to delete all your data? This action cannot be undone.')) {
       return;
@@ -320,6 +352,32 @@ export default function ConsentPage() {
                 onCheckedChange={(value) => handleSettingChange('notificationsEnabled', value)}
               />
             </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="font-medium">Sync Frequency</Label>
+                <p className="text-sm text-gray-600">
+                  How often trips are uploaded to NATPAC
+                </p>
+              </div>
+              <Select
+                value={settings.syncFrequency}
+                onValueChange={(value) => handleSettingChange('syncFrequency', value)}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {syncFrequencyOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </Card>
         </div>
 
@@ -330,6 +388,70 @@ export default function ConsentPage() {
           <h2 className="text-lg font-semibold text-gray-900">Data Management</h2>
           
           <Card className="p-4 space-y-4">
+            <div className="space-y-2">
+              <h3 className="font-medium">Account</h3>
+              {auth.isAuthenticated && auth.user ? (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-600">
+                    Signed in as {auth.user.name ? `${auth.user.name} (${auth.user.phone})` : auth.user.phone}
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => void auth.logout()}
+                    disabled={auth.loading}
+                  >
+                    Sign Out
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600">
+                    Sign in with your mobile number to upload trips to NATPAC
+                  </p>
+                  <Link href="/login">
+                    <Button variant="outline" className="w-full">
+                      📱 Sign In
+                    </Button>
+                  </Link>
+                </>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h3 className="font-medium">Sync Trips</h3>
+              <div className="space-y-1 text-sm text-gray-600">
+                <p>
+                  {sync.pending > 0
+                    ? `${sync.pending} change${sync.pending !== 1 ? 's' : ''} waiting to upload`
+                    : 'All trips uploaded'}
+                </p>
+                <p>
+                  Last sync: {sync.lastSync ? new Date(sync.lastSync).toLocaleString() : 'Never'}
+                </p>
+                {sync.failed > 0 && (
+                  <p className="text-red-600">
+                    {sync.failed} change{sync.failed !== 1 ? 's were' : ' was'} rejected by the server
+                  </p>
+                )}
+                {sync.lastError && (
+                  <p className="text-red-600">{sync.lastError}</p>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => void sync.syncNow()}
+                disabled={sync.syncing || !auth.isAuthenticated}
+                className="w-full"
+              >
+                {sync.syncing ? 'Syncing...' : '🔄 Sync Now'}
+              </Button>
+            </div>
+
+            <Separator />
+
             <div className="space-y-2">
               <h3 className="font-medium">Export Your Data</h3>
               <p className="text-sm text-gray-600">
@@ -346,6 +468,27 @@ export default function ConsentPage() {
 
             <Separator />
 
+            <div className="space-y-2">
+              <h3 className="font-medium">Export Trips for Analysis</h3>
+              <p className="text-sm text-gray-600">
+                Your trips as spreadsheets, map layers or GPS tracks, in the format NATPAC researchers use
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                  <Button
+                    key={format}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleResearchExport(format)}
+                  >
+                    {EXPORT_FORMATS[format].label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <Separator />
+
             <div className="space-y-2">
               <h3 className="font-medium text-red-600">Delete All Data</h3>
               <p className="text-sm text-gray-600">
@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
+import TripDetection from "@/components/TripDetection";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -34,6 +35,7 @@ export default function RootLayout({
       <body className={`${inter.className} bg-gray-50 min-h-screen`}>
         <div className="flex flex-col min-h-screen max-w-md mx-auto bg-white shadow-lg">
           {children}
+          <TripDetection />
         </div>
       </body>
     </html>
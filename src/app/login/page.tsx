@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useAuth } from '@/hooks/useAuth';
+import { OtpChallenge } from '@/lib/types';
+
+const OTP_LENGTH = 6;
+
+export default function LoginPage() {
+  const router = useRouter();
+  const { user, isAuthenticated, loading, error, requestOtp, verifyOtp } = useAuth();
+
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [challenge, setChallenge] = useState<OtpChallenge | null>(null);
+  const [resendIn, setResendIn] = useState(0);
+
+  // Count down until another code may be requested
+  useEffect(() => {
+    if (!challenge) return;
+
+    const updateCountdown = () => {
+      setResendIn(Math.max(0, Math.ceil((challenge.resendAfter.getTime() - Date.now()) / 1000)));
+    };
+
+    updateCountdown();
+    const timer = setInterval(updateCountdown, 1000);
+
+    return () => clearInterval(timer);
+  }, [challenge]);
+
+  const handleSendCode = async () => {
+    const result = await requestOtp(phone);
+    if (result) {
+      setChallenge(result);
+      setCode('');
+    }
+  };
+
+  const handleVerify = async (value: string = code) => {
+    if (!challenge || value.length !== OTP_LENGTH) return;
+
+    const session = await verifyOtp(challenge.phone, value, name);
+    if (session) {
+      router.push('/');
+    } else {
+      setCode('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-blue-600 text-white p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold">Sign In</h1>
+            <p className="text-blue-100 text-sm">Verify your mobile number to sync trips</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.back()}
+            className="text-white hover:bg-blue-700"
+          >
+            Cancel
+          </Button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {isAuthenticated && user && (
+          <Card className="p-4 space-y-2 border-l-4 border-l-green-600">
+            <p className="text-sm text-gray-900">
+              Signed in as <span className="font-medium">{user.name || user.phone}</span>
+            </p>
+            <Button variant="outline" size="sm" onClick={() => router.push('/')}>
+              Go to Home
+            </Button>
+          </Card>
+        )}
+
+        {!challenge ? (
+          <Card className="p-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Name (optional)</Label>
+              <Input
+                id="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Your name"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="phone">Mobile Number</Label>
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-gray-600">+91</span>
+                <Input
+                  id="phone"
+                  type="tel"
+                  inputMode="numeric"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  placeholder="98765 43210"
+                />
+              </div>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            <Button
+              onClick={handleSendCode}
+              disabled={loading || phone.trim().length === 0}
+              className="w-full"
+            >
+              {loading ? 'Sending...' : 'Send Verification Code'}
+            </Button>
+          </Card>
+        ) : (
+          <Card className="p-4 space-y-4">
+            <div>
+              <h3 className="font-semibold">Enter Code</h3>
+              <p className="text-sm text-gray-600">
+                We sent a {OTP_LENGTH}-digit code to {challenge.phone}
+              </p>
+            </div>
+
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={OTP_LENGTH}
+                pattern={REGEXP_ONLY_DIGITS}
+                value={code}
+                onChange={setCode}
+                onComplete={handleVerify}
+                disabled={loading}
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 text-center">{error}</p>
+            )}
+
+            <Button
+              onClick={() => handleVerify()}
+              disabled={loading || code.length !== OTP_LENGTH}
+              className="w-full"
+            >
+              {loading ? 'Verifying...' : 'Verify'}
+            </Button>
+
+            <div className="flex items-center justify-between">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setChallenge(null)}
+              >
+                Change number
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleSendCode}
+                disabled={loading || resendIn > 0}
+              >
+                {resendIn > 0 ? `Resend in ${resendIn}s` : 'Resend code'}
+              </Button>
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import TripCard from '@/components/TripCard';
 import { useTrips } from '@/hooks/useTrips';
 import { useTravelers } from '@/hooks/useTravelers';
 import { useGeolocation } from '@/hooks/useGeolocation';
+import { formatDistance } from '@/lib/trace';
 
 export default function HomePage() {
   const [currentTime, setCurrentTime] = useState(new Date());
@@ -137,6 +138,18 @@ export default function HomePage() {
               </div>
               <div className="text-sm text-gray-600">Avg Duration</div>
             </Card>
+            <Card className="p-4 text-center">
+              <div className="text-2xl font-bold text-teal-600">
+                {formatDistance(tripStats.totalDistance)}
+              </div>
+              <div className="text-sm text-gray-600">Distance</div>
+            </Card>
+            <Card className="p-4 text-center">
+              <div className="text-2xl font-bold text-indigo-600">
+                {tripStats.avgSpeed} km/h
+              </div>
+              <div className="text-sm text-gray-600">Avg Speed</div>
+            </Card>
             <Card className="p-4 text-center">
               <div className="text-2xl font-bold text-purple-600">
                 {travelerStats.total}
@@ -177,6 +190,14 @@ export default function HomePage() {
                 </div>
               </Card>
             </Link>
+            <Link href="/places">
+              <Card className="p-4 hover:bg-gray-50 transition-colors cursor-pointer">
+                <div className="text-center space-y-2">
+                  <div className="text-2xl">🏠</div>
+                  <div className="text-sm font-medium">Saved Places</div>
+                </div>
+              </Card>
+            </Link>
             <Link href="/consent">
               <Card className="p-4 hover:bg-gray-50 transition-colors cursor-pointer">
                 <div className="text-center space-y-2">
@@ -185,6 +206,14 @@ export default function HomePage() {
                 </div>
               </Card>
             </Link>
+            <Link href="/research">
+              <Card className="p-4 hover:bg-gray-50 transition-colors cursor-pointer">
+                <div className="text-center space-y-2">
+                  <div className="text-2xl">📊</div>
+                  <div className="text-sm font-medium">Research Dashboard</div>
+                </div>
+              </Card>
+            </Link>
           </div>
         </div>
 
@@ -0,0 +1,279 @@
+"use client";
+
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import NavigationBar from '@/components/NavigationBar';
+import LocationPicker from '@/components/LocationPicker';
+import { useSavedPlaces } from '@/hooks/useSavedPlaces';
+import { Location, SavedPlace, SavedPlaceForm } from '@/lib/types';
+import { DEFAULT_PLACE_RADIUS, PLACE_KINDS, getPlaceIcon } from '@/lib/places';
+import { MAX_PLACE_RADIUS, MIN_PLACE_RADIUS, savedPlaceFormSchema, validateForm } from '@/lib/validation';
+import { formatCoordinates } from '@/lib/geolocation';
+
+// The location is unset until one is picked
+type PlaceFormState = Omit<SavedPlaceForm, 'location'> & { location: Location | null };
+
+const emptyForm = (): PlaceFormState => ({
+  name: '',
+  kind: 'home',
+  location: null,
+  radius: DEFAULT_PLACE_RADIUS
+});
+
+interface PlaceCardProps {
+  place: SavedPlace;
+  onEdit: (place: SavedPlace) => void;
+  onDelete: (placeId: string) => void;
+}
+
+function PlaceCard({ place, onEdit, onDelete }: PlaceCardProps) {
+  return (
+    <Card className="p-4">
+      <div className="space-y-3">
+        <div className="flex items-start space-x-3">
+          <div className="text-2xl">{getPlaceIcon(place.kind)}</div>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold text-gray-900">{place.name}</h3>
+            <p className="text-sm text-gray-600 truncate">
+              {place.location.address || formatCoordinates(place.location)}
+            </p>
+            <p className="text-xs text-gray-500">
+              Within {place.radius} m counts as {place.name}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onEdit(place)}
+            className="flex-1"
+          >
+            Edit
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onDelete(place.id)}
+            className="text-red-600 hover:bg-red-50"
+          >
+            Delete
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+export default function PlacesPage() {
+  const { places, error, savePlace, removePlace } = useSavedPlaces();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPlace, setEditingPlace] = useState<SavedPlace | null>(null);
+  const [formData, setFormData] = useState<PlaceFormState>(emptyForm);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setFieldErrors({});
+  };
+
+  const handleSubmit = async () => {
+    const validation = validateForm(savedPlaceFormSchema, formData);
+    setFieldErrors(validation.errors);
+    if (!validation.success) return;
+
+    const placeId = await savePlace(validation.data, editingPlace?.id);
+    if (placeId) {
+      setIsDialogOpen(false);
+      setEditingPlace(null);
+      resetForm();
+    }
+  };
+
+  const handleEdit = (place: SavedPlace) => {
+    setEditingPlace(place);
+    setFormData({
+      name: place.name,
+      kind: place.kind,
+      location: place.location,
+      radius: place.radius
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (placeId: string) => {
+    if (!confirm('Remove this place? Trips already recorded there are not changed.')) {
+      return;
+    }
+
+    await removePlace(placeId);
+  };
+
+  const handleDialogClose = () => {
+    setIsDialogOpen(false);
+    setEditingPlace(null);
+    resetForm();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-blue-600 text-white p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold">Saved Places</h1>
+            <p className="text-blue-100 text-sm">
+              Home, work and other places you go often
+            </p>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : handleDialogClose())}>
+            <DialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-white hover:bg-blue-700"
+                onClick={() => setIsDialogOpen(true)}
+              >
+                + Add
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-sm max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingPlace ? 'Edit Place' : 'Add Place'}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="kind">Type</Label>
+                  <Select
+                    value={formData.kind}
+                    onValueChange={(value: SavedPlace['kind']) => setFormData(prev => ({
+                      ...prev,
+                      kind: value,
+                      // Name the place after its type unless the user has named it
+                      name: !prev.name || PLACE_KINDS.some(k => k.label === prev.name)
+                        ? PLACE_KINDS.find(k => k.value === value)?.label ?? prev.name
+                        : prev.name
+                    }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PLACE_KINDS.map(kind => (
+                        <SelectItem key={kind.value} value={kind.value}>
+                          {kind.icon} {kind.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="name">Name</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g. Home, Office, College"
+                  />
+                  {fieldErrors.name && (
+                    <p className="text-sm text-red-600 mt-1">{fieldErrors.name}</p>
+                  )}
+                </div>
+
+                <div>
+                  <LocationPicker
+                    label="Location"
+                    location={formData.location}
+                    onLocationChange={(location) => setFormData(prev => ({ ...prev, location }))}
+                    required
+                    withSavedPlaces={false}
+                  />
+                  {fieldErrors.location && (
+                    <p className="text-sm text-red-600 mt-1">Pick where this place is</p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="radius">Radius (m)</Label>
+                  <Input
+                    id="radius"
+                    type="number"
+                    min={MIN_PLACE_RADIUS}
+                    max={MAX_PLACE_RADIUS}
+                    step={10}
+                    value={formData.radius}
+                    onChange={(e) => setFormData(prev => ({ ...prev, radius: e.target.valueAsNumber }))}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Locations this close are recorded as this place
+                  </p>
+                  {fieldErrors.radius && (
+                    <p className="text-sm text-red-600 mt-1">{fieldErrors.radius}</p>
+                  )}
+                </div>
+
+                <div className="flex space-x-2">
+                  <Button onClick={handleSubmit} className="flex-1">
+                    {editingPlace ? 'Update' : 'Save Place'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleDialogClose}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+
+                {error && (
+                  <p className="text-red-600 text-sm">{error}</p>
+                )}
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {/* Place List */}
+      <div className="p-4 pb-20 space-y-4">
+        {places.length === 0 ? (
+          <Card className="p-8 text-center">
+            <div className="text-4xl mb-4">🏠</div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              No saved places yet
+            </h3>
+            <p className="text-gray-600 text-sm mb-4">
+              Save home, work or school to pick them in one tap and have trips there recorded at the same spot
+            </p>
+            <Button
+              onClick={() => setIsDialogOpen(true)}
+              className="mx-auto"
+            >
+              Add First Place
+            </Button>
+          </Card>
+        ) : (
+          places.map((place) => (
+            <PlaceCard
+              key={place.id}
+              place={place}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+            />
+          ))
+        )}
+      </div>
+
+      <NavigationBar />
+    </div>
+  );
+}
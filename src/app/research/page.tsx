@@ -0,0 +1,270 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import NavigationBar from '@/components/NavigationBar';
+import { getModeIcon, getModeLabel } from '@/components/TripModeSelector';
+import { tripPurposes } from '@/components/TripPurposeSelector';
+import { useAuth } from '@/hooks/useAuth';
+import { ODFilters, useODMatrix } from '@/hooks/useODMatrix';
+import { transportModeSchema } from '@/lib/codecs';
+import { getODCount, ODMatrix, TIME_BANDS } from '@/lib/od';
+import { ZoneLevel } from '@/lib/zones';
+
+const zoneLevelOptions: { value: ZoneLevel; label: string }[] = [
+  { value: 'district', label: 'District' },
+  { value: 'local_body', label: 'Local body' },
+  { value: 'taz', label: 'Traffic analysis zone' }
+];
+
+// Shade from white to blue by the share of the busiest pair
+const cellStyle = (trips: number, max: number) => {
+  const share = max > 0 ? trips / max : 0;
+  return {
+    backgroundColor: `rgba(37, 99, 235, ${share})`,
+    color: share > 0.5 ? 'white' : undefined
+  };
+};
+
+function ODHeatmap({ matrix }: { matrix: ODMatrix }) {
+  const max = Math.max(0, ...matrix.cells.map(cell => cell.trips));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-collapse">
+        <thead>
+          <tr>
+            <th className="p-1 text-left text-gray-500 font-normal">From ↓ To →</th>
+            {matrix.zones.map(zone => (
+              <th key={zone.id} className="p-1 font-medium text-gray-700 align-bottom" title={zone.name}>
+                {zone.id}
+              </th>
+            ))}
+            <th className="p-1 font-semibold text-gray-900">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.zones.map(origin => (
+            <tr key={origin.id}>
+              <th className="p-1 text-left font-medium text-gray-700 whitespace-nowrap" title={origin.id}>
+                {origin.name}
+              </th>
+              {matrix.zones.map(destination => {
+                const trips = getODCount(matrix, origin.id, destination.id);
+                return (
+                  <td
+                    key={destination.id}
+                    className="p-1 text-center border border-gray-100 min-w-8"
+                    style={cellStyle(trips, max)}
+                    title={`${origin.name} → ${destination.name}: ${trips}`}
+                  >
+                    {trips || ''}
+                  </td>
+                );
+              })}
+              <td className="p-1 text-center font-semibold">{matrix.originTotals[origin.id] ?? 0}</td>
+            </tr>
+          ))}
+          <tr>
+            <th className="p-1 text-left font-semibold text-gray-900">Total</th>
+            {matrix.zones.map(zone => (
+              <td key={zone.id} className="p-1 text-center font-semibold">
+                {matrix.destinationTotals[zone.id] ?? 0}
+              </td>
+            ))}
+            <td className="p-1 text-center font-bold">{matrix.total}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function ResearchPage() {
+  const { isAuthenticated } = useAuth();
+  const { matrix, loading, error, loadMatrix, downloadCsv } = useODMatrix();
+  const [filters, setFilters] = useState<ODFilters>({ zoneLevel: 'district' });
+
+  useEffect(() => {
+    if (isAuthenticated) void loadMatrix(filters);
+  }, [isAuthenticated, filters, loadMatrix]);
+
+  // 'all' clears a filter
+  const handleFilterChange = (key: keyof ODFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value === 'all' ? undefined : value }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-blue-600 text-white p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold">Research Dashboard</h1>
+            <p className="text-blue-100 text-sm">
+              Completed trips by origin and destination zone
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white hover:bg-blue-700"
+            onClick={() => void downloadCsv(filters)}
+            disabled={!isAuthenticated || !matrix}
+          >
+            ⬇ CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="p-4 pb-20 space-y-4">
+        {!isAuthenticated ? (
+          <Card className="p-8 text-center space-y-4">
+            <p className="text-gray-600 text-sm">
+              Sign in with a researcher account to see trips across all respondents
+            </p>
+            <Link href="/login">
+              <Button variant="outline" className="w-full">
+                📱 Sign In
+              </Button>
+            </Link>
+          </Card>
+        ) : (
+          <>
+            {/* Filters */}
+            <Card className="p-4 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700 block mb-2">Zones</label>
+                  <Select
+                    value={filters.zoneLevel}
+                    onValueChange={(value: ZoneLevel) => setFilters(prev => ({ ...prev, zoneLevel: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {zoneLevelOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-gray-700 block mb-2">Time of Day</label>
+                  <Select
+                    value={filters.timeBand || 'all'}
+                    onValueChange={(value) => handleFilterChange('timeBand', value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="All day" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Day</SelectItem>
+                      {TIME_BANDS.map(band => (
+                        <SelectItem key={band.value} value={band.value}>
+                          {band.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-gray-700 block mb-2">Transport Mode</label>
+                  <Select
+                    value={filters.mode || 'all'}
+                    onValueChange={(value) => handleFilterChange('mode', value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="All modes" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Modes</SelectItem>
+                      {transportModeSchema.options.map(mode => (
+                        <SelectItem key={mode} value={mode}>
+                          {getModeIcon(mode)} {getModeLabel(mode)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-gray-700 block mb-2">Trip Purpose</label>
+                  <Select
+                    value={filters.purpose || 'all'}
+                    onValueChange={(value) => handleFilterChange('purpose', value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="All purposes" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Purposes</SelectItem>
+                      {tripPurposes.map(purpose => (
+                        <SelectItem key={purpose.value} value={purpose.value}>
+                          {purpose.icon} {purpose.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-gray-700 block mb-2">From</label>
+                  <Input
+                    type="date"
+                    value={filters.from ?? ''}
+                    onChange={(e) => handleFilterChange('from', e.target.value || 'all')}
+                  />
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-gray-700 block mb-2">Before</label>
+                  <Input
+                    type="date"
+                    value={filters.to ?? ''}
+                    onChange={(e) => handleFilterChange('to', e.target.value || 'all')}
+                  />
+                </div>
+              </div>
+            </Card>
+
+            {error && (
+              <Card className="p-4 bg-red-50 border-red-200">
+                <p className="text-red-600 text-sm">{error}</p>
+              </Card>
+            )}
+
+            {/* Matrix */}
+            <Card className="p-4 space-y-3">
+              {loading ? (
+                <p className="text-sm text-gray-600 text-center">Loading…</p>
+              ) : matrix && matrix.total > 0 ? (
+                <>
+                  <p className="text-sm text-gray-600">
+                    {matrix.total} trips between {matrix.zones.length} zones
+                  </p>
+                  <ODHeatmap matrix={matrix} />
+                </>
+              ) : (
+                <p className="text-sm text-gray-600 text-center">
+                  No completed trips match these filters
+                </p>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+
+      <NavigationBar />
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import NavigationBar from '@/components/NavigationBar';
 import { useTravelers } from '@/hooks/useTravelers';
 import { Traveler, TravelerForm } from '@/lib/types';
+import { travelerFormSchema, validateForm } from '@/lib/validation';
 
 interface TravelerCardProps {
   traveler: Traveler;
@@ -131,6 +132,7 @@ export default function TravelersPage() {
     relationship: 'other',
     hasConsent: false
   });
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   const stats = getTravelerStats();
 
@@ -141,13 +143,13 @@ export default function TravelersPage() {
       relationship: 'other',
       hasConsent: false
     });
+    setFieldErrors({});
   };
 
   const handleSubmit = async () => {
-    if (!formData.name.trim()) {
-      alert('Please enter a name');
-      return;
-    }
+    const validation = validateForm(travelerFormSchema, formData);
+    setFieldErrors(validation.errors);
+    if (!validation.success) return;
 
     try {
       if (editingTraveler) {
@@ -235,6 +237,9 @@ export default function TravelersPage() {
                     onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
                     placeholder="Enter traveler name"
                   />
+                  {fieldErrors.name && (
+                    <p className="text-sm text-red-600 mt-1">{fieldErrors.name}</p>
+                  )}
                 </div>
 
                 <div>
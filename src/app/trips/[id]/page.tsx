@@ -0,0 +1,256 @@
+"use client";
+
+import { useParams, useRouter } from 'next/navigation';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import NavigationBar from '@/components/NavigationBar';
+import TripCard from '@/components/TripCard';
+import { useTrips } from '@/hooks/useTrips';
+import { ConflictResolution, Location, TripField, TripFieldConflict, TripStage } from '@/lib/types';
+import { formatCoordinates } from '@/lib/geolocation';
+import { storageService } from '@/lib/storage';
+import { formatDistance, getTraces } from '@/lib/trace';
+import { getStages, isMultimodal, splitTrace } from '@/lib/stages';
+import { getModeIcon, getModeLabel } from '@/components/TripModeSelector';
+
+const fieldLabels: Partial<Record<TripField, string>> = {
+  status: 'Status',
+  origin: 'Origin',
+  destination: 'Destination',
+  startTime: 'Start time',
+  endTime: 'End time',
+  duration: 'Duration',
+  mode: 'Transport mode',
+  stages: 'Stages',
+  purpose: 'Purpose',
+  purposeDetail: 'Purpose details',
+  satisfactionRating: 'Rating',
+  notes: 'Notes'
+};
+
+const formatConflictValue = (field: TripField, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(empty)';
+
+  switch (field) {
+    case 'origin':
+    case 'destination': {
+      const location = value as Location;
+      return location.address || formatCoordinates(location);
+    }
+    case 'startTime':
+    case 'endTime':
+      return new Date(value as string).toLocaleString();
+    case 'duration':
+      return `${value} min`;
+    case 'satisfactionRating':
+      return `${value}/5`;
+    case 'stages':
+      return (value as TripStage[]).map(stage => getModeLabel(stage.mode)).join(' → ');
+    default:
+      return Array.isArray(value) ? value.join(', ') : String(value).replace('_', ' ');
+  }
+};
+
+export default function TripDetailPage() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const { getTripById, resolveConflict, error } = useTrips();
+
+  const trip = getTripById(id);
+
+  // Trips are not available until the storage backend has loaded
+  if (!trip && storageService.getBackend() === null) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-600 border-t-transparent mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading trip...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!trip) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="p-4">
+          <Card className="p-8 text-center space-y-4">
+            <p className="text-gray-600">Trip not found</p>
+            <Button variant="outline" onClick={() => router.push('/trips/history')}>
+              Back to History
+            </Button>
+          </Card>
+        </div>
+        <NavigationBar />
+      </div>
+    );
+  }
+
+  const handleResolve = async (conflict: TripFieldConflict, resolution: ConflictResolution) => {
+    const success = await resolveConflict(trip.id, conflict.field, resolution);
+    if (!success) {
+      alert('Failed to resolve conflict. Please try again.');
+    }
+  };
+
+  const conflicts = trip.conflicts ?? [];
+  const traces = getTraces(trip);
+  const stages = getStages(trip);
+  const multimodal = isMultimodal(trip);
+
+  const handleTraceExport = (kind: 'raw' | 'cleaned') => {
+    try {
+      // A multimodal trace is exported stage by stage, each with its mode
+      const data = multimodal
+        ? splitTrace(traces[kind], stages).map((waypoints, i) => ({
+          mode: stages[i].mode,
+          startTime: stages[i].startTime,
+          endTime: stages[i].endTime,
+          waitingTime: stages[i].waitingTime,
+          waypoints
+        }))
+        : traces[kind];
+      const dataStr = JSON.stringify(data, null, 2);
+      const dataBlob = new Blob([dataStr], { type: 'application/json' });
+
+      const url = URL.createObjectURL(dataBlob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `natpac_trip_${trip.tripNumber}_${kind}_trace.json`;
+      link.click();
+
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting trace:', error);
+      alert('Failed to export trace. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-blue-600 text-white p-4">
+        <div className="flex items-center space-x-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.back()}
+            className="text-white hover:bg-blue-700"
+          >
+            ←
+          </Button>
+          <div>
+            <h1 className="text-xl font-bold">Trip #{trip.tripNumber}</h1>
+            <p className="text-blue-100 text-sm">
+              {trip.syncedAt ? `Synced ${new Date(trip.syncedAt).toLocaleString()}` : 'Not synced yet'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4 pb-20">
+        <TripCard trip={trip} />
+
+        {/* Stages */}
+        {multimodal && (
+          <Card className="p-4 space-y-3">
+            <h3 className="font-semibold">Stages</h3>
+            {stages.map((stage, index) => (
+              <div key={stage.id} className="space-y-1 pt-2 border-t border-gray-100 first:border-t-0 first:pt-0">
+                {stage.waitingTime !== undefined && (
+                  <p className="text-xs text-gray-500">⏳ Waited {stage.waitingTime} min to change</p>
+                )}
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-lg">{getModeIcon(stage.mode)}</span>
+                    <span className="text-sm font-medium text-gray-900">
+                      {index + 1}. {getModeLabel(stage.mode)}
+                    </span>
+                  </div>
+                  {stage.distance !== undefined && (
+                    <span className="text-sm text-gray-600">{formatDistance(stage.distance)}</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {new Date(stage.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {stage.endTime && ` → ${new Date(stage.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                  {' • from '}
+                  {stage.origin.address || formatCoordinates(stage.origin)}
+                </p>
+              </div>
+            ))}
+          </Card>
+        )}
+
+        {/* GPS Trace */}
+        {traces.raw.length > 0 && (
+          <Card className="p-4 space-y-3">
+            <div>
+              <h3 className="font-semibold">GPS Trace</h3>
+              <p className="text-sm text-gray-600">
+                {traces.raw.length} points recorded, {traces.cleaned.length} after cleaning
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Button size="sm" variant="outline" onClick={() => handleTraceExport('raw')}>
+                Export raw
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleTraceExport('cleaned')}>
+                Export cleaned
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {/* Sync Conflicts */}
+        {conflicts.length > 0 && (
+          <Card className="p-4 space-y-4 border-l-4 border-l-amber-500">
+            <div>
+              <h3 className="font-semibold">Review Changes</h3>
+              <p className="text-sm text-gray-600">
+                This trip was edited on another device while you were editing it here.
+                Choose which version of each detail to keep.
+              </p>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600">{error}</p>
+            )}
+
+            {conflicts.map((conflict) => (
+              <div key={conflict.field} className="space-y-2 pt-3 border-t border-gray-100">
+                <p className="text-sm font-medium text-gray-900">
+                  {fieldLabels[conflict.field] ?? conflict.field}
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="p-2 rounded bg-gray-50">
+                    <p className="text-xs text-gray-500">This device</p>
+                    <p className="text-sm text-gray-900 capitalize">
+                      {formatConflictValue(conflict.field, conflict.localValue)}
+                    </p>
+                  </div>
+                  <div className="p-2 rounded bg-gray-50">
+                    <p className="text-xs text-gray-500">Other device</p>
+                    <p className="text-sm text-gray-900 capitalize">
+                      {formatConflictValue(conflict.field, conflict.remoteValue)}
+                    </p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleResolve(conflict, 'local')}>
+                    Keep this
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleResolve(conflict, 'remote')}>
+                    Keep other
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </Card>
+        )}
+      </div>
+
+      <NavigationBar />
+    </div>
+  );
+}
@@ -1,27 +1,43 @@
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import NavigationBar from '@/components/NavigationBar';
 import LocationPicker from '@/components/LocationPicker';
 import { useTrips } from '@/hooks/useTrips';
-import { useGeolocation } from '@/hooks/useGeolocation';
-import { getModeIcon, getModeLabel } from '@/components/TripModeSelector';
-import { Location, TripUpdateForm } from '@/lib/types';
+import { useTraceRecorder } from '@/hooks/useTraceRecorder';
+import { useSavedPlaces } from '@/hooks/useSavedPlaces';
+import TripModeSelector, { getModeIcon, getModeLabel } from '@/components/TripModeSelector';
+import TripPurposeSelector from '@/components/TripPurposeSelector';
+import { Location, TransportMode, TripPurpose, TripUpdateForm } from '@/lib/types';
 import { formatCoordinates } from '@/lib/geolocation';
+import { inferMode } from '@/lib/classifier';
+import { storageService } from '@/lib/storage';
+import { getStages, splitTrace } from '@/lib/stages';
+import { inferPurpose } from '@/lib/purpose';
 
 export default function ActiveTripPage() {
   const router = useRouter();
-  const { activeTrip, updateTrip, completeTrip, cancelTrip, loading } = useTrips();
-  const { location: currentLocation, startWatching, stopWatching } = useGeolocation({ watch: false });
+  const { trips, activeTrip, updateTrip, switchMode, completeTrip, cancelTrip, loading, error } = useTrips();
+  const recorder = useTraceRecorder();
+  const currentLocation = recorder.lastFix;
+  const { places } = useSavedPlaces();
 
   const [destination, setDestination] = useState<Location | null>(null);
+  const [arrivalTime, setArrivalTime] = useState<Date | null>(null);
   const [isCompleting, setIsCompleting] = useState(false);
   const [rating, setRating] = useState<number | null>(null);
+  const [mode, setMode] = useState<TransportMode | null>(null);
+  const [purpose, setPurpose] = useState<TripPurpose | null>(null);
   const [tripDuration, setTripDuration] = useState<string>('0m');
+  const [showSwitch, setShowSwitch] = useState(false);
+  const [nextMode, setNextMode] = useState<TransportMode | null>(null);
+  const [waitingTime, setWaitingTime] = useState('');
 
   // Update trip duration every minute
   useEffect(() => {
@@ -47,6 +63,20 @@ export default function ActiveTripPage() {
     return () => clearInterval(timer);
   }, [activeTrip]);
 
+  // Where and when the trip ends suggests what it was for. Worked out once
+  // per destination, not on every GPS fix the recorder stores.
+  const activeTripId = activeTrip?.id;
+  const purposeSuggestion = useMemo(() => (
+    destination && arrivalTime
+      ? inferPurpose({
+          destination,
+          arrivalTime,
+          savedPlaces: places,
+          history: trips.filter(trip => trip.id !== activeTripId)
+        })
+      : null
+  ), [destination, arrivalTime, places, trips, activeTripId]);
+
   // Redirect if no active trip
   useEffect(() => {
     if (!activeTrip && !loading) {
@@ -65,6 +95,12 @@ export default function ActiveTripPage() {
     );
   }
 
+  // The trip is taken to end when its destination is set
+  const handleDestinationChange = (location: Location) => {
+    setDestination(location);
+    setArrivalTime(new Date());
+  };
+
   const handleCompleteTrip = async () => {
     if (!destination) {
       alert('Please set the destination location');
@@ -74,7 +110,14 @@ export default function ActiveTripPage() {
     setIsCompleting(true);
     
     try {
-      const success = await completeTrip(activeTrip.id, destination, rating || undefined);
+      const success = await completeTrip(
+        activeTrip.id,
+        destination,
+        rating || undefined,
+        mode ?? undefined,
+        selectedPurpose,
+        purposeSuggestion
+      );
       
       if (success) {
         router.push('/trips/history');
@@ -108,11 +151,38 @@ export default function ActiveTripPage() {
     }
   };
 
+  const handleSwitchMode = async () => {
+    if (!nextMode) {
+      alert('Please select the mode you are switching to');
+      return;
+    }
+
+    const success = await switchMode(activeTrip.id, nextMode, Number(waitingTime) || 0);
+    if (success) {
+      setShowSwitch(false);
+      setNextMode(null);
+      setWaitingTime('');
+      setMode(null);
+    }
+  };
+
   const handleUpdateNotes = async (notes: string) => {
     const updates: TripUpdateForm = { notes: notes.trim() || undefined };
     await updateTrip(activeTrip.id, updates);
   };
 
+  // The recorder writes to storage directly, so read the latest trace there;
+  // the suggestion is for the stage being travelled
+  const waypoints = storageService.getTripById(activeTrip.id)?.waypoints ?? [];
+  const stages = getStages(activeTrip);
+  const currentStage = stages[stages.length - 1];
+  const modeSuggestion = inferMode(splitTrace(waypoints, [currentStage])[0]);
+
+  // A purpose the user gave at the start stands until they change it;
+  // 'other' gives way to the suggestion
+  const selectedPurpose = purpose ??
+    (activeTrip.purpose === 'other' ? purposeSuggestion?.purpose ?? 'other' : activeTrip.purpose);
+
   const getPurposeIcon = (purpose: string) => {
     const icons: { [key: string]: string } = {
       work: '💼',
@@ -175,6 +245,19 @@ export default function ActiveTripPage() {
                 </div>
               </div>
 
+              {/* Stages so far */}
+              {stages.length > 1 && (
+                <div className="flex items-center space-x-1 text-sm text-gray-600">
+                  <span>Stages:</span>
+                  {stages.map((stage, index) => (
+                    <span key={stage.id}>
+                      {index > 0 && '→ '}
+                      {getModeIcon(stage.mode)}
+                    </span>
+                  ))}
+                </div>
+              )}
+
               {/* Origin */}
               <div className="flex items-start space-x-2">
                 <span className="text-green-600 mt-0.5">🟢</span>
@@ -202,41 +285,99 @@ export default function ActiveTripPage() {
 
       {/* Main Content */}
       <div className="p-4 pb-20 space-y-6">
-        {/* Live Location Tracking */}
+        {/* Route Recording */}
         <Card className="p-4 space-y-4">
           <div className="flex items-center justify-between">
-            <h3 className="font-semibold">Current Location</h3>
+            <h3 className="font-semibold">Route</h3>
             <Button
               variant="outline"
               size="sm"
-              onClick={currentLocation ? stopWatching : startWatching}
+              onClick={recorder.paused ? recorder.resume : recorder.pause}
               className="text-blue-600"
             >
-              {currentLocation ? '⏸️ Stop Tracking' : '▶️ Start Tracking'}
+              {recorder.paused ? '▶️ Resume Recording' : '⏸️ Pause Recording'}
             </Button>
           </div>
           
-          {currentLocation ? (
+          {recorder.recording ? (
             <div className="space-y-2">
               <div className="flex items-center space-x-2">
                 <span className="animate-pulse text-blue-600">📍</span>
-                <span className="text-sm text-blue-800 font-medium">Location tracking active</span>
+                <span className="text-sm text-blue-800 font-medium">
+                  Recording route • {recorder.pointCount} point{recorder.pointCount === 1 ? '' : 's'}
+                </span>
               </div>
-              <p className="text-sm text-gray-600">
-                {formatCoordinates(currentLocation)}
-              </p>
-              <p className="text-xs text-gray-500">
-                Last updated: {currentLocation.timestamp.toLocaleTimeString()}
-              </p>
+              {currentLocation && (
+                <>
+                  <p className="text-sm text-gray-600">
+                    {formatCoordinates(currentLocation)}
+                    {currentLocation.accuracy !== undefined && ` (±${Math.round(currentLocation.accuracy)} m)`}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Last updated: {new Date(currentLocation.timestamp).toLocaleTimeString()}
+                  </p>
+                </>
+              )}
             </div>
           ) : (
             <div className="text-center py-4">
               <div className="text-gray-400 text-2xl mb-2">📍</div>
               <p className="text-sm text-gray-500">
-                Enable location tracking to monitor your journey
+                {recorder.paused
+                  ? `Recording paused • ${recorder.pointCount} point${recorder.pointCount === 1 ? '' : 's'} so far`
+                  : 'Waiting for location to record your route'}
               </p>
             </div>
           )}
+
+          {recorder.error && (
+            <p className="text-sm text-red-600">{recorder.error}</p>
+          )}
+        </Card>
+
+        {/* Mode Switching */}
+        <Card className="p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-semibold">Changing Mode?</h3>
+              <p className="text-sm text-gray-600">
+                Stage {stages.length} by {getModeLabel(currentStage.mode)} since{' '}
+                {new Date(currentStage.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setShowSwitch(!showSwitch)}>
+              {showSwitch ? 'Close' : '🔄 Switch Mode'}
+            </Button>
+          </div>
+
+          {showSwitch && (
+            <div className="space-y-4 pt-3 border-t border-gray-100">
+              <TripModeSelector
+                selectedMode={nextMode}
+                onModeSelect={setNextMode}
+                disabled={loading}
+              />
+              <div className="space-y-2">
+                <Label htmlFor="waitingTime">Minutes spent waiting before boarding</Label>
+                <Input
+                  id="waitingTime"
+                  type="number"
+                  min={0}
+                  placeholder="0"
+                  value={waitingTime}
+                  onChange={(e) => setWaitingTime(e.target.value)}
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button
+                onClick={handleSwitchMode}
+                disabled={!nextMode || loading}
+                className="w-full"
+              >
+                Start New Stage
+              </Button>
+            </div>
+          )}
         </Card>
 
         {/* Destination Setting */}
@@ -244,8 +385,29 @@ export default function ActiveTripPage() {
           <LocationPicker
             label="Set Destination"
             location={destination}
-            onLocationChange={setDestination}
+            onLocationChange={handleDestinationChange}
             placeholder="Where are you going?"
+            near={currentLocation}
+          />
+        </Card>
+
+        {/* Purpose Confirmation */}
+        {destination && (
+          <Card className="p-4 space-y-3">
+            <TripPurposeSelector
+              selectedPurpose={selectedPurpose}
+              onPurposeSelect={setPurpose}
+              suggestion={purposeSuggestion}
+            />
+          </Card>
+        )}
+
+        {/* Mode Confirmation */}
+        <Card className="p-4">
+          <TripModeSelector
+            selectedMode={mode ?? currentStage.mode}
+            onModeSelect={setMode}
+            suggestion={modeSuggestion}
           />
         </Card>
 
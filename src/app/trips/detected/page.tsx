@@ -0,0 +1,194 @@
+"use client";
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import NavigationBar from '@/components/NavigationBar';
+import TripModeSelector from '@/components/TripModeSelector';
+import TripPurposeSelector from '@/components/TripPurposeSelector';
+import { useTrips } from '@/hooks/useTrips';
+import { useTripDetection } from '@/hooks/useTripDetection';
+import { useSavedPlaces } from '@/hooks/useSavedPlaces';
+import { DraftTrip, PurposeInference, TransportMode, TripPurpose } from '@/lib/types';
+import { formatCoordinates } from '@/lib/geolocation';
+import { formatDistance, traceDistance } from '@/lib/trace';
+import { inferMode } from '@/lib/classifier';
+import { inferPurpose } from '@/lib/purpose';
+
+const formatTime = (date: Date | string) =>
+  new Date(date).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+export default function DetectedTripsPage() {
+  const router = useRouter();
+  const { trips, confirmDraftTrip, loading, error } = useTrips();
+  const { drafts, dismissDraft } = useTripDetection();
+  const { places } = useSavedPlaces();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<TransportMode | null>(null);
+  const [purpose, setPurpose] = useState<TripPurpose>('other');
+  const [purposeSuggestion, setPurposeSuggestion] = useState<PurposeInference | null>(null);
+  const [purposeDetail, setPurposeDetail] = useState('');
+
+  const selectDraft = (draft: DraftTrip) => {
+    setSelectedId(draft.id === selectedId ? null : draft.id);
+    // Start from what the route and destination suggest; the user has the final say
+    setMode(inferMode(draft.waypoints)?.mode ?? null);
+    const suggestion = inferPurpose({
+      destination: draft.destination,
+      arrivalTime: new Date(draft.endTime),
+      savedPlaces: places,
+      history: trips
+    });
+    setPurposeSuggestion(suggestion);
+    setPurpose(suggestion?.purpose ?? 'other');
+    setPurposeDetail('');
+  };
+
+  const handleConfirm = async (draft: DraftTrip) => {
+    if (!mode) {
+      alert('Please select a mode of transport');
+      return;
+    }
+
+    const tripId = await confirmDraftTrip(draft, {
+      mode,
+      purpose,
+      purposeDetail: purposeDetail.trim() || undefined,
+      accompanyingTravelers: []
+    }, purposeSuggestion);
+
+    if (tripId) {
+      setSelectedId(null);
+      if (drafts.length <= 1) router.push('/trips/history');
+    }
+  };
+
+  const handleDismiss = (draft: DraftTrip) => {
+    if (!confirm('This was not a trip? It will be discarded.')) return;
+    dismissDraft(draft.id);
+    if (selectedId === draft.id) setSelectedId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-blue-600 text-white p-4">
+        <div className="flex items-center space-x-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.back()}
+            className="text-white hover:bg-blue-700"
+          >
+            ←
+          </Button>
+          <div>
+            <h1 className="text-xl font-bold">Detected Trips</h1>
+            <p className="text-blue-100 text-sm">Confirm trips you made without recording them</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 pb-20 space-y-4">
+        {error && (
+          <Card className="p-3 bg-red-50 border-red-200">
+            <p className="text-red-800 text-sm">{error}</p>
+          </Card>
+        )}
+
+        {drafts.length === 0 ? (
+          <Card className="p-8 text-center space-y-4">
+            <p className="text-gray-600">No trips waiting for review</p>
+            <Button variant="outline" onClick={() => router.push('/trips/history')}>
+              View Trip History
+            </Button>
+          </Card>
+        ) : (
+          drafts.map((draft) => {
+            const isSelected = draft.id === selectedId;
+            const distance = traceDistance([draft.origin, ...draft.waypoints, draft.destination]);
+
+            return (
+              <Card key={draft.id} className="p-4 space-y-3">
+                <button className="w-full text-left space-y-2" onClick={() => selectDraft(draft)}>
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span>🕐 {formatTime(draft.startTime)} → {formatTime(draft.endTime)}</span>
+                    <span className="font-medium">{formatDistance(distance)}</span>
+                  </div>
+                  <div className="flex items-start space-x-2">
+                    <span className="text-green-600">🟢</span>
+                    <p className="text-sm text-gray-900 truncate">
+                      {draft.origin.address || formatCoordinates(draft.origin)}
+                    </p>
+                  </div>
+                  <div className="flex items-start space-x-2">
+                    <span className="text-red-600">🔴</span>
+                    <p className="text-sm text-gray-900 truncate">
+                      {draft.destination.address || formatCoordinates(draft.destination)}
+                    </p>
+                  </div>
+                </button>
+
+                {isSelected && (
+                  <div className="space-y-4 pt-3 border-t border-gray-100">
+                    <TripModeSelector
+                      selectedMode={mode}
+                      onModeSelect={setMode}
+                      suggestion={inferMode(draft.waypoints)}
+                      disabled={loading}
+                    />
+
+                    <div className="space-y-4">
+                      <TripPurposeSelector
+                        selectedPurpose={purpose}
+                        onPurposeSelect={setPurpose}
+                        suggestion={purposeSuggestion}
+                        disabled={loading}
+                      />
+                      {purpose === 'other' && (
+                        <div className="space-y-2">
+                          <Label>Specify Purpose</Label>
+                          <Input
+                            placeholder="Enter specific purpose"
+                            value={purposeDetail}
+                            onChange={(e) => setPurposeDetail(e.target.value)}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex space-x-2 pt-2 border-t border-gray-100">
+                  {isSelected ? (
+                    <Button size="sm" className="flex-1" onClick={() => handleConfirm(draft)} disabled={loading}>
+                      Save Trip
+                    </Button>
+                  ) : (
+                    <Button size="sm" className="flex-1" onClick={() => selectDraft(draft)}>
+                      Confirm
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => handleDismiss(draft)} disabled={loading}>
+                    Not a Trip
+                  </Button>
+                </div>
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      <NavigationBar />
+    </div>
+  );
+}
@@ -1,19 +1,23 @@
 "use client";
 
 import { useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import NavigationBar from '@/components/NavigationBar';
 import TripCard from '@/components/TripCard';
-import { useTripHistory } from '@/hooks/useTrips';
-import { TripStatus, TransportMode, TripPurpose } from '@/lib/types';
+import { useTrips, useTripHistory } from '@/hooks/useTrips';
+import { Trip, TripChain, TripStatus, TransportMode, TripPurpose } from '@/lib/types';
+import { isChained } from '@/lib/chains';
+import { formatDistance } from '@/lib/trace';
 
 const statusOptions: { value: TripStatus; label: string; icon: string }[] = [
   { value: 'completed', label: 'Completed', icon: '✅' },
   { value: 'cancelled', label: 'Cancelled', icon: '❌' },
-  { value: 'active', label: 'Active', icon: '🟢' }
+  { value: 'active', label: 'Active', icon: '🟢' },
+  { value: 'planned', label: 'Planned', icon: '🗓️' }
 ];
 
 const modeOptions: { value: TransportMode; label: string }[] = [
@@ -34,7 +38,17 @@ const purposeOptions: { value: TripPurpose; label: string }[] = [
   { value: 'leisure', label: 'Leisure' }
 ];
 
+// A chain of trips, or a trip that stands alone, in the grouped view
+type TripGroup = { chain: TripChain; trips: Trip[] } | { chain: null; trips: [Trip] };
+
+const formatMinutes = (minutes: number) =>
+  minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+const formatClock = (date: Date | string) =>
+  new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
 export default function TripHistoryPage() {
+  const router = useRouter();
   const {
     trips,
     allTrips,
@@ -49,8 +63,39 @@ export default function TripHistoryPage() {
     filter
   } = useTripHistory(10);
 
+  const { trips: everyTrip, startTrip, linkTrips, unlinkTrip, getTripChains, error: tripError } = useTrips();
   const [searchTerm, setSearchTerm] = useState('');
   const [showFilters, setShowFilters] = useState(false);
+  const [grouped, setGrouped] = useState(false);
+
+  // Newest first like the list; a chain shows wherever one of its trips matches the filters
+  const chains = getTripChains();
+  const groups: TripGroup[] = [];
+  const shownChains = new Set<string>();
+  allTrips.forEach(trip => {
+    const chain = isChained(trip) ? chains.find(c => c.id === trip.chainId) : undefined;
+    if (!chain) {
+      groups.push({ chain: null, trips: [trip] });
+    } else if (!shownChains.has(chain.id)) {
+      shownChains.add(chain.id);
+      // In the order they were made, unlike the list around them
+      const chainTrips = chain.tripIds
+        .map(id => everyTrip.find(t => t.id === id))
+        .filter((t): t is Trip => t !== undefined);
+      groups.push({ chain, trips: chainTrips });
+    }
+  });
+
+  // The completed trip just before this one, to link it to
+  const getPreviousTrip = (trip: Trip) =>
+    everyTrip
+      .filter(t => t.status === 'completed' && new Date(t.startTime) < new Date(trip.startTime))
+      .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())[0];
+
+  const handleLinkPrevious = async (trip: Trip) => {
+    const previous = getPreviousTrip(trip);
+    if (previous) await linkTrips([previous.id, trip.id]);
+  };
 
   const handleFilterChange = (key: string, value: string) => {
     if (value === 'all') {
@@ -68,6 +113,12 @@ export default function TripHistoryPage() {
     // For now, this is just visual feedback
   };
 
+  const handleStartTrip = async (trip: Trip) => {
+    if (await startTrip(trip.id)) {
+      router.push('/trips/active');
+    }
+  };
+
   const clearFilters = () => {
     setFilter({});
     setSearchTerm('');
@@ -238,8 +289,26 @@ export default function TripHistoryPage() {
         </Card>
       </div>
 
+      {/* View Toggle */}
+      <div className="px-4 pb-4">
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant={grouped ? 'outline' : 'default'} size="sm" onClick={() => setGrouped(false)}>
+            All Trips
+          </Button>
+          <Button variant={grouped ? 'default' : 'outline'} size="sm" onClick={() => setGrouped(true)}>
+            🔗 Tours
+          </Button>
+        </div>
+      </div>
+
       {/* Trip List */}
       <div className="px-4 pb-20 space-y-4">
+        {tripError && (
+          <Card className="p-3 border-red-200 bg-red-50">
+            <p className="text-sm text-red-800">{tripError}</p>
+          </Card>
+        )}
+
         {trips.length === 0 ? (
           <Card className="p-8 text-center">
             <div className="text-4xl mb-4">🚗</div>
@@ -262,24 +331,77 @@ export default function TripHistoryPage() {
               </Button>
             )}
           </Card>
+        ) : grouped ? (
+          groups.map((group) => group.chain ? (
+            <Card key={group.chain.id} className="p-3 space-y-3 border-l-4 border-l-indigo-500">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="font-semibold capitalize">
+                    🔗 {group.chain.primaryPurpose.replace('_', ' ')} tour
+                  </h3>
+                  <p className="text-xs text-gray-500">
+                    {new Date(group.chain.startTime).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                    {' • '}{formatClock(group.chain.startTime)}
+                    {group.chain.endTime && ` → ${formatClock(group.chain.endTime)}`}
+                  </p>
+                </div>
+                <div className="text-right text-sm">
+                  <p className="font-medium">{group.trips.length} trips</p>
+                  <p className="text-xs text-gray-500">
+                    {formatMinutes(group.chain.totalDuration)} travelling
+                    {group.chain.totalDistance !== undefined && ` • ${formatDistance(group.chain.totalDistance)}`}
+                  </p>
+                </div>
+              </div>
+              {group.trips.map((trip) => (
+                <div key={trip.id} className="space-y-1">
+                  <TripCard trip={trip} onViewDetails={() => router.push(`/trips/${trip.id}`)} showActions />
+                  <div className="text-right">
+                    <Button variant="ghost" size="sm" className="text-gray-500" onClick={() => unlinkTrip(trip.id)}>
+                      Unlink from tour
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </Card>
+          ) : (
+            <div key={group.trips[0].id} className="space-y-1">
+              <TripCard
+                trip={group.trips[0]}
+                showActions
+                onStartTrip={handleStartTrip}
+                onViewDetails={() => router.push(`/trips/${group.trips[0].id}`)}
+              />
+              {group.trips[0].status === 'completed' && getPreviousTrip(group.trips[0]) && (
+                <div className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-indigo-600"
+                    onClick={() => handleLinkPrevious(group.trips[0])}
+                  >
+                    🔗 Link to previous trip
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
         ) : (
           <>
             {trips.map((trip) => (
               <TripCard
                 key={trip.id}
                 trip={trip}
-                showActions={false}
-                onViewDetails={() => {
-                  // In a full app, this would navigate to trip details
-                  console.log('View trip details:', trip.id);
-                }}
+                showActions
+                onStartTrip={handleStartTrip}
+                onViewDetails={() => router.push(`/trips/${trip.id}`)}
               />
             ))}
           </>
         )}
 
-        {/* Pagination */}
-        {totalPages > 1 && (
+        {/* Pagination; the grouped view shows every match at once */}
+        {!grouped && totalPages > 1 && (
           <Card className="p-4">
             <div className="flex items-center justify-between">
               <Button
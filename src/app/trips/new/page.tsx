@@ -7,29 +7,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import NavigationBar from '@/components/NavigationBar';
 import TripModeSelector from '@/components/TripModeSelector';
+import TripPurposeSelector from '@/components/TripPurposeSelector';
 import LocationPicker from '@/components/LocationPicker';
 import { useTrips } from '@/hooks/useTrips';
 import { useTravelers } from '@/hooks/useTravelers';
 import { useGeolocation } from '@/hooks/useGeolocation';
 import { TransportMode, TripPurpose, Location } from '@/lib/types';
+import { newTripRequestSchema, validateForm } from '@/lib/validation';
 import { Checkbox } from '@/components/ui/checkbox';
 
-const tripPurposes: { value: TripPurpose; label: string; icon: string }[] = [
-  { value: 'work', label: 'Work', icon: '💼' },
-  { value: 'education', label: 'Education', icon: '🎓' },
-  { value: 'shopping', label: 'Shopping', icon: '🛒' },
-  { value: 'medical', label: 'Medical', icon: '🏥' },
-  { value: 'social', label: 'Social Visit', icon: '👥' },
-  { value: 'leisure', label: 'Leisure', icon: '🎉' },
-  { value: 'religious', label: 'Religious', icon: '🕯️' },
-  { value: 'business', label: 'Business', icon: '🤝' },
-  { value: 'return_home', label: 'Return Home', icon: '🏠' },
-  { value: 'other', label: 'Other', icon: '📍' }
-];
-
 export default function NewTripPage() {
   const router = useRouter();
   const { createTrip, loading: tripLoading, error: tripError } = useTrips();
@@ -44,6 +32,7 @@ export default function NewTripPage() {
   const [selectedTravelers, setSelectedTravelers] = useState<string[]>([]);
   const [notes, setNotes] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   const consentedTravelers = getConsentedTravelers();
 
@@ -55,7 +44,7 @@ export default function NewTripPage() {
     );
   };
 
-  const handleSubmit = async () => {
+  const handleSubmit = async (status: 'planned' | 'active' = 'active') => {
     if (!origin) {
       alert('Please set the origin location');
       return;
@@ -66,22 +55,25 @@ export default function NewTripPage() {
       return;
     }
 
+    const validation = validateForm(newTripRequestSchema, {
+      status,
+      origin,
+      mode,
+      purpose,
+      purposeDetail: purposeDetail.trim() || undefined,
+      accompanyingTravelers: selectedTravelers,
+      notes: notes.trim() || undefined
+    });
+    setFieldErrors(validation.errors);
+    if (!validation.success) return;
+
     setIsSubmitting(true);
 
     try {
-      const tripData = {
-        origin,
-        mode,
-        purpose,
-        purposeDetail: purposeDetail.trim() || undefined,
-        accompanyingTravelers: selectedTravelers,
-        notes: notes.trim() || undefined
-      };
-
-      const tripId = await createTrip(tripData);
+      const tripId = await createTrip(validation.data);
 
       if (tripId) {
-        router.push('/trips/active');
+        router.push(status === 'planned' ? '/trips/history' : '/trips/active');
       } else {
         alert(tripError || 'Failed to create trip');
       }
@@ -124,6 +116,9 @@ export default function NewTripPage() {
             placeholder="Where are you starting from?"
             required
           />
+          {fieldErrors.origin && (
+            <p className="text-sm text-red-600 mt-2">{fieldErrors.origin}</p>
+          )}
         </Card>
 
         {/* Mode of Transport */}
@@ -136,22 +131,10 @@ export default function NewTripPage() {
 
         {/* Trip Purpose */}
         <Card className="p-4 space-y-4">
-          <Label className="text-lg font-semibold">Trip Purpose</Label>
-          <Select value={purpose} onValueChange={(value: TripPurpose) => setPurpose(value)}>
-            <SelectTrigger>
-              <SelectValue placeholder="Select trip purpose" />
-            </SelectTrigger>
-            <SelectContent>
-              {tripPurposes.map((purposeOption) => (
-                <SelectItem key={purposeOption.value} value={purposeOption.value}>
-                  <div className="flex items-center space-x-2">
-                    <span>{purposeOption.icon}</span>
-                    <span>{purposeOption.label}</span>
-                  </div>
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <TripPurposeSelector
+            selectedPurpose={purpose}
+            onPurposeSelect={setPurpose}
+          />
 
           {/* Purpose Detail */}
           {purpose === 'other' && (
@@ -162,6 +145,9 @@ export default function NewTripPage() {
                 value={purposeDetail}
                 onChange={(e) => setPurposeDetail(e.target.value)}
               />
+              {fieldErrors.purposeDetail && (
+                <p className="text-sm text-red-600">{fieldErrors.purposeDetail}</p>
+              )}
             </div>
           )}
         </Card>
@@ -217,6 +203,9 @@ export default function NewTripPage() {
             onChange={(e) => setNotes(e.target.value)}
             rows={3}
           />
+          {fieldErrors.notes && (
+            <p className="text-sm text-red-600">{fieldErrors.notes}</p>
+          )}
         </Card>
 
         {/* Trip Summary */}
@@ -255,7 +244,7 @@ export default function NewTripPage() {
         {/* Submit Button */}
         <div className="space-y-3">
           <Button
-            onClick={handleSubmit}
+            onClick={() => handleSubmit()}
             disabled={!origin || !mode || isSubmitting}
             className="w-full py-3 text-lg"
           >
@@ -269,6 +258,15 @@ export default function NewTripPage() {
             )}
           </Button>
 
+          <Button
+            variant="outline"
+            onClick={() => handleSubmit('planned')}
+            disabled={!origin || !mode || isSubmitting}
+            className="w-full"
+          >
+            Plan for Later
+          </Button>
+
           {(!origin || !mode) && (
             <p className="text-sm text-gray-500 text-center">
               Please set origin location and select transport mode to continue
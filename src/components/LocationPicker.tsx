@@ -1,12 +1,16 @@
 "use client";
 
 import { useState, useEffect } from 'react';
-import { Location } from '@/lib/types';
-import { useLocationWithAddress } from '@/hooks/useGeolocation';
+import { Location, PlaceSuggestion, SavedPlace } from '@/lib/types';
+import { useLocationWithAddress, usePlaceSearch } from '@/hooks/useGeolocation';
+import { useSavedPlaces } from '@/hooks/useSavedPlaces';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { formatCoordinates } from '@/lib/geolocation';
+import { toGeocodedLocation } from '@/lib/geocoding';
+import { getPlaceIcon, snapToSavedPlace, toPlaceLocation } from '@/lib/places';
+import { formatDistance } from '@/lib/trace';
 
 interface LocationPickerProps {
   label: string;
@@ -15,15 +19,21 @@ interface LocationPickerProps {
   disabled?: boolean;
   placeholder?: string;
   required?: boolean;
+  near?: Location | null; // last known fix, to rank nearby places first
+  withSavedPlaces?: boolean; // offer saved places and snap fixes to them
 }
 
+const NO_PLACES: SavedPlace[] = [];
+
 export default function LocationPicker({
   label,
   location,
   onLocationChange,
   disabled = false,
   placeholder,
-  required = false
+  required = false,
+  near,
+  withSavedPlaces = true
 }: LocationPickerProps) {
   const [manualAddress, setManualAddress] = useState('');
   const [isManualMode, setIsManualMode] = useState(false);
@@ -34,13 +44,20 @@ export default function LocationPicker({
     loading: gpsLoading,
     getLocationWithAddress 
   } = useLocationWithAddress();
+  const { places: allSavedPlaces } = useSavedPlaces();
+  const savedPlaces = withSavedPlaces ? allSavedPlaces : NO_PLACES;
+  const atPlace = savedPlaces.find(p => p.id === location?.savedPlaceId);
+  const { results: suggestions, loading: searching } = usePlaceSearch(
+    isManualMode ? manualAddress : '',
+    near ?? detectedLocation ?? location
+  );
 
-  // Update location when GPS detects it
+  // Update location when GPS detects it, at the saved place it falls within
   useEffect(() => {
     if (detectedLocation && !isManualMode && !location) {
-      onLocationChange(detectedLocation);
+      onLocationChange(snapToSavedPlace(detectedLocation, savedPlaces));
     }
-  }, [detectedLocation, isManualMode, location, onLocationChange]);
+  }, [detectedLocation, isManualMode, location, onLocationChange, savedPlaces]);
 
   // Update manual address when location prop changes
   useEffect(() => {
@@ -54,19 +71,18 @@ export default function LocationPicker({
     await getLocationWithAddress();
   };
 
-  const handleManualLocationSubmit = () => {
-    if (!manualAddress.trim()) return;
-
-    // Create a mock location for manual address
-    // In production, you'd geocode the address to get coordinates
-    const mockLocation: Location = {
-      latitude: 8.5241 + (Math.random() - 0.5) * 0.1, // Mock coordinates around Kerala
-      longitude: 76.9366 + (Math.random() - 0.5) * 0.1,
-      address: manualAddress.trim(),
-      timestamp: new Date()
-    };
+  // Typed addresses only become locations through a place with real coordinates
+  const handlePlaceSelect = (suggestion: PlaceSuggestion) => {
+    const place = toGeocodedLocation(suggestion);
+    onLocationChange(place);
+    setManualAddress(place.address ?? suggestion.name);
+    setIsManualMode(false);
+  };
 
-    onLocationChange(mockLocation);
+  const handleSavedPlaceSelect = (place: SavedPlace) => {
+    const picked = { ...toPlaceLocation(place), source: 'manual' as const };
+    onLocationChange(picked);
+    setManualAddress(picked.address ?? place.name);
     setIsManualMode(false);
   };
 
@@ -94,6 +110,22 @@ export default function LocationPicker({
         </Button>
       </div>
 
+      {savedPlaces.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {savedPlaces.map((place) => (
+            <Button
+              key={place.id}
+              variant={location?.savedPlaceId === place.id ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => handleSavedPlaceSelect(place)}
+              disabled={disabled}
+            >
+              {getPlaceIcon(place.kind)} {place.name}
+            </Button>
+          ))}
+        </div>
+      )}
+
       {!isManualMode ? (
         // GPS Mode
         <div className="space-y-3">
@@ -143,51 +175,75 @@ export default function LocationPicker({
                 <p className="text-green-600 text-xs">
                   Time: {location.timestamp.toLocaleTimeString()}
                 </p>
+
+                {location.accuracy !== undefined && (
+                  <p className="text-green-600 text-xs">
+                    Accuracy: ±{location.accuracy >= 1000 ? formatDistance(location.accuracy / 1000) : `${Math.round(location.accuracy)} m`}
+                  </p>
+                )}
+
+                {atPlace && (
+                  <p className="text-green-600 text-xs">
+                    {getPlaceIcon(atPlace.kind)} At your saved place: {atPlace.name}
+                  </p>
+                )}
+
+                {location.source === 'geocoded' && (
+                  <p className="text-green-600 text-xs">
+                    Entered by hand: place chosen from search, not measured by GPS
+                  </p>
+                )}
               </div>
             </Card>
           )}
         </div>
       ) : (
-        // Manual Mode
+        // Manual Mode: search the place index as the user types
         <div className="space-y-3">
-          <Input
-            placeholder={placeholder || "Enter address or location name"}
-            value={manualAddress}
-            onChange={(e) => setManualAddress(e.target.value)}
-            disabled={disabled}
-            className="w-full"
-            onKeyPress={(e) => {
-              if (e.key === 'Enter') {
-                handleManualLocationSubmit();
-              }
-            }}
-          />
-          
-          <div className="flex space-x-2">
-            <Button
-              onClick={handleManualLocationSubmit}
-              disabled={disabled || !manualAddress.trim()}
-              className="flex-1"
-            >
-              Set Location
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => setIsManualMode(false)}
+          <Command shouldFilter={false} className="border rounded-md">
+            <CommandInput
+              placeholder={placeholder || "Search for a town, area or landmark"}
+              value={manualAddress}
+              onValueChange={setManualAddress}
               disabled={disabled}
-            >
-              Cancel
-            </Button>
-          </div>
+            />
+            {manualAddress.trim() && (
+              <CommandList>
+                <CommandEmpty>
+                  {searching ? 'Searching...' : 'No matching place. Try a nearby town or landmark.'}
+                </CommandEmpty>
+                {suggestions.length > 0 && (
+                  <CommandGroup heading={near ?? detectedLocation ?? location ? 'Nearest matches' : 'Matches'}>
+                    {suggestions.map((suggestion) => (
+                      <CommandItem
+                        key={suggestion.id}
+                        value={suggestion.id}
+                        onSelect={() => handlePlaceSelect(suggestion)}
+                        disabled={disabled}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium truncate">{suggestion.name}</p>
+                          <p className="text-xs text-gray-500 truncate">{suggestion.description}</p>
+                        </div>
+                        {suggestion.distance !== undefined && (
+                          <span className="text-xs text-gray-500">{formatDistance(suggestion.distance)}</span>
+                        )}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+              </CommandList>
+            )}
+          </Command>
 
-          {location && location.address === manualAddress && (
-            <Card className="p-3 bg-blue-50 border-blue-200">
-              <div className="flex items-center space-x-2">
-                <span className="text-blue-600">📍</span>
-                <span className="text-blue-800 text-sm">Manual location set</span>
-              </div>
-            </Card>
-          )}
+          <Button
+            variant="outline"
+            onClick={() => setIsManualMode(false)}
+            disabled={disabled}
+            className="w-full"
+          >
+            Cancel
+          </Button>
         </div>
       )}
 
@@ -6,10 +6,14 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { getModeIcon, getModeLabel } from './TripModeSelector';
 import { formatCoordinates } from '@/lib/geolocation';
+import { canTransition, isFinalStatus } from '@/lib/lifecycle';
+import { formatDistance } from '@/lib/trace';
+import { getStages, isMultimodal } from '@/lib/stages';
 
 interface TripCardProps {
   trip: Trip;
   onViewDetails?: (trip: Trip) => void;
+  onStartTrip?: (trip: Trip) => void;
   onCompleteTrip?: (trip: Trip) => void;
   onCancelTrip?: (trip: Trip) => void;
   showActions?: boolean;
@@ -18,12 +22,15 @@ interface TripCardProps {
 export default function TripCard({ 
   trip, 
   onViewDetails, 
+  onStartTrip,
   onCompleteTrip, 
   onCancelTrip,
   showActions = false 
 }: TripCardProps) {
   const getStatusColor = (status: Trip['status']) => {
     switch (status) {
+      case 'planned':
+        return 'bg-yellow-100 text-yellow-800';
       case 'active':
         return 'bg-green-100 text-green-800';
       case 'completed':
@@ -37,6 +44,8 @@ export default function TripCard({
 
   const getStatusIcon = (status: Trip['status']) => {
     switch (status) {
+      case 'planned':
+        return '🗓️';
       case 'active':
         return '🟢';
       case 'completed':
@@ -108,6 +117,11 @@ export default function TripCard({
             <Badge className={getStatusColor(trip.status)}>
               {getStatusIcon(trip.status)} {trip.status.toUpperCase()}
             </Badge>
+            {trip.conflicts && trip.conflicts.length > 0 && (
+              <Badge className="bg-amber-100 text-amber-800">
+                ⚠️ Needs review
+              </Badge>
+            )}
           </div>
           <span className="text-xs text-gray-500">
             {formatDate(trip.startTime)}
@@ -118,12 +132,26 @@ export default function TripCard({
         <div className="space-y-2">
           {/* Mode and Purpose */}
           <div className="flex items-center justify-between">
-            <div className="flex items-center space-x-2">
-              <span className="text-lg">{getModeIcon(trip.mode)}</span>
-              <span className="text-sm font-medium text-gray-900">
-                {getModeLabel(trip.mode)}
-              </span>
-            </div>
+            {isMultimodal(trip) ? (
+              <div className="flex items-center space-x-1" title="Stages in order">
+                {getStages(trip).map((stage, index) => (
+                  <span key={stage.id} className="flex items-center space-x-1">
+                    {index > 0 && <span className="text-xs text-gray-400">→</span>}
+                    <span className="text-lg">{getModeIcon(stage.mode)}</span>
+                  </span>
+                ))}
+                <span className="text-sm font-medium text-gray-900 pl-1">
+                  {getStages(trip).length} stages
+                </span>
+              </div>
+            ) : (
+              <div className="flex items-center space-x-2">
+                <span className="text-lg">{getModeIcon(trip.mode)}</span>
+                <span className="text-sm font-medium text-gray-900">
+                  {getModeLabel(trip.mode)}
+                </span>
+              </div>
+            )}
             <div className="flex items-center space-x-1">
               <span className="text-sm">{getPurposeIcon(trip.purpose)}</span>
               <span className="text-sm text-gray-600 capitalize">
@@ -170,6 +198,16 @@ export default function TripCard({
             )}
           </div>
 
+          {/* Distance and Speed */}
+          {trip.distance !== undefined && (
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>📏 {formatDistance(trip.distance)}</span>
+              {trip.averageSpeed !== undefined && (
+                <span className="font-medium">Avg speed: {trip.averageSpeed} km/h</span>
+              )}
+            </div>
+          )}
+
           {/* Travelers */}
           {trip.totalTravelers > 1 && (
             <div className="flex items-center space-x-2">
@@ -203,27 +241,34 @@ export default function TripCard({
         {/* Actions */}
         {showActions && (
           <div className="flex space-x-2 pt-2 border-t border-gray-100">
-            {trip.status === 'active' && (
-              <>
-                {onCompleteTrip && (
-                  <Button 
-                    size="sm" 
-                    onClick={() => onCompleteTrip(trip)}
-                    className="flex-1"
-                  >
-                    Complete Trip
-                  </Button>
-                )}
-                {onCancelTrip && (
-                  <Button 
-                    size="sm" 
-                    variant="outline"
-                    onClick={() => onCancelTrip(trip)}
-                  >
-                    Cancel
-                  </Button>
-                )}
-              </>
+            {onStartTrip && canTransition(trip.status, 'active') && (
+              <Button 
+                size="sm" 
+                onClick={() => onStartTrip(trip)}
+                className="flex-1"
+              >
+                Start Trip
+              </Button>
+            )}
+
+            {onCompleteTrip && canTransition(trip.status, 'completed') && (
+              <Button 
+                size="sm" 
+                onClick={() => onCompleteTrip(trip)}
+                className="flex-1"
+              >
+                Complete Trip
+              </Button>
+            )}
+
+            {onCancelTrip && canTransition(trip.status, 'cancelled') && (
+              <Button 
+                size="sm" 
+                variant="outline"
+                onClick={() => onCancelTrip(trip)}
+              >
+                Cancel
+              </Button>
             )}
             
             {onViewDetails && (
@@ -231,7 +276,7 @@ export default function TripCard({
                 size="sm" 
                 variant="outline"
                 onClick={() => onViewDetails(trip)}
-                className={trip.status === 'active' ? '' : 'flex-1'}
+                className={isFinalStatus(trip.status) ? 'flex-1' : ''}
               >
                 View Details
               </Button>
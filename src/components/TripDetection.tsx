@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { useTripDetection } from '@/hooks/useTripDetection';
+import { tripDetector } from '@/lib/detector';
+import { storageService } from '@/lib/storage';
+
+// Runs trip detection while the app is open, as the user's settings allow,
+// and points them to trips waiting for review
+export default function TripDetection() {
+  const pathname = usePathname();
+  const { drafts } = useTripDetection();
+
+  useEffect(() => {
+    const update = () => {
+      const settings = storageService.getSettings();
+      const consent = storageService.getConsent();
+      // Only once the user has agreed to location tracking, not before they are asked
+      const allowed = settings.autoDetectLocation && consent?.locationTracking === true;
+      const visible = document.visibilityState === 'visible';
+
+      if (allowed && (visible || settings.backgroundTracking)) {
+        tripDetector.start();
+      } else {
+        tripDetector.stop();
+      }
+    };
+
+    update();
+    const unsubscribe = storageService.subscribe(update);
+    document.addEventListener('visibilitychange', update);
+    return () => {
+      unsubscribe();
+      document.removeEventListener('visibilitychange', update);
+      tripDetector.stop();
+    };
+  }, []);
+
+  if (drafts.length === 0 || pathname === '/trips/detected') return null;
+
+  return (
+    <div className="fixed bottom-16 left-1/2 transform -translate-x-1/2 w-full max-w-md px-4 z-40">
+      <Link
+        href="/trips/detected"
+        className="flex items-center justify-between p-3 rounded-lg bg-amber-50 border border-amber-200 shadow-md"
+      >
+        <div className="flex items-center space-x-2">
+          <span>🧭</span>
+          <span className="text-sm text-amber-900">
+            We noticed {drafts.length} trip{drafts.length > 1 ? 's' : ''} you didn&apos;t record
+          </span>
+        </div>
+        <span className="text-sm font-medium text-amber-700">Review</span>
+      </Link>
+    </div>
+  );
+}
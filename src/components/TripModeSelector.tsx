@@ -1,10 +1,11 @@
 "use client";
 
-import { TransportMode } from '@/lib/types';
+import { ModeInference, TransportMode } from '@/lib/types';
 
 interface TripModeSelectorProps {
   selectedMode: TransportMode | null;
   onModeSelect: (mode: TransportMode) => void;
+  suggestion?: ModeInference | null; // inferred from the recorded route
   disabled?: boolean;
 }
 
@@ -29,13 +30,20 @@ const transportModes: ModeOption[] = [
   { value: 'other', label: 'Other', icon: '🚚', color: 'bg-gray-100 text-gray-800' }
 ];
 
-export default function TripModeSelector({ selectedMode, onModeSelect, disabled = false }: TripModeSelectorProps) {
+export default function TripModeSelector({ selectedMode, onModeSelect, suggestion, disabled = false }: TripModeSelectorProps) {
   return (
     <div className="space-y-3">
       <h3 className="text-lg font-semibold text-gray-900">Mode of Transport</h3>
+      {suggestion && (
+        <p className="text-sm text-gray-600">
+          Your route looks like {getModeLabel(suggestion.mode).toLowerCase()} travel
+          ({Math.round(suggestion.confidence * 100)}% sure). Change it if that&apos;s wrong.
+        </p>
+      )}
       <div className="grid grid-cols-2 gap-3">
         {transportModes.map((mode) => {
           const isSelected = selectedMode === mode.value;
+          const isSuggested = suggestion?.mode === mode.value;
           
           return (
             <button
@@ -55,6 +63,9 @@ export default function TripModeSelector({ selectedMode, onModeSelect, disabled
               <span className="text-sm font-medium text-gray-900 text-center">
                 {mode.label}
               </span>
+              {isSuggested && (
+                <span className="mt-1 text-xs text-blue-700">Suggested</span>
+              )}
               {isSelected && (
                 <div className="mt-2 w-full flex justify-center">
                   <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
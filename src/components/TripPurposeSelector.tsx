@@ -0,0 +1,61 @@
+"use client";
+
+import { PurposeInference, TripPurpose } from '@/lib/types';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface TripPurposeSelectorProps {
+  selectedPurpose: TripPurpose;
+  onPurposeSelect: (purpose: TripPurpose) => void;
+  suggestion?: PurposeInference | null; // inferred from where and when the trip ended
+  disabled?: boolean;
+}
+
+export const tripPurposes: { value: TripPurpose; label: string; icon: string }[] = [
+  { value: 'work', label: 'Work', icon: '💼' },
+  { value: 'education', label: 'Education', icon: '🎓' },
+  { value: 'shopping', label: 'Shopping', icon: '🛒' },
+  { value: 'medical', label: 'Medical', icon: '🏥' },
+  { value: 'social', label: 'Social Visit', icon: '👥' },
+  { value: 'leisure', label: 'Leisure', icon: '🎉' },
+  { value: 'religious', label: 'Religious', icon: '🕯️' },
+  { value: 'business', label: 'Business', icon: '🤝' },
+  { value: 'return_home', label: 'Return Home', icon: '🏠' },
+  { value: 'other', label: 'Other', icon: '📍' }
+];
+
+export default function TripPurposeSelector({ selectedPurpose, onPurposeSelect, suggestion, disabled = false }: TripPurposeSelectorProps) {
+  return (
+    <>
+      <Label className="text-lg font-semibold">Trip Purpose</Label>
+      {suggestion && (
+        <p className="text-sm text-gray-600">
+          This looks like a {getPurposeLabel(suggestion.purpose).toLowerCase()} trip
+          ({Math.round(suggestion.confidence * 100)}% sure): {suggestion.reasons.join('; ')}. Change it if that&apos;s wrong.
+        </p>
+      )}
+      <Select value={selectedPurpose} onValueChange={(value: TripPurpose) => onPurposeSelect(value)} disabled={disabled}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select trip purpose" />
+        </SelectTrigger>
+        <SelectContent>
+          {tripPurposes.map((purposeOption) => (
+            <SelectItem key={purposeOption.value} value={purposeOption.value}>
+              <div className="flex items-center space-x-2">
+                <span>{purposeOption.icon}</span>
+                <span>{purposeOption.label}</span>
+                {suggestion?.purpose === purposeOption.value && (
+                  <span className="text-xs text-blue-700">Suggested</span>
+                )}
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </>
+  );
+}
+
+export const getPurposeLabel = (purpose: TripPurpose): string => {
+  return tripPurposes.find(p => p.value === purpose)?.label || 'Other';
+};
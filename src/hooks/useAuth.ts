@@ -0,0 +1,86 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { AuthSession, OtpChallenge, User } from '@/lib/types';
+import { authService } from '@/lib/auth';
+import { storageService } from '@/lib/storage';
+
+interface UseAuthReturn {
+  user: User | null;
+  isAuthenticated: boolean;
+  loading: boolean;
+  error: string | null;
+  requestOtp: (phone: string) => Promise<OtpChallenge | null>;
+  verifyOtp: (phone: string, code: string, name?: string) => Promise<AuthSession | null>;
+  logout: () => Promise<void>;
+}
+
+export function useAuth(): UseAuthReturn {
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow sign-in and sign-out from any page
+  useEffect(() => {
+    setSession(authService.getSession());
+    const unsubscribeStorage = storageService.subscribe(() => setSession(authService.getSession()));
+    const unsubscribeAuth = authService.subscribe(setSession);
+
+    return () => {
+      unsubscribeStorage();
+      unsubscribeAuth();
+    };
+  }, []);
+
+  // Send a verification code
+  const requestOtp = useCallback(async (phone: string): Promise<OtpChallenge | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      return await authService.requestOtp(phone);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send verification code');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Check the code and sign in
+  const verifyOtp = useCallback(async (phone: string, code: string, name?: string): Promise<AuthSession | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      return await authService.verifyOtp(phone, code, name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify code');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Sign out
+  const logout = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      await authService.logout();
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    user: session?.user ?? null,
+    isAuthenticated: session !== null,
+    loading,
+    error,
+    requestOtp,
+    verifyOtp,
+    logout
+  };
+}
@@ -1,8 +1,9 @@
 "use client";
 
 import { useState, useEffect, useCallback } from 'react';
-import { Location, GeolocationResult } from '@/lib/types';
+import { Location, GeolocationResult, PlaceSuggestion } from '@/lib/types';
 import { geolocationService } from '@/lib/geolocation';
+import { searchPlaces } from '@/lib/geocoding';
 
 interface UseGeolocationOptions {
   enableHighAccuracy?: boolean;
@@ -211,7 +212,9 @@ export function useLocationWithAddress() {
           const addressResult = await geolocationService.reverseGeocode(result.location);
           if (addressResult) {
             setAddress(addressResult.formatted_address);
-            setLocation(prev => prev ? { ...prev, address: addressResult.formatted_address } : null);
+            setLocation(prev => prev
+              ? { ...prev, address: addressResult.formatted_address, addressComponents: addressResult.components }
+              : null);
           }
         } catch (addressError) {
           console.warn('Failed to get address:', addressError);
@@ -234,4 +237,46 @@ export function useLocationWithAddress() {
     loading,
     getLocationWithAddress
   };
-}
\ No newline at end of file
+}
+
+// Hook for type-ahead place search, nearest places first when a fix is known
+export function usePlaceSearch(query: string, near?: Location | null) {
+  const [results, setResults] = useState<PlaceSuggestion[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  // Follow the coordinates rather than the object, which is new on each fix
+  const nearLatitude = near?.latitude;
+  const nearLongitude = near?.longitude;
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    // Results for an older query may arrive late; only the latest counts
+    let current = true;
+    const origin = nearLatitude !== undefined && nearLongitude !== undefined
+      ? { latitude: nearLatitude, longitude: nearLongitude, timestamp: new Date() }
+      : null;
+
+    setLoading(true);
+    searchPlaces(query, origin)
+      .then(found => {
+        if (current) setResults(found);
+      })
+      .catch(err => {
+        console.warn('Place search failed:', err);
+        if (current) setResults([]);
+      })
+      .finally(() => {
+        if (current) setLoading(false);
+      });
+
+    return () => {
+      current = false;
+    };
+  }, [query, nearLatitude, nearLongitude]);
+
+  return { results, loading };
+}
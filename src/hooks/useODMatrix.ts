@@ -0,0 +1,87 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+import { TransportMode, TripPurpose } from '@/lib/types';
+import { authService } from '@/lib/auth';
+import { decodeODMatrix } from '@/lib/codecs';
+import { ODMatrix, TimeBand } from '@/lib/od';
+import { ZoneLevel } from '@/lib/zones';
+
+export interface ODFilters {
+  zoneLevel: ZoneLevel;
+  mode?: TransportMode;
+  purpose?: TripPurpose;
+  timeBand?: TimeBand;
+  from?: string; // yyyy-mm-dd, inclusive
+  to?: string; // yyyy-mm-dd, exclusive
+}
+
+interface UseODMatrixReturn {
+  matrix: ODMatrix | null;
+  loading: boolean;
+  error: string | null;
+  loadMatrix: (filters: ODFilters) => Promise<void>;
+  downloadCsv: (filters: ODFilters) => Promise<void>;
+}
+
+// Unset filters are left out rather than sent empty
+const toQuery = (filters: ODFilters, format: 'json' | 'csv') => {
+  const query = new URLSearchParams({ format });
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) query.set(key, value);
+  });
+  return query;
+};
+
+async function fetchMatrix(filters: ODFilters, format: 'json' | 'csv'): Promise<Response> {
+  const response = await fetch(`/api/trips/od-matrix?${toQuery(filters, format)}`, {
+    headers: authService.getAuthHeaders()
+  });
+  if (response.status === 401) {
+    authService.clearSession();
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Request failed with status ${response.status}`);
+  }
+  return response;
+}
+
+export function useODMatrix(): UseODMatrixReturn {
+  const [matrix, setMatrix] = useState<ODMatrix | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMatrix = useCallback(async (filters: ODFilters) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const body = await (await fetchMatrix(filters, 'json')).json();
+      setMatrix(decodeODMatrix(body.data));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load OD matrix');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const downloadCsv = useCallback(async (filters: ODFilters) => {
+    setError(null);
+
+    try {
+      const blob = await (await fetchMatrix(filters, 'csv')).blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `natpac_od_${filters.zoneLevel}.csv`;
+      link.click();
+
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download OD matrix');
+    }
+  }, []);
+
+  return { matrix, loading, error, loadMatrix, downloadCsv };
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { SavedPlace, SavedPlaceForm } from '@/lib/types';
+import { storageService } from '@/lib/storage';
+import { firstError, savedPlaceFormSchema, validateForm } from '@/lib/validation';
+
+interface UseSavedPlacesReturn {
+  places: SavedPlace[];
+  error: string | null;
+  savePlace: (form: SavedPlaceForm, placeId?: string) => Promise<string | null>;
+  removePlace: (placeId: string) => Promise<boolean>;
+}
+
+export function useSavedPlaces(): UseSavedPlacesReturn {
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPlaces = useCallback(() => {
+    try {
+      setPlaces(storageService.getSavedPlaces());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load saved places');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPlaces();
+    return storageService.subscribe(loadPlaces);
+  }, [loadPlaces]);
+
+  // Add a place, or replace the one with `placeId`
+  const savePlace = useCallback(async (form: SavedPlaceForm, placeId?: string): Promise<string | null> => {
+    setError(null);
+
+    const validation = validateForm(savedPlaceFormSchema, form);
+    if (!validation.success) {
+      setError(firstError(validation.errors));
+      return null;
+    }
+    const data = validation.data;
+
+    if (data.kind !== 'other' && places.some(p => p.kind === data.kind && p.id !== placeId)) {
+      setError(`You already have a ${data.kind} place; edit that one instead`);
+      return null;
+    }
+
+    const now = new Date();
+    const existing = placeId ? places.find(p => p.id === placeId) : undefined;
+    const place: SavedPlace = {
+      id: existing?.id ?? `place_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      name: data.name,
+      kind: data.kind,
+      // The saved point is where the place is, not a fix from one visit
+      location: { ...data.location, savedPlaceId: undefined },
+      radius: data.radius,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+
+    if (storageService.saveSavedPlace(place)) {
+      return place.id;
+    }
+    setError('Failed to save place');
+    return null;
+  }, [places]);
+
+  const removePlace = useCallback(async (placeId: string): Promise<boolean> => {
+    setError(null);
+
+    if (storageService.removeSavedPlace(placeId)) {
+      return true;
+    }
+    setError('Failed to remove place');
+    return false;
+  }, []);
+
+  return { places, error, savePlace, removePlace };
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { SyncState } from '@/lib/types';
+import { syncService } from '@/lib/sync';
+import { storageService } from '@/lib/storage';
+
+interface UseSyncReturn extends SyncState {
+  syncNow: () => Promise<void>;
+}
+
+const initialState: SyncState = {
+  pending: 0,
+  failed: 0,
+  syncing: false,
+  lastSync: null,
+  lastError: null
+};
+
+export function useSync(): UseSyncReturn {
+  const [state, setState] = useState<SyncState>(initialState);
+
+  // Start scheduled syncing and follow its progress
+  useEffect(() => {
+    syncService.start();
+    setState(syncService.getState());
+    const unsubscribeStorage = storageService.subscribe(() => setState(syncService.getState()));
+    const unsubscribeSync = syncService.subscribe(setState);
+
+    return () => {
+      unsubscribeStorage();
+      unsubscribeSync();
+    };
+  }, []);
+
+  const syncNow = useCallback(() => syncService.syncNow(), []);
+
+  return {
+    ...state,
+    syncNow
+  };
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { RecorderState } from '@/lib/types';
+import { traceRecorder } from '@/lib/recorder';
+
+interface UseTraceRecorderReturn extends RecorderState {
+  pause: () => void;
+  resume: () => void;
+}
+
+const initialState: RecorderState = {
+  tripId: null,
+  recording: false,
+  paused: false,
+  pointCount: 0,
+  lastFix: null,
+  error: null
+};
+
+export function useTraceRecorder(): UseTraceRecorderReturn {
+  const [state, setState] = useState<RecorderState>(initialState);
+
+  // Follow the recorder; useTrips decides when it runs
+  useEffect(() => {
+    setState(traceRecorder.getState());
+    return traceRecorder.subscribe(setState);
+  }, []);
+
+  const pause = useCallback(() => traceRecorder.pause(), []);
+  const resume = useCallback(() => {
+    traceRecorder.resume();
+  }, []);
+
+  return {
+    ...state,
+    pause,
+    resume
+  };
+}
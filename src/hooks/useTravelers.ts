@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Traveler, TravelerForm } from '@/lib/types';
 import { storageService } from '@/lib/storage';
+import { firstError, travelerFormSchema, travelerUpdateSchema, validateForm } from '@/lib/validation';
 
 interface UseTravelersReturn {
   travelers: Traveler[];
@@ -38,9 +39,10 @@ export function useTravelers(): UseTravelersReturn {
     }
   }, []);
 
-  // Load travelers on mount
+  // Load travelers on mount and again once the storage backend has loaded
   useEffect(() => {
     loadTravelers();
+    return storageService.subscribe(loadTravelers);
   }, [loadTravelers]);
 
   // Add new traveler
@@ -49,9 +51,16 @@ export function useTravelers(): UseTravelersReturn {
     setError(null);
 
     try {
+      const validation = validateForm(travelerFormSchema, travelerData);
+      if (!validation.success) {
+        setError(firstError(validation.errors));
+        return null;
+      }
+      const form = validation.data;
+
       // Check if traveler with same name already exists
       const existingTraveler = travelers.find(
-        t => t.name.toLowerCase() === travelerData.name.toLowerCase()
+        t => t.name.toLowerCase() === form.name.toLowerCase()
       );
 
       if (existingTraveler) {
@@ -65,10 +74,10 @@ export function useTravelers(): UseTravelersReturn {
 
       const newTraveler: Traveler = {
         id: travelerId,
-        name: travelerData.name.trim(),
-        ageGroup: travelerData.ageGroup,
-        relationship: travelerData.relationship,
-        hasConsent: travelerData.hasConsent,
+        name: form.name,
+        ageGroup: form.ageGroup,
+        relationship: form.relationship,
+        hasConsent: form.hasConsent,
         createdAt: now
       };
 
@@ -95,10 +104,17 @@ export function useTravelers(): UseTravelersReturn {
     setError(null);
 
     try {
+      const validation = validateForm(travelerUpdateSchema, updates);
+      if (!validation.success) {
+        setError(firstError(validation.errors));
+        return false;
+      }
+      const changes = validation.data;
+
       // If updating name, check for duplicates
-      if (updates.name) {
+      if (changes.name) {
         const existingTraveler = travelers.find(
-          t => t.id !== travelerId && t.name.toLowerCase() === updates.name!.toLowerCase()
+          t => t.id !== travelerId && t.name.toLowerCase() === changes.name!.toLowerCase()
         );
 
         if (existingTraveler) {
@@ -108,13 +124,13 @@ export function useTravelers(): UseTravelersReturn {
         }
       }
 
-      const success = storageService.updateTraveler(travelerId, updates);
+      const success = storageService.updateTraveler(travelerId, changes);
       
       if (success) {
         setTravelers(prev => 
           prev.map(traveler => 
             traveler.id === travelerId 
-              ? { ...traveler, ...updates }
+              ? { ...traveler, ...changes }
               : traveler
           )
         );
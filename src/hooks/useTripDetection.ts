@@ -0,0 +1,35 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { DetectorState } from '@/lib/types';
+import { tripDetector } from '@/lib/detector';
+
+interface UseTripDetectionReturn extends DetectorState {
+  dismissDraft: (draftId: string) => void;
+}
+
+const initialState: DetectorState = {
+  running: false,
+  moving: false,
+  drafts: [],
+  error: null
+};
+
+export function useTripDetection(): UseTripDetectionReturn {
+  const [state, setState] = useState<DetectorState>(initialState);
+
+  // Follow the detector; TripDetection decides when it runs
+  useEffect(() => {
+    setState(tripDetector.getState());
+    return tripDetector.subscribe(setState);
+  }, []);
+
+  const dismissDraft = useCallback((draftId: string) => {
+    tripDetector.dismiss(draftId);
+  }, []);
+
+  return {
+    ...state,
+    dismissDraft
+  };
+}
@@ -1,8 +1,18 @@
 "use client";
 
 import { useState, useEffect, useCallback } from 'react';
-import { Trip, TripStatus, NewTripForm, TripUpdateForm, Location } from '@/lib/types';
+import { Trip, TripChain, TripStatus, TransportMode, NewTripForm, TripUpdateForm, Location, TripField, ConflictResolution, DraftTrip, DraftTripForm, TripPurpose, PurposeInference } from '@/lib/types';
 import { storageService } from '@/lib/storage';
+import { syncService } from '@/lib/sync';
+import { traceRecorder } from '@/lib/recorder';
+import { tripDetector } from '@/lib/detector';
+import { applyTransition, canTransition } from '@/lib/lifecycle';
+import { enrichCompletedTrip } from '@/lib/completion';
+import { getAverageSpeed, getTotalDistance } from '@/lib/trace';
+import { generateChainId, getChains, isChained, planChains } from '@/lib/chains';
+import { getStages, isMultimodal, setCurrentStageMode, startStage, usesMode } from '@/lib/stages';
+import { recordPurposeChoice } from '@/lib/purpose';
+import { draftTripFormSchema, firstError, newTripRequestSchema, tripChangesSchema, validateForm } from '@/lib/validation';
 
 interface UseTripsReturn {
   trips: Trip[];
@@ -11,13 +21,35 @@ interface UseTripsReturn {
   error: string | null;
   createTrip: (tripData: NewTripForm & { origin: Location }) => Promise<string | null>;
   updateTrip: (tripId: string, updates: TripUpdateForm) => Promise<boolean>;
-  completeTrip: (tripId: string, destination: Location, rating?: number) => Promise<boolean>;
+  confirmDraftTrip: (draft: DraftTrip, details: DraftTripForm, purposeInference?: PurposeInference | null) => Promise<string | null>;
+  startTrip: (tripId: string) => Promise<boolean>;
+  switchMode: (tripId: string, mode: TransportMode, waitingTime?: number) => Promise<boolean>;
+  completeTrip: (
+    tripId: string,
+    destination: Location,
+    rating?: number,
+    mode?: TransportMode,
+    purpose?: TripPurpose,
+    purposeInference?: PurposeInference | null
+  ) => Promise<boolean>;
   cancelTrip: (tripId: string) => Promise<boolean>;
   deleteTrip: (tripId: string) => Promise<boolean>;
+  linkTrips: (tripIds: string[]) => Promise<boolean>;
+  unlinkTrip: (tripId: string) => Promise<boolean>;
+  getTripChains: () => TripChain[];
+  resolveConflict: (tripId: string, field: TripField, resolution: ConflictResolution) => Promise<boolean>;
   refreshTrips: () => void;
   getTripById: (tripId: string) => Trip | null;
   getRecentTrips: (limit?: number) => Trip[];
-  getTripStats: () => { total: number; completed: number; active: number; avgDuration: number };
+  getTripStats: () => {
+    total: number;
+    completed: number;
+    active: number;
+    avgDuration: number;
+    totalDistance: number;
+    avgSpeed: number;
+    multimodal: number;
+  };
 }
 
 export function useTrips(): UseTripsReturn {
@@ -39,11 +71,32 @@ export function useTrips(): UseTripsReturn {
     }
   }, []);
 
-  // Load trips on mount
+  // Group newly completed trips into tours with the trips around them
+  const chainTrips = useCallback(() => {
+    planChains(storageService.getTrips()).forEach(({ tripId, chainId }) => {
+      storageService.updateTrip(tripId, { chainId });
+    });
+    loadTrips();
+  }, [loadTrips]);
+
+  // Load trips on mount and again once the storage backend has loaded
   useEffect(() => {
     loadTrips();
+    return storageService.subscribe(loadTrips);
   }, [loadTrips]);
 
+  // Push local changes to the server on the configured schedule
+  useEffect(() => {
+    syncService.start();
+    return syncService.subscribe(loadTrips);
+  }, [loadTrips]);
+
+  // Record the GPS trace while a trip is active, resuming after a reload
+  const activeTripId = activeTrip?.id;
+  useEffect(() => {
+    if (activeTripId) traceRecorder.start(activeTripId);
+  }, [activeTripId]);
+
   // Generate unique trip number
   const generateTripNumber = useCallback(() => {
     const existingNumbers = trips.map(trip => trip.tripNumber);
@@ -56,10 +109,17 @@ export function useTrips(): UseTripsReturn {
     setError(null);
 
     try {
-      // Check if there's already an active trip
-      if (activeTrip) {
+      const validation = validateForm(newTripRequestSchema, tripData);
+      if (!validation.success) {
+        setError(firstError(validation.errors));
+        return null;
+      }
+      const form = validation.data;
+
+      // Check if there's already an active trip; planning ahead is always allowed
+      const status = form.status ?? 'active';
+      if (activeTrip && status === 'active') {
         setError('Please complete or cancel the current active trip before starting a new one');
-        setLoading(false);
         return null;
       }
 
@@ -69,16 +129,16 @@ export function useTrips(): UseTripsReturn {
       const newTrip: Trip = {
         id: tripId,
         tripNumber: generateTripNumber(),
-        status: 'active',
-        origin: tripData.origin,
+        status,
+        origin: form.origin,
         startTime: now,
-        mode: tripData.mode,
-        purpose: tripData.purpose,
-        purposeDetail: tripData.purposeDetail,
-        primaryTraveler: 'current_user', // Would be actual user ID in production
-        accompanyingTravelers: tripData.accompanyingTravelers,
-        totalTravelers: 1 + tripData.accompanyingTravelers.length,
-        notes: tripData.notes,
+        mode: form.mode,
+        purpose: form.purpose,
+        purposeDetail: form.purposeDetail,
+        primaryTraveler: storageService.getUser()?.id ?? 'current_user', // Server assigns the owner on upload
+        accompanyingTravelers: form.accompanyingTravelers,
+        totalTravelers: 1 + form.accompanyingTravelers.length,
+        notes: form.notes,
         createdAt: now,
         updatedAt: now
       };
@@ -87,7 +147,7 @@ export function useTrips(): UseTripsReturn {
       
       if (success) {
         setTrips(prev => [...prev, newTrip]);
-        setActiveTrip(newTrip);
+        if (newTrip.status === 'active') setActiveTrip(newTrip);
         return tripId;
       } else {
         setError('Failed to save trip');
@@ -107,20 +167,31 @@ export function useTrips(): UseTripsReturn {
     setError(null);
 
     try {
-      const success = storageService.updateTrip(tripId, updates);
+      // Also covers the status/endTime/duration changes from complete and cancel
+      const validation = validateForm(tripChangesSchema, updates);
+      if (!validation.success) {
+        setError(firstError(validation.errors));
+        return false;
+      }
+
+      // Storage applies the lifecycle, including times and duration a status change implies
+      const success = storageService.updateTrip(tripId, validation.data);
+      const updatedTrip = storageService.getTripById(tripId);
       
-      if (success) {
+      if (success && updatedTrip) {
         setTrips(prev => 
           prev.map(trip => 
             trip.id === tripId 
-              ? { ...trip, ...updates, updatedAt: new Date() }
+              ? updatedTrip
               : trip
           )
         );
 
-        // Update active trip if it's the one being updated
-        if (activeTrip && activeTrip.id === tripId) {
-          setActiveTrip(prev => prev ? { ...prev, ...updates, updatedAt: new Date() } : null);
+        // Keep the active trip in step with the one being updated
+        if (updatedTrip.status === 'active') {
+          setActiveTrip(updatedTrip);
+        } else if (activeTrip && activeTrip.id === tripId) {
+          setActiveTrip(null);
         }
 
         return true;
@@ -136,49 +207,188 @@ export function useTrips(): UseTripsReturn {
     }
   }, [activeTrip]);
 
+  // Save a detected trip once the user has said how and why they travelled
+  const confirmDraftTrip = useCallback(async (
+    draft: DraftTrip,
+    details: DraftTripForm,
+    purposeInference?: PurposeInference | null
+  ): Promise<string | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const validation = validateForm(draftTripFormSchema, details);
+      if (!validation.success) {
+        setError(firstError(validation.errors));
+        return null;
+      }
+      const form = validation.data;
+
+      const tripId = `trip_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      const now = new Date();
+
+      // Replay the trip as if it had been recorded, so completion fills in
+      // duration, the cleaned trace and distance as usual
+      const recorded: Trip = {
+        id: tripId,
+        tripNumber: generateTripNumber(),
+        status: 'active',
+        origin: draft.origin,
+        waypoints: draft.waypoints,
+        startTime: draft.startTime,
+        mode: form.mode,
+        purpose: form.purpose,
+        purposeDetail: form.purposeDetail,
+        inferredPurpose: purposeInference ? recordPurposeChoice(purposeInference, form.purpose) : undefined,
+        primaryTraveler: storageService.getUser()?.id ?? 'current_user',
+        accompanyingTravelers: form.accompanyingTravelers,
+        totalTravelers: 1 + form.accompanyingTravelers.length,
+        notes: form.notes,
+        createdAt: now,
+        updatedAt: now
+      };
+      const completion = enrichCompletedTrip(recorded, applyTransition(recorded, {
+        status: 'completed',
+        destination: draft.destination,
+        endTime: draft.endTime
+      }, now), now);
+      const newTrip: Trip = { ...recorded, ...completion };
+
+      if (storageService.addTrip(newTrip)) {
+        tripDetector.dismiss(draft.id);
+        setTrips(prev => [...prev, newTrip]);
+        chainTrips();
+        return tripId;
+      } else {
+        setError('Failed to save trip');
+        return null;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save trip');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [generateTripNumber, chainTrips]);
+
+  // Start a planned trip
+  const startTrip = useCallback(async (tripId: string): Promise<boolean> => {
+    const trip = trips.find(t => t.id === tripId);
+    if (!trip) {
+      setError('Trip not found');
+      return false;
+    }
+
+    if (!canTransition(trip.status, 'active')) {
+      setError(`A ${trip.status} trip cannot be started`);
+      return false;
+    }
+
+    if (activeTrip) {
+      setError('Please complete or cancel the current active trip before starting a new one');
+      return false;
+    }
+
+    const updates: Partial<Trip> = { status: 'active' as TripStatus };
+    return updateTrip(tripId, updates);
+  }, [trips, activeTrip, updateTrip]);
+
+  // Start a new stage of the active trip in another mode
+  const switchMode = useCallback(async (
+    tripId: string,
+    mode: TransportMode,
+    waitingTime: number = 0
+  ): Promise<boolean> => {
+    // Save the trace so far; the change happens where it ends
+    traceRecorder.flush();
+    const trip = storageService.getTripById(tripId);
+    if (!trip || trip.status !== 'active') {
+      setError('Only an active trip can switch mode');
+      return false;
+    }
+
+    if (mode === getStages(trip).slice(-1)[0].mode) {
+      setError('You are already travelling by this mode');
+      return false;
+    }
+
+    const transfer = traceRecorder.getState().lastFix ?? trip.waypoints?.slice(-1)[0] ?? trip.origin;
+
+    return updateTrip(tripId, startStage(trip, mode, transfer, waitingTime));
+  }, [updateTrip]);
+
   // Complete trip
-  const completeTrip = useCallback(async (tripId: string, destination: Location, rating?: number): Promise<boolean> => {
+  const completeTrip = useCallback(async (
+    tripId: string,
+    destination: Location,
+    rating?: number,
+    mode?: TransportMode,
+    purpose?: TripPurpose,
+    purposeInference?: PurposeInference | null
+  ): Promise<boolean> => {
     const trip = trips.find(t => t.id === tripId);
     if (!trip) {
       setError('Trip not found');
       return false;
     }
 
-    const endTime = new Date();
-    const duration = Math.round((endTime.getTime() - trip.startTime.getTime()) / (1000 * 60)); // duration in minutes
+    if (!canTransition(trip.status, 'completed')) {
+      setError(`A ${trip.status} trip cannot be completed`);
+      return false;
+    }
 
+    // End time and duration follow from the transition
     const updates: Partial<Trip> = {
       status: 'completed' as TripStatus,
       destination,
-      endTime,
-      duration,
       satisfactionRating: rating
     };
+    // The user's final answer; the trace's suggestion is kept separately.
+    // On a multimodal trip it answers for the stage being travelled.
+    if (mode && mode !== trip.mode) {
+      if (trip.stages && trip.stages.length > 0) {
+        updates.stages = setCurrentStageMode(trip, mode);
+      } else {
+        updates.mode = mode;
+      }
+    }
+    if (purpose && purpose !== trip.purpose) {
+      updates.purpose = purpose;
+    }
+    // Kept whether or not the user agreed, to measure how good suggestions are
+    if (purposeInference) {
+      updates.inferredPurpose = recordPurposeChoice(purposeInference, purpose ?? trip.purpose);
+    }
 
+    // Save the last stretch of the trace before the trip closes
+    traceRecorder.flush();
     const success = await updateTrip(tripId, updates);
-    
-    if (success && activeTrip && activeTrip.id === tripId) {
-      setActiveTrip(null);
+    if (success) {
+      traceRecorder.stop();
+      chainTrips();
     }
-
     return success;
-  }, [trips, activeTrip, updateTrip]);
+  }, [trips, updateTrip, chainTrips]);
 
   // Cancel trip
   const cancelTrip = useCallback(async (tripId: string): Promise<boolean> => {
-    const updates: Partial<Trip> = {
-      status: 'cancelled' as TripStatus,
-      endTime: new Date()
-    };
+    const trip = trips.find(t => t.id === tripId);
+    if (!trip) {
+      setError('Trip not found');
+      return false;
+    }
 
-    const success = await updateTrip(tripId, updates);
-    
-    if (success && activeTrip && activeTrip.id === tripId) {
-      setActiveTrip(null);
+    if (!canTransition(trip.status, 'cancelled')) {
+      setError(`A ${trip.status} trip cannot be cancelled`);
+      return false;
     }
 
+    const updates: Partial<Trip> = { status: 'cancelled' as TripStatus };
+    traceRecorder.flush();
+    const success = await updateTrip(tripId, updates);
+    if (success) traceRecorder.stop();
     return success;
-  }, [activeTrip, updateTrip]);
+  }, [trips, updateTrip]);
 
   // Delete trip
   const deleteTrip = useCallback(async (tripId: string): Promise<boolean> => {
@@ -186,6 +396,7 @@ export function useTrips(): UseTripsReturn {
     setError(null);
 
     try {
+      if (traceRecorder.getState().tripId === tripId) traceRecorder.stop();
       const success = storageService.deleteTrip(tripId);
       
       if (success) {
@@ -208,6 +419,79 @@ export function useTrips(): UseTripsReturn {
     }
   }, [activeTrip]);
 
+  // Put trips in one chain by hand; a trip already in a chain brings the rest of it along
+  const linkTrips = useCallback(async (tripIds: string[]): Promise<boolean> => {
+    setError(null);
+
+    const linked = trips.filter(trip => tripIds.includes(trip.id));
+    if (linked.length < 2 || linked.some(trip => trip.status !== 'completed')) {
+      setError('Choose two or more completed trips to link');
+      return false;
+    }
+
+    const chainIds = new Set(linked.filter(isChained).map(trip => trip.chainId));
+    const chainId = linked.find(isChained)?.chainId ?? generateChainId();
+    const members = trips.filter(trip =>
+      tripIds.includes(trip.id) || (isChained(trip) && chainIds.has(trip.chainId))
+    );
+
+    try {
+      members.forEach(trip =>
+        storageService.updateTrip(trip.id, { isPartOfChain: true, chainLinkedByUser: true, chainId })
+      );
+      loadTrips();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to link trips');
+      return false;
+    }
+  }, [trips, loadTrips]);
+
+  // Take a trip out of its chain; it is not chained automatically again
+  const unlinkTrip = useCallback(async (tripId: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      // null rather than undefined, which JSON would drop on the way to the server
+      const success = storageService.updateTrip(tripId, { isPartOfChain: false, chainLinkedByUser: false, chainId: null });
+
+      if (success) {
+        loadTrips();
+        return true;
+      } else {
+        setError('Failed to unlink trip');
+        return false;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlink trip');
+      return false;
+    }
+  }, [loadTrips]);
+
+  // Resolve a sync conflict by keeping this device's or the server's value
+  const resolveConflict = useCallback(async (
+    tripId: string,
+    field: TripField,
+    resolution: ConflictResolution
+  ): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const success = storageService.resolveTripConflict(tripId, field, resolution);
+
+      if (success) {
+        loadTrips();
+        return true;
+      } else {
+        setError('Failed to resolve conflict');
+        return false;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve conflict');
+      return false;
+    }
+  }, [loadTrips]);
+
   // Refresh trips
   const refreshTrips = useCallback(() => {
     loadTrips();
@@ -218,6 +502,9 @@ export function useTrips(): UseTripsReturn {
     return trips.find(trip => trip.id === tripId) || null;
   }, [trips]);
 
+  // Get the chains trips have been grouped into
+  const getTripChains = useCallback((): TripChain[] => getChains(trips), [trips]);
+
   // Get recent trips
   const getRecentTrips = useCallback((limit: number = 5): Trip[] => {
     return [...trips]
@@ -236,7 +523,15 @@ export function useTrips(): UseTripsReturn {
       ? Math.round(completedTrips.reduce((sum, trip) => sum + (trip.duration || 0), 0) / completedTrips.length)
       : 0;
 
-    return { total, completed, active, avgDuration };
+    const totalDistance = getTotalDistance(trips);
+    const avgSpeed = getAverageSpeed(
+      getTotalDistance(completedTrips),
+      completedTrips.reduce((sum, trip) => sum + (trip.duration || 0), 0)
+    ) ?? 0;
+
+    const multimodal = trips.filter(isMultimodal).length;
+
+    return { total, completed, active, avgDuration, totalDistance, avgSpeed, multimodal };
   }, [trips]);
 
   return {
@@ -246,12 +541,19 @@ export function useTrips(): UseTripsReturn {
     error,
     createTrip,
     updateTrip,
+    confirmDraftTrip,
+    startTrip,
+    switchMode,
     completeTrip,
     cancelTrip,
     deleteTrip,
+    linkTrips,
+    unlinkTrip,
+    resolveConflict,
     refreshTrips,
     getTripById,
     getRecentTrips,
+    getTripChains,
     getTripStats
   };
 }
@@ -270,7 +572,7 @@ export function useTripHistory(pageSize: number = 10) {
   const filteredTrips = trips.filter(trip => {
     if (filter.status && trip.status !== filter.status) return false;
     if (filter.purpose && trip.purpose !== filter.purpose) return false;
-    if (filter.mode && trip.mode !== filter.mode) return false;
+    if (filter.mode && !usesMode(trip, filter.mode as TransportMode)) return false;
     if (filter.dateRange) {
       const tripDate = new Date(trip.startTime);
       if (tripDate < filter.dateRange.start || tripDate > filter.dateRange.end) return false;
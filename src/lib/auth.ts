@@ -0,0 +1,128 @@
+// Phone sign-in for NATPAC Travel Data Collection App
+//
+// The server texts a one-time code to the respondent's phone; entering it
+// returns a session token that every API request carries as a bearer token.
+
+import { AuthSession, OtpChallenge, User } from './types';
+import { storageService } from './storage';
+import { decodeAuthSession, decodeOtpChallenge } from './codecs';
+
+type AuthListener = (session: AuthSession | null) => void;
+
+interface AuthServiceOptions {
+  baseUrl?: string;
+  fetcher?: typeof fetch;
+}
+
+export class AuthService {
+  private static instance: AuthService;
+  private readonly baseUrl: string;
+  private readonly fetcher: typeof fetch;
+  private listeners = new Set<AuthListener>();
+
+  constructor(options: AuthServiceOptions = {}) {
+    this.baseUrl = options.baseUrl ?? '';
+    this.fetcher = options.fetcher ?? ((...args) => fetch(...args));
+  }
+
+  static getInstance(): AuthService {
+    if (!AuthService.instance) {
+      AuthService.instance = new AuthService();
+    }
+    return AuthService.instance;
+  }
+
+  subscribe(listener: AuthListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const session = this.getSession();
+    this.listeners.forEach(listener => listener(session));
+  }
+
+  /**
+   * The stored session, or null if signed out or the token has expired
+   */
+  getSession(): AuthSession | null {
+    const session = storageService.getSession();
+    return session && session.expiresAt > new Date() ? session : null;
+  }
+
+  getUser(): User | null {
+    return this.getSession()?.user ?? null;
+  }
+
+  isAuthenticated(): boolean {
+    return this.getSession() !== null;
+  }
+
+  getAuthHeaders(): Record<string, string> {
+    const session = this.getSession();
+    return session ? { Authorization: `Bearer ${session.token}` } : {};
+  }
+
+  /**
+   * Ask the server to text a sign-in code to `phone`
+   */
+  async requestOtp(phone: string): Promise<OtpChallenge> {
+    const data = await this.post('/api/auth/otp', { phone });
+    return decodeOtpChallenge(data);
+  }
+
+  /**
+   * Exchange a code for a session and remember it on this device
+   */
+  async verifyOtp(phone: string, code: string, name?: string): Promise<AuthSession> {
+    const session = decodeAuthSession(await this.post('/api/auth/verify', { phone, code, name }));
+
+    storageService.saveSession(session);
+    storageService.saveUser(session.user);
+    this.notify();
+    return session;
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await this.fetcher(`${this.baseUrl}/api/auth/session`, {
+        method: 'DELETE',
+        headers: this.getAuthHeaders()
+      });
+    } catch (error) {
+      // Signing out locally still works offline; the token just expires later
+      console.error('Error revoking session:', error);
+    }
+    this.clearSession();
+  }
+
+  /**
+   * Forget the session without telling the server, e.g. after a 401
+   */
+  clearSession(): void {
+    storageService.removeSession();
+    this.notify();
+  }
+
+  private async post(path: string, body: unknown): Promise<unknown> {
+    const response = await this.fetcher(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok || !result?.success) {
+      throw new Error(result?.error || `Request failed with status ${response.status}`);
+    }
+    return result.data;
+  }
+}
+
+// Singleton instance
+export const authService = AuthService.getInstance();
+
+export const getAuthHeaders = () => authService.getAuthHeaders();
+export const isAuthenticated = () => authService.isAuthenticated();
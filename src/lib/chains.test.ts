@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { Location, Trip, TripPurpose } from './types';
+import { getChains, getPrimaryPurpose, planChains } from './chains';
+
+const HOUR = 60 * 60 * 1000;
+const morning = Date.UTC(2024, 2, 1, 3, 0);
+
+const HOME = { latitude: 8.5241, longitude: 76.9366 };
+const WORK = { latitude: 8.5581, longitude: 76.8816 };
+const SHOP = { latitude: 8.4875, longitude: 76.9525 };
+
+const at = (place: typeof HOME, hours: number): Location => ({ ...place, timestamp: new Date(morning + hours * HOUR) });
+
+let tripCount = 0;
+
+// A 30-minute trip leaving `from` after `hours`
+const leg = (from: typeof HOME, to: typeof HOME, hours: number, purpose: TripPurpose, overrides: Partial<Trip> = {}): Trip => ({
+  id: `trip_${++tripCount}`,
+  tripNumber: tripCount,
+  status: 'completed',
+  origin: at(from, hours),
+  destination: at(to, hours + 0.5),
+  startTime: new Date(morning + hours * HOUR),
+  endTime: new Date(morning + (hours + 0.5) * HOUR),
+  duration: 30,
+  mode: 'bus',
+  purpose,
+  primaryTraveler: 'user_1',
+  accompanyingTravelers: [],
+  totalTravelers: 1,
+  createdAt: new Date(morning),
+  updatedAt: new Date(morning),
+  ...overrides
+});
+
+const withPlan = (trips: Trip[]) => {
+  const plan = new Map(planChains(trips).map(({ tripId, chainId }) => [tripId, chainId]));
+  return trips.map(trip => (plan.has(trip.id) ? { ...trip, chainId: plan.get(trip.id) ?? undefined } : trip));
+};
+
+describe('planChains', () => {
+  it('chains a tour from home and back', () => {
+    const trips = [leg(HOME, WORK, 0, 'work'), leg(WORK, SHOP, 9, 'shopping'), leg(SHOP, HOME, 10, 'return_home')];
+
+    const plan = planChains(trips);
+
+    expect(plan.map(({ tripId }) => tripId)).toEqual(trips.map(trip => trip.id));
+    expect(new Set(plan.map(({ chainId }) => chainId)).size).toBe(1);
+  });
+
+  it('starts a new tour once the last one is home', () => {
+    const trips = withPlan([
+      leg(HOME, WORK, 0, 'work'),
+      leg(WORK, HOME, 9, 'return_home'),
+      leg(HOME, SHOP, 10, 'shopping'),
+      leg(SHOP, HOME, 11, 'return_home')
+    ]);
+
+    expect(getChains(trips).map(chain => chain.tripIds)).toEqual([
+      [trips[0].id, trips[1].id],
+      [trips[2].id, trips[3].id]
+    ]);
+  });
+
+  it('does not chain trips far apart in place or time', () => {
+    expect(planChains([leg(HOME, WORK, 0, 'work'), leg(SHOP, HOME, 1, 'return_home')])).toEqual([]);
+    expect(planChains([leg(HOME, WORK, 0, 'work'), leg(WORK, HOME, 13, 'return_home')])).toEqual([]);
+  });
+
+  it('lists only trips whose chain changes, keeping the ids they have', () => {
+    const trips = withPlan([leg(HOME, WORK, 0, 'work'), leg(WORK, SHOP, 9, 'shopping')]);
+    const chainId = trips[0].chainId;
+
+    const next = leg(SHOP, HOME, 10, 'return_home');
+    expect(planChains([...trips, next])).toEqual([{ tripId: next.id, chainId }]);
+  });
+
+  it('takes a trip out of its chain when the trips around it change', () => {
+    const [first, second] = withPlan([leg(HOME, WORK, 0, 'work'), leg(WORK, HOME, 9, 'return_home')]);
+
+    expect(planChains([first, { ...second, status: 'cancelled' }])).toEqual([{ tripId: first.id, chainId: null }]);
+  });
+
+  it('leaves trips the user linked or unlinked alone and splits the tour at an unlinked one', () => {
+    const linked = leg(HOME, SHOP, 0, 'shopping', { chainId: 'chain_mine', chainLinkedByUser: true });
+    const unlinked = leg(SHOP, WORK, 1, 'work', { isPartOfChain: false });
+    const after = leg(WORK, HOME, 9, 'return_home');
+
+    expect(planChains([linked, unlinked, after])).toEqual([]);
+  });
+
+  it('ignores trips that are not completed', () => {
+    expect(planChains([leg(HOME, WORK, 0, 'work'), leg(WORK, HOME, 9, 'return_home', { status: 'active' })])).toEqual([]);
+  });
+});
+
+describe('getChains', () => {
+  it('summarizes each chain of two or more trips', () => {
+    const trips = withPlan([leg(HOME, WORK, 0, 'work'), leg(WORK, SHOP, 9, 'shopping'), leg(SHOP, HOME, 10, 'return_home')]);
+
+    const [chain] = getChains(trips);
+
+    expect(chain).toMatchObject({
+      userId: 'user_1',
+      startTime: trips[0].startTime,
+      endTime: trips[2].endTime,
+      totalDuration: 90,
+      primaryPurpose: 'work'
+    });
+    expect(chain.totalDistance).toBeGreaterThan(0);
+  });
+
+  it('ranks the main activity above errands made on the way', () => {
+    expect(getPrimaryPurpose([leg(HOME, SHOP, 0, 'shopping'), leg(SHOP, WORK, 1, 'education')])).toBe('education');
+  });
+});
@@ -0,0 +1,153 @@
+// Trip chaining for NATPAC Travel Data Collection App
+//
+// Consecutive trips are grouped into home-based tours (home → work →
+// shopping → home). A trip continues the tour before it when it sets off
+// near where that one ended, within MAX_GAP of it; the tour closes once a
+// trip returns home, taken to be where the tour began. A chain is not
+// stored on its own: it is the set of trips sharing a chainId, and its
+// summary is rebuilt from them. Users can link and unlink trips by hand;
+// a trip they unlinked (isPartOfChain false) or linked (chainLinkedByUser)
+// is never regrouped automatically. Other trips are regrouped as the trips
+// around them change, keeping the chain ids they already have.
+
+import { Location, Trip, TripChain, TripPurpose } from './types';
+import { GeolocationService } from './geolocation';
+import { getTotalDistance } from './trace';
+
+const LINK_RADIUS = 0.5; // km between one trip's destination and the next one's origin
+const MAX_GAP = 12 * 60 * 60 * 1000; // 12 hours, long enough for a working day
+
+// The tour's main activity is its highest-ranked purpose
+const PURPOSE_PRIORITY: TripPurpose[] = [
+  'work',
+  'education',
+  'business',
+  'medical',
+  'religious',
+  'shopping',
+  'social',
+  'leisure',
+  'other',
+  'return_home'
+];
+
+export interface ChainAssignment {
+  tripId: string;
+  chainId: string | null; // null takes the trip out of the chain it was in
+}
+
+const timeOf = (value: Date) => new Date(value).getTime();
+
+const isNear = (a: Location, b: Location) => GeolocationService.calculateDistance(a, b) <= LINK_RADIUS;
+
+export const generateChainId = () => `chain_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Whether a trip belongs to a chain
+ */
+export function isChained(trip: Trip): boolean {
+  return trip.isPartOfChain !== false && trip.chainId != null;
+}
+
+/**
+ * Whether `next` carries on from where and when `previous` ended
+ */
+export function continuesFrom(previous: Trip, next: Trip): boolean {
+  if (!previous.destination || !previous.endTime) return false;
+
+  const gap = timeOf(next.startTime) - timeOf(previous.endTime);
+  return gap >= 0 && gap <= MAX_GAP && isNear(previous.destination, next.origin);
+}
+
+const returnsHome = (trip: Trip, home: Location) =>
+  trip.purpose === 'return_home' || (trip.destination !== undefined && isNear(trip.destination, home));
+
+/**
+ * Chain ids to give completed trips the user has not linked or unlinked,
+ * extending the chain before them where one is still open. Only trips whose
+ * chain changes are listed.
+ */
+export function planChains(trips: Trip[]): ChainAssignment[] {
+  const completed = trips
+    .filter(trip => trip.status === 'completed')
+    .sort((a, b) => timeOf(a.startTime) - timeOf(b.startTime));
+
+  const planned = new Map<string, string>();
+  // The tour in progress: its chain, where it began and its latest trip
+  let tour: { chainId: string | undefined; home: Location; last: Trip } | null = null;
+
+  completed.forEach(trip => {
+    const continues = tour !== null && continuesFrom(tour.last, trip);
+
+    if (trip.isPartOfChain === false) {
+      tour = null;
+      return;
+    }
+
+    if (trip.chainLinkedByUser && trip.chainId) {
+      const sameTour = continues && tour?.chainId === trip.chainId;
+      tour = { chainId: trip.chainId, home: sameTour && tour ? tour.home : trip.origin, last: trip };
+    } else if (tour && continues) {
+      // The tour's first trip only joins a chain once a second one follows
+      if (!tour.chainId) {
+        tour.chainId = tour.last.chainId ?? generateChainId();
+        planned.set(tour.last.id, tour.chainId);
+      }
+      planned.set(trip.id, tour.chainId);
+      tour.last = trip;
+    } else {
+      tour = { chainId: undefined, home: trip.origin, last: trip };
+    }
+
+    if (tour && returnsHome(trip, tour.home)) tour = null;
+  });
+
+  return completed
+    .filter(trip => trip.isPartOfChain !== false && !trip.chainLinkedByUser)
+    .filter(trip => (trip.chainId ?? null) !== (planned.get(trip.id) ?? null))
+    .map(trip => ({ tripId: trip.id, chainId: planned.get(trip.id) ?? null }));
+}
+
+/**
+ * The purpose the tour was made for, e.g. work for home → work → shop → home
+ */
+export function getPrimaryPurpose(trips: Trip[]): TripPurpose {
+  const purposes = new Set(trips.map(trip => trip.purpose));
+  return PURPOSE_PRIORITY.find(purpose => purposes.has(purpose)) ?? 'other';
+}
+
+/**
+ * Summary of the trips in one chain
+ */
+export function summarizeChain(chainId: string, trips: Trip[]): TripChain {
+  const sorted = [...trips].sort((a, b) => timeOf(a.startTime) - timeOf(b.startTime));
+  const last = sorted[sorted.length - 1];
+
+  return {
+    id: chainId,
+    userId: sorted[0].primaryTraveler,
+    tripIds: sorted.map(trip => trip.id),
+    startTime: sorted[0].startTime,
+    endTime: last.endTime,
+    totalDistance: getTotalDistance(sorted),
+    // Time spent travelling, not the time spent at each stop
+    totalDuration: sorted.reduce((sum, trip) => sum + (trip.duration ?? 0), 0),
+    primaryPurpose: getPrimaryPurpose(sorted),
+    createdAt: sorted.reduce((earliest, trip) => (trip.createdAt < earliest ? trip.createdAt : earliest), sorted[0].createdAt)
+  };
+}
+
+/**
+ * Every chain of two or more trips, earliest first
+ */
+export function getChains(trips: Trip[]): TripChain[] {
+  const members = new Map<string, Trip[]>();
+  trips.filter(isChained).forEach(trip => {
+    members.set(trip.chainId!, [...(members.get(trip.chainId!) ?? []), trip]);
+  });
+
+  return Array.from(members.entries())
+    .filter(([, chained]) => chained.length > 1)
+    .map(([chainId, chained]) => summarizeChain(chainId, chained))
+    .sort((a, b) => timeOf(a.startTime) - timeOf(b.startTime));
+}
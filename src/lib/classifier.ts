@@ -0,0 +1,195 @@
+// Transport mode inference for NATPAC Travel Data Collection App
+//
+// Respondents often pick the wrong mode (bus vs shared taxi vs car), so a
+// classifier suggests one from the recorded trace. extractFeatures reduces
+// a trace to speed, acceleration and stop statistics; the active
+// ModeClassifier turns those into a mode and a confidence. The built-in
+// classifier is a set of hand-tuned rules for Kerala traffic; a trained
+// model can replace it with setModeClassifier, and every suggestion records
+// which classifier made it so the two can be compared against what users
+// chose.
+
+import { Location, ModeInference, TransportMode } from './types';
+import { GeolocationService } from './geolocation';
+import { filterOutliers } from './trace';
+
+export interface TraceFeatures {
+  distance: number; // km
+  duration: number; // minutes
+  meanSpeed: number; // km/h while moving
+  p85Speed: number; // km/h, 85th percentile of segment speeds
+  maxSpeed: number; // km/h
+  meanAcceleration: number; // m/s², absolute, between segments
+  stopsPerKm: number; // times the trace came to a halt
+  stoppedShare: number; // 0-1 of the time spent stopped
+}
+
+export interface ModeClassifier {
+  readonly name: string;
+  classify(features: TraceFeatures): { mode: TransportMode; confidence: number } | null;
+}
+
+// Below this a trace says too little to guess from
+const MIN_POINTS = 5;
+const MIN_DISTANCE = 0.3; // km
+const STOP_SPEED = 2; // km/h
+
+const toKmh = (km: number, ms: number) => km / (ms / (1000 * 60 * 60));
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+/**
+ * Speed, acceleration and stop statistics for a raw trace, or null if it is
+ * too short to classify
+ */
+export function extractFeatures(points: Location[]): TraceFeatures | null {
+  // Spikes would dominate the top speeds; filter as for the fastest mode
+  const trace = filterOutliers(points, 'other');
+  if (trace.length < MIN_POINTS) return null;
+
+  let distance = 0;
+  let movingDistance = 0;
+  let movingTime = 0;
+  let stoppedTime = 0;
+  let stops = 0;
+  let accelerationSum = 0;
+  const speeds: number[] = [];
+
+  for (let i = 1; i < trace.length; i++) {
+    const km = GeolocationService.calculateDistance(trace[i - 1], trace[i]);
+    const ms = new Date(trace[i].timestamp).getTime() - new Date(trace[i - 1].timestamp).getTime();
+    const speed = toKmh(km, ms);
+    distance += km;
+
+    if (speed < STOP_SPEED) {
+      stoppedTime += ms;
+      if (speeds.length === 0 || speeds[speeds.length - 1] >= STOP_SPEED) stops++;
+    } else {
+      movingDistance += km;
+      movingTime += ms;
+    }
+
+    if (speeds.length > 0) {
+      const change = Math.abs(speed - speeds[speeds.length - 1]) / 3.6; // m/s
+      accelerationSum += change / (ms / 1000);
+    }
+    speeds.push(speed);
+  }
+
+  if (distance < MIN_DISTANCE) return null;
+
+  const sorted = [...speeds].sort((a, b) => a - b);
+  const totalTime = movingTime + stoppedTime;
+  return {
+    distance,
+    duration: totalTime / (1000 * 60),
+    meanSpeed: movingTime > 0 ? toKmh(movingDistance, movingTime) : 0,
+    p85Speed: percentile(sorted, 0.85),
+    maxSpeed: sorted[sorted.length - 1],
+    meanAcceleration: speeds.length > 1 ? accelerationSum / (speeds.length - 1) : 0,
+    stopsPerKm: stops / distance,
+    stoppedShare: totalTime > 0 ? stoppedTime / totalTime : 0
+  };
+}
+
+// How well `value` fits a range that is typical between `low` and `high`
+// and still possible out to `min` and `max`
+type Range = [min: number, low: number, high: number, max: number];
+
+function fit(value: number, [min, low, high, max]: Range): number {
+  if (value < min || value > max) return 0;
+  if (value < low) return (value - min) / (low - min);
+  if (value > high) return (max - value) / (max - high);
+  return 1;
+}
+
+interface ModeRule {
+  mode: TransportMode;
+  weight: number; // 0-1, how readily to suggest the mode when rules tie
+  p85Speed: Range; // km/h
+  stopsPerKm: Range;
+  stoppedShare: Range;
+  meanAcceleration: Range; // m/s²
+}
+
+// Taxis are driven like cars and metro runs like a fast bus, so those
+// modes are left to the user rather than guessed at
+const MODE_RULES: ModeRule[] = [
+  {
+    mode: 'walk', weight: 1,
+    p85Speed: [0, 2, 6, 9], stopsPerKm: [0, 0, 10, 30], stoppedShare: [0, 0, 0.3, 0.8], meanAcceleration: [0, 0, 0.3, 1]
+  },
+  {
+    mode: 'bicycle', weight: 0.6,
+    p85Speed: [6, 10, 20, 30], stopsPerKm: [0, 0, 3, 8], stoppedShare: [0, 0, 0.2, 0.5], meanAcceleration: [0, 0, 0.5, 1.5]
+  },
+  {
+    mode: 'auto_rickshaw', weight: 0.8,
+    p85Speed: [10, 18, 35, 50], stopsPerKm: [0, 0, 2, 6], stoppedShare: [0, 0, 0.2, 0.5], meanAcceleration: [0, 0, 1, 2]
+  },
+  {
+    mode: 'motorcycle', weight: 1,
+    p85Speed: [15, 30, 60, 100], stopsPerKm: [0, 0, 1, 4], stoppedShare: [0, 0, 0.15, 0.4], meanAcceleration: [0, 0.1, 2, 4]
+  },
+  {
+    mode: 'car', weight: 0.9,
+    p85Speed: [15, 30, 80, 130], stopsPerKm: [0, 0, 1, 4], stoppedShare: [0, 0, 0.2, 0.5], meanAcceleration: [0, 0, 1.2, 3]
+  },
+  {
+    mode: 'shared_taxi', weight: 0.5,
+    p85Speed: [15, 25, 55, 90], stopsPerKm: [0, 0.3, 2, 5], stoppedShare: [0, 0.05, 0.3, 0.6], meanAcceleration: [0, 0, 1.2, 3]
+  },
+  {
+    mode: 'bus', weight: 1,
+    p85Speed: [15, 25, 50, 80], stopsPerKm: [0.3, 1, 4, 8], stoppedShare: [0.05, 0.15, 0.45, 0.7], meanAcceleration: [0, 0, 0.8, 2]
+  },
+  {
+    mode: 'train', weight: 0.6,
+    p85Speed: [40, 60, 110, 160], stopsPerKm: [0, 0, 0.3, 1], stoppedShare: [0, 0, 0.2, 0.5], meanAcceleration: [0, 0, 0.5, 1.5]
+  }
+];
+
+export const ruleBasedClassifier: ModeClassifier = {
+  name: 'rules-v1',
+  classify(features) {
+    const scores = MODE_RULES.map(rule => ({
+      mode: rule.mode,
+      score:
+        rule.weight *
+        fit(features.p85Speed, rule.p85Speed) *
+        fit(features.stopsPerKm, rule.stopsPerKm) *
+        fit(features.stoppedShare, rule.stoppedShare) *
+        fit(features.meanAcceleration, rule.meanAcceleration)
+    }));
+
+    const total = scores.reduce((sum, s) => sum + s.score, 0);
+    if (total === 0) return null;
+
+    const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+    return { mode: best.mode, confidence: Math.round((best.score / total) * 100) / 100 };
+  }
+};
+
+let activeClassifier: ModeClassifier = ruleBasedClassifier;
+
+/**
+ * Use a different classifier (e.g. a trained model) for new suggestions
+ */
+export function setModeClassifier(classifier: ModeClassifier): void {
+  activeClassifier = classifier;
+}
+
+/**
+ * Suggest a mode for a raw trace, or null if the trace is too short or
+ * fits no mode
+ */
+export function inferMode(points: Location[], at: Date = new Date()): ModeInference | null {
+  const features = extractFeatures(points);
+  if (!features) return null;
+
+  const result = activeClassifier.classify(features);
+  if (!result) return null;
+
+  return { ...result, classifier: activeClassifier.name, inferredAt: at };
+}
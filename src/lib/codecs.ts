@@ -0,0 +1,347 @@
+// Runtime codecs for NATPAC Travel Data Collection App entities
+//
+// JSON (localStorage, import files, API bodies) has no Date type, so every
+// entity read from outside memory goes through these schemas to get real
+// Date objects back and to reject malformed payloads. Keep them in step with
+// the interfaces in ./types.
+
+import { z } from 'zod';
+import {
+  Location,
+  Traveler,
+  Trip,
+  TripField,
+  TripChain,
+  User,
+  ConsentData,
+  AppSettings,
+  QuarantinedRecord,
+  OutboxEntry,
+  AuthSession,
+  OtpChallenge,
+  FieldError,
+  DraftTrip,
+  ModeInference,
+  TripStage,
+  AddressComponents,
+  SavedPlace,
+  PurposeInference
+} from './types';
+import { ODMatrix } from './od';
+import { ZONE_LEVELS, ZoneLevel } from './zones';
+
+export type CodecIssue = FieldError;
+
+export class CodecError extends Error {
+  constructor(
+    public readonly entity: string,
+    public readonly issues: CodecIssue[]
+  ) {
+    super(`Invalid ${entity}: ${issues.map(i => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ')}`);
+    this.name = 'CodecError';
+  }
+}
+
+const date = z.coerce.date();
+
+export const transportModeSchema = z.enum([
+  'walk',
+  'bicycle',
+  'motorcycle',
+  'car',
+  'bus',
+  'train',
+  'metro',
+  'auto_rickshaw',
+  'taxi',
+  'shared_taxi',
+  'other'
+]);
+
+export const tripPurposeSchema = z.enum([
+  'work',
+  'education',
+  'shopping',
+  'medical',
+  'social',
+  'leisure',
+  'religious',
+  'business',
+  'return_home',
+  'other'
+]);
+
+export const tripStatusSchema = z.enum(['planned', 'active', 'completed', 'cancelled']);
+
+export const locationSourceSchema = z.enum(['gps', 'manual', 'geocoded']);
+
+export const addressComponentsSchema: z.ZodType<AddressComponents, z.ZodTypeDef, unknown> = z.object({
+  landmark: z.string().optional(),
+  locality: z.string().optional(),
+  taluk: z.string().optional(),
+  district: z.string().optional(),
+  state: z.string(),
+  country: z.string()
+});
+
+export const locationSchema: z.ZodType<Location, z.ZodTypeDef, unknown> = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  address: z.string().optional(),
+  addressComponents: addressComponentsSchema.optional(),
+  savedPlaceId: z.string().optional(),
+  zoneId: z.string().optional(),
+  timestamp: date,
+  source: locationSourceSchema.optional(),
+  accuracy: z.number().optional(),
+  altitude: z.number().optional(),
+  speed: z.number().optional(),
+  heading: z.number().optional()
+});
+
+export const modeInferenceSchema: z.ZodType<ModeInference, z.ZodTypeDef, unknown> = z.object({
+  mode: transportModeSchema,
+  confidence: z.number(),
+  classifier: z.string(),
+  inferredAt: date
+});
+
+export const purposeInferenceSchema: z.ZodType<PurposeInference, z.ZodTypeDef, unknown> = z.object({
+  purpose: tripPurposeSchema,
+  confidence: z.number(),
+  engine: z.string(),
+  reasons: z.array(z.string()),
+  inferredAt: date,
+  accepted: z.boolean().optional()
+});
+
+export const tripStageSchema: z.ZodType<TripStage, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  mode: transportModeSchema,
+  origin: locationSchema,
+  destination: locationSchema.optional(),
+  startTime: date,
+  endTime: date.optional(),
+  waitingTime: z.number().optional(),
+  distance: z.number().optional(),
+  inferredMode: modeInferenceSchema.optional()
+});
+
+export const savedPlaceKindSchema = z.enum(['home', 'work', 'school', 'other']);
+
+export const savedPlaceSchema: z.ZodType<SavedPlace, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: savedPlaceKindSchema,
+  location: locationSchema,
+  radius: z.number(),
+  createdAt: date,
+  updatedAt: date
+});
+
+export const ageGroupSchema = z.enum(['child', 'teen', 'adult', 'senior']);
+
+export const relationshipSchema = z.enum(['self', 'spouse', 'child', 'parent', 'sibling', 'friend', 'colleague', 'other']);
+
+const travelerShape = z.object({
+  id: z.string(),
+  name: z.string(),
+  ageGroup: ageGroupSchema,
+  relationship: relationshipSchema,
+  hasConsent: z.boolean(),
+  createdAt: date
+});
+
+export const travelerSchema: z.ZodType<Traveler, z.ZodTypeDef, unknown> = travelerShape;
+export const travelerPatchSchema: z.ZodType<Partial<Traveler>, z.ZodTypeDef, unknown> = travelerShape.partial();
+
+const tripFieldConflictSchema = z.object({
+  field: z.string(),
+  localValue: z.unknown(),
+  remoteValue: z.unknown(),
+  localRevision: date,
+  remoteRevision: date,
+  detectedAt: date
+}).transform(conflict => ({
+  ...conflict,
+  field: conflict.field as TripField,
+  localValue: conflict.localValue,
+  remoteValue: conflict.remoteValue
+}));
+
+export const tripShape = z.object({
+  id: z.string(),
+  tripNumber: z.number(),
+  status: tripStatusSchema,
+  origin: locationSchema,
+  destination: locationSchema.optional(),
+  waypoints: z.array(locationSchema).optional(),
+  cleanedWaypoints: z.array(locationSchema).optional(),
+  startTime: date,
+  endTime: date.optional(),
+  duration: z.number().optional(),
+  distance: z.number().optional(),
+  averageSpeed: z.number().optional(),
+  mode: transportModeSchema,
+  inferredMode: modeInferenceSchema.optional(),
+  stages: z.array(tripStageSchema).optional(),
+  purpose: tripPurposeSchema,
+  purposeDetail: z.string().optional(),
+  inferredPurpose: purposeInferenceSchema.optional(),
+  primaryTraveler: z.string(),
+  accompanyingTravelers: z.array(z.string()),
+  totalTravelers: z.number(),
+  satisfactionRating: z.number().optional(),
+  notes: z.string().optional(),
+  isPartOfChain: z.boolean().optional(),
+  chainId: z.string().nullable().optional(),
+  chainLinkedByUser: z.boolean().optional(),
+  createdAt: date,
+  updatedAt: date,
+  syncedAt: date.optional(),
+  fieldRevisions: z.record(z.string(), date).optional(),
+  conflicts: z.array(tripFieldConflictSchema).optional()
+});
+
+export const tripSchema: z.ZodType<Trip, z.ZodTypeDef, unknown> = tripShape;
+export const tripPatchSchema: z.ZodType<Partial<Trip>, z.ZodTypeDef, unknown> = tripShape.partial();
+
+export const tripChainSchema: z.ZodType<TripChain, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  userId: z.string(),
+  tripIds: z.array(z.string()),
+  startTime: date,
+  endTime: date.optional(),
+  totalDistance: z.number().optional(),
+  totalDuration: z.number(),
+  primaryPurpose: tripPurposeSchema,
+  createdAt: date
+});
+
+export const userSchema: z.ZodType<User, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  hasDataConsent: z.boolean(),
+  hasLocationConsent: z.boolean(),
+  consentDate: date.optional(),
+  createdAt: date,
+  lastActiveAt: date
+});
+
+export const authSessionSchema: z.ZodType<AuthSession, z.ZodTypeDef, unknown> = z.object({
+  token: z.string(),
+  user: userSchema,
+  expiresAt: date
+});
+
+export const otpChallengeSchema: z.ZodType<OtpChallenge, z.ZodTypeDef, unknown> = z.object({
+  phone: z.string(),
+  expiresAt: date,
+  resendAfter: date
+});
+
+export const consentSchema: z.ZodType<ConsentData, z.ZodTypeDef, unknown> = z.object({
+  userId: z.string(),
+  dataCollection: z.boolean(),
+  locationTracking: z.boolean(),
+  dataSharing: z.boolean(),
+  researchParticipation: z.boolean(),
+  marketingCommunications: z.boolean(),
+  consentDate: date,
+  ipAddress: z.string().optional(),
+  userAgent: z.string().optional()
+});
+
+export const appSettingsSchema: z.ZodType<AppSettings, z.ZodTypeDef, unknown> = z.object({
+  autoDetectLocation: z.boolean(),
+  backgroundTracking: z.boolean(),
+  notificationsEnabled: z.boolean(),
+  dataRetentionDays: z.number(),
+  syncFrequency: z.enum(['manual', 'daily', 'weekly']),
+  theme: z.enum(['light', 'dark', 'system'])
+});
+
+export const quarantinedRecordSchema: z.ZodType<QuarantinedRecord, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  source: z.enum(['trips', 'travelers', 'settings']),
+  recordId: z.string(),
+  payload: z.unknown(),
+  schemaVersion: z.number(),
+  error: z.string(),
+  quarantinedAt: date
+}).transform(record => ({ ...record, payload: record.payload }));
+
+export const outboxEntrySchema: z.ZodType<OutboxEntry, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  tripId: z.string(),
+  operation: z.enum(['create', 'update', 'delete']),
+  payload: tripPatchSchema.optional(),
+  createdAt: date,
+  attempts: z.number(),
+  nextAttemptAt: date,
+  lastError: z.string().optional(),
+  failed: z.boolean().optional()
+});
+
+export const draftTripSchema: z.ZodType<DraftTrip, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  origin: locationSchema,
+  destination: locationSchema,
+  startTime: date,
+  endTime: date,
+  waypoints: z.array(locationSchema),
+  detectedAt: date
+});
+
+export const zoneLevelSchema = z.enum(ZONE_LEVELS as [ZoneLevel, ...ZoneLevel[]]);
+
+export const timeBandSchema = z.enum(['am_peak', 'inter_peak', 'pm_peak', 'off_peak']);
+
+export const odMatrixSchema: z.ZodType<ODMatrix, z.ZodTypeDef, unknown> = z.object({
+  zoneLevel: zoneLevelSchema,
+  timeBand: timeBandSchema.optional(),
+  zones: z.array(z.object({ id: z.string(), name: z.string() })),
+  cells: z.array(z.object({ origin: z.string(), destination: z.string(), trips: z.number().int().nonnegative() })),
+  originTotals: z.record(z.number()),
+  destinationTotals: z.record(z.number()),
+  total: z.number().int().nonnegative()
+});
+
+export function toCodecIssues(error: z.ZodError): CodecIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.'),
+    message: issue.message
+  }));
+}
+
+/**
+ * Parse `value` with `schema`, throwing a CodecError describing every issue
+ */
+export function decode<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, value: unknown, entity: string): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new CodecError(entity, toCodecIssues(result.error));
+  }
+  return result.data;
+}
+
+export const decodeDate = (value: unknown) => decode(date, value, 'date');
+export const decodeLocation = (value: unknown) => decode(locationSchema, value, 'location');
+export const decodeTraveler = (value: unknown) => decode(travelerSchema, value, 'traveler');
+export const decodeTrip = (value: unknown) => decode(tripSchema, value, 'trip');
+export const decodeTripPatch = (value: unknown) => decode(tripPatchSchema, value, 'trip update');
+export const decodeTravelerPatch = (value: unknown) => decode(travelerPatchSchema, value, 'traveler update');
+export const decodeTripChain = (value: unknown) => decode(tripChainSchema, value, 'trip chain');
+export const decodeUser = (value: unknown) => decode(userSchema, value, 'user');
+export const decodeAuthSession = (value: unknown) => decode(authSessionSchema, value, 'session');
+export const decodeOtpChallenge = (value: unknown) => decode(otpChallengeSchema, value, 'verification code request');
+export const decodeConsent = (value: unknown) => decode(consentSchema, value, 'consent');
+export const decodeSettings = (value: unknown) => decode(appSettingsSchema, value, 'settings');
+export const decodeOutboxEntry = (value: unknown) => decode(outboxEntrySchema, value, 'outbox entry');
+export const decodeQuarantinedRecord = (value: unknown) => decode(quarantinedRecordSchema, value, 'quarantined record');
+export const decodeDraftTrips = (value: unknown) => decode(z.array(draftTripSchema), value, 'detected trips');
+export const decodeSavedPlaces = (value: unknown) => decode(z.array(savedPlaceSchema), value, 'saved places');
+export const decodeODMatrix = (value: unknown) => decode(odMatrixSchema, value, 'OD matrix');
+
@@ -0,0 +1,79 @@
+// Completed-trip enrichment for NATPAC Travel Data Collection App
+//
+// A completed trip carries what can be worked out once it has ended: its
+// stages closed and measured, a cleaned copy of the trace, a mode
+// suggestion, distance and speed, and the zones of both ends. The lifecycle
+// (./lifecycle) only decides whether a status change is allowed; every
+// write to a trip that is, or is becoming, completed then goes through
+// enrichCompletedTrip, which redoes whatever the write affects.
+
+import { Trip } from './types';
+import { measureTrip } from './trace';
+import { inferMode } from './classifier';
+import { cleanTripTrace, finishStages, getMainMode } from './stages';
+import { assignZone } from './zones';
+
+/**
+ * `changes` (as checked by applyTransition) with what they imply for a
+ * completed trip added. Values the changes set themselves are kept, and
+ * changes to a trip in any other state are returned as they are.
+ */
+export function enrichCompletedTrip(trip: Trip, changes: Partial<Trip>, at: Date = new Date()): Partial<Trip> {
+  const status = changes.status ?? trip.status;
+  if (status !== 'completed') return changes;
+
+  const completing = trip.status !== 'completed';
+  const enriched: Partial<Trip> = { ...changes };
+  const next: Trip = { ...trip, ...changes };
+
+  // The last stage ends where the trip does; the trip's mode becomes the
+  // main mode unless the changes name one
+  const stagesChanged = completing || changes.waypoints !== undefined || changes.stages !== undefined ||
+    changes.destination !== undefined || changes.endTime !== undefined;
+  if (stagesChanged && next.stages && next.stages.length > 0) {
+    enriched.stages = finishStages(next, at);
+    next.stages = enriched.stages;
+    if (changes.mode === undefined) {
+      enriched.mode = getMainMode(enriched.stages);
+      next.mode = enriched.mode;
+    }
+  }
+
+  // The cleaned trace is redone if late waypoints arrive or a mode (and so
+  // the cleaning profile) changes
+  const traceChanged = completing || changes.waypoints !== undefined || enriched.mode !== undefined ||
+    enriched.stages !== undefined;
+  if (traceChanged && changes.cleanedWaypoints === undefined && next.waypoints) {
+    enriched.cleanedWaypoints = cleanTripTrace(next);
+    next.cleanedWaypoints = enriched.cleanedWaypoints;
+  }
+
+  // The mode suggestion only depends on the raw trace, not on the mode chosen
+  const waypointsChanged = completing || changes.waypoints !== undefined;
+  if (waypointsChanged && changes.inferredMode === undefined && next.waypoints) {
+    const inference = inferMode(next.waypoints, at);
+    if (inference) enriched.inferredMode = inference;
+  }
+
+  const routeChanged = traceChanged || changes.startTime !== undefined || changes.endTime !== undefined ||
+    changes.origin !== undefined || changes.destination !== undefined || enriched.cleanedWaypoints !== undefined;
+  if (routeChanged && changes.distance === undefined) {
+    Object.assign(enriched, measureTrip(next));
+  }
+
+  // Completed trips are counted by zone, so both ends carry the one they lie in
+  const endsChanged = completing || changes.origin !== undefined || changes.destination !== undefined;
+  if (endsChanged) {
+    (['origin', 'destination'] as const).forEach(end => {
+      const location = next[end];
+      if (!location) return;
+      const zoned = assignZone(location);
+      if (zoned.zoneId !== location.zoneId) {
+        enriched[end] = zoned;
+        next[end] = zoned;
+      }
+    });
+  }
+
+  return enriched;
+}
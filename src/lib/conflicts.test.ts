@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { Trip } from './types';
+import { applyTripUpdates, mergeTrips, swapConflictSides } from './conflicts';
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 2, 1, 8, minutes));
+
+// Both copies start from the same synced trip
+const base: Trip = {
+  id: 'trip_1',
+  tripNumber: 1,
+  status: 'planned',
+  origin: { latitude: 8.5241, longitude: 76.9366, timestamp: at(0) },
+  startTime: at(0),
+  mode: 'bus',
+  purpose: 'work',
+  primaryTraveler: 'user_1',
+  accompanyingTravelers: [],
+  totalTravelers: 1,
+  createdAt: at(0),
+  updatedAt: at(0)
+};
+
+const synced = at(1);
+
+describe('applyTripUpdates', () => {
+  it('stamps a revision for each field written, keeping revisions sent by another device', () => {
+    const trip = applyTripUpdates(base, { notes: 'hi', purpose: 'shopping', fieldRevisions: { purpose: at(2) } }, at(5));
+
+    expect(trip.fieldRevisions).toEqual({ notes: at(5), purpose: at(2) });
+    expect(trip.updatedAt).toEqual(at(5));
+  });
+});
+
+describe('mergeTrips', () => {
+  it('takes each field from the side that changed it last', () => {
+    const local = applyTripUpdates(base, { notes: 'local' }, at(5));
+    const remote = applyTripUpdates(base, { purpose: 'shopping' }, at(6));
+
+    const { merged, conflicts } = mergeTrips(local, remote, synced);
+
+    expect(merged).toMatchObject({ notes: 'local', purpose: 'shopping', updatedAt: at(6) });
+    expect(conflicts).toEqual([]);
+    expect(merged.conflicts).toBeUndefined();
+  });
+
+  it('flags a field both sides changed differently, keeping the later value for now', () => {
+    const local = applyTripUpdates(base, { purpose: 'shopping' }, at(5));
+    const remote = applyTripUpdates(base, { purpose: 'education' }, at(6));
+
+    const { merged, conflicts } = mergeTrips(local, remote, synced);
+
+    expect(merged.purpose).toBe('education');
+    expect(conflicts).toEqual([
+      expect.objectContaining({ field: 'purpose', localValue: 'shopping', remoteValue: 'education' })
+    ]);
+    expect(merged.conflicts).toHaveLength(1);
+  });
+
+  it('treats nothing as concurrent without a common point', () => {
+    const local = applyTripUpdates(base, { purpose: 'shopping' }, at(5));
+    const remote = applyTripUpdates(base, { purpose: 'education' }, at(6));
+
+    expect(mergeTrips(local, remote).conflicts).toEqual([]);
+  });
+
+  it('moves status along the lifecycle without asking', () => {
+    const local = applyTripUpdates(base, { status: 'active' }, at(6));
+    const remote = applyTripUpdates(base, { status: 'cancelled' }, at(5));
+
+    const { merged, conflicts } = mergeTrips(local, remote, synced);
+
+    expect(merged.status).toBe('cancelled');
+    expect(merged.fieldRevisions!.status).toEqual(at(6));
+    expect(conflicts).toEqual([]);
+  });
+
+  it('asks when one copy was completed and the other cancelled', () => {
+    const local = applyTripUpdates(base, { status: 'completed' }, at(5));
+    const remote = applyTripUpdates(base, { status: 'cancelled' }, at(6));
+
+    expect(mergeTrips(local, remote, synced).conflicts.map(conflict => conflict.field)).toEqual(['status']);
+  });
+
+  it('keeps travelers added on either side and recounts them', () => {
+    const local = applyTripUpdates(base, { accompanyingTravelers: ['traveler_b'] }, at(5));
+    const remote = applyTripUpdates(base, { accompanyingTravelers: ['traveler_a'] }, at(6));
+
+    const { merged, conflicts } = mergeTrips(local, remote, synced);
+
+    expect(merged.accompanyingTravelers).toEqual(['traveler_a', 'traveler_b']);
+    expect(merged.totalTravelers).toBe(3);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('closes a conflict once its field is written again', () => {
+    const local = applyTripUpdates(base, { purpose: 'shopping' }, at(5));
+    const remote = applyTripUpdates(base, { purpose: 'education' }, at(6));
+    const { merged } = mergeTrips(local, remote, synced);
+    const detectedAt = new Date(merged.conflicts![0].detectedAt);
+
+    const resolved = applyTripUpdates(merged, { purpose: 'shopping' }, new Date(detectedAt.getTime() + 1000));
+
+    expect(mergeTrips(resolved, remote, synced).merged.conflicts).toBeUndefined();
+  });
+});
+
+describe('swapConflictSides', () => {
+  it('turns the server\'s view of a conflict into the sender\'s', () => {
+    const local = applyTripUpdates(base, { purpose: 'shopping' }, at(5));
+    const remote = applyTripUpdates(base, { purpose: 'education' }, at(6));
+    const [conflict] = mergeTrips(local, remote, synced).conflicts;
+
+    expect(swapConflictSides([conflict])).toEqual([{
+      ...conflict,
+      localValue: 'education',
+      remoteValue: 'shopping',
+      localRevision: at(6),
+      remoteRevision: at(5)
+    }]);
+  });
+});
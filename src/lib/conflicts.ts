@@ -0,0 +1,181 @@
+// Field-level conflict detection and merging for trips edited on two devices
+//
+// Every change to a trip field stamps fieldRevisions[field]. When two copies
+// of a trip meet, each field goes to the side with the later revision. If
+// both sides changed the same field since they last agreed (`since`, usually
+// the local syncedAt) and ended up with different values, that is a
+// conflict: a few fields have an automatic policy, the rest keep the later
+// value provisionally and are flagged for the user to review.
+
+import { Trip, TripField, TripFieldConflict, TripMetaField, TripStatus } from './types';
+import { measureTrip } from './trace';
+import { inferMode } from './classifier';
+import { cleanTripTrace, finishStages } from './stages';
+
+const META_FIELDS: TripMetaField[] = [
+  'id',
+  'tripNumber',
+  'primaryTraveler',
+  'createdAt',
+  'updatedAt',
+  'syncedAt',
+  'fieldRevisions',
+  'conflicts'
+];
+
+// Further along the lifecycle wins; completed vs cancelled needs a human
+const STATUS_RANK: Record<TripStatus, number> = {
+  planned: 0,
+  active: 1,
+  completed: 2,
+  cancelled: 2
+};
+
+type AutoResolver = (local: unknown, remote: unknown) => { value: unknown } | null;
+
+const union = (local: unknown, remote: unknown, key: (item: unknown) => string) => {
+  const items = new Map<string, unknown>();
+  [...(Array.isArray(local) ? local : []), ...(Array.isArray(remote) ? remote : [])]
+    .forEach(item => items.set(key(item), item));
+  return Array.from(items.values());
+};
+
+const AUTO_RESOLVERS: Partial<Record<TripField, AutoResolver>> = {
+  status: (local, remote) => {
+    const localRank = STATUS_RANK[local as TripStatus];
+    const remoteRank = STATUS_RANK[remote as TripStatus];
+    if (localRank === remoteRank) return null;
+    return { value: localRank > remoteRank ? local : remote };
+  },
+  accompanyingTravelers: (local, remote) => ({
+    value: union(local, remote, id => String(id)).sort()
+  }),
+  waypoints: (local, remote) => ({
+    value: union(local, remote, point => new Date((point as { timestamp: Date }).timestamp).toISOString())
+      .sort((a, b) =>
+        new Date((a as { timestamp: Date }).timestamp).getTime() -
+        new Date((b as { timestamp: Date }).timestamp).getTime()
+      )
+  }),
+  // Derived from the trace; redone from the merged trip in mergeTrips
+  cleanedWaypoints: local => ({ value: local }),
+  distance: local => ({ value: local }),
+  averageSpeed: local => ({ value: local }),
+  inferredMode: local => ({ value: local }),
+  // A record of what was suggested, not the user's answer; either copy will do
+  inferredPurpose: local => ({ value: local })
+};
+
+const isTripField = (key: string): key is TripField =>
+  !(META_FIELDS as string[]).includes(key);
+
+export function getTripFields(trip: Partial<Trip>): TripField[] {
+  return Object.keys(trip).filter(isTripField);
+}
+
+export function getFieldRevision(trip: Trip, field: TripField): Date {
+  return new Date(trip.fieldRevisions?.[field] ?? trip.createdAt);
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Apply `updates` to a trip, stamping a revision for every field written.
+ * Revisions carried in the updates (from another device) are kept as-is.
+ */
+export function applyTripUpdates(trip: Trip, updates: Partial<Trip>, at: Date): Trip {
+  const fieldRevisions = { ...trip.fieldRevisions };
+  getTripFields(updates).forEach(field => {
+    fieldRevisions[field] = updates.fieldRevisions?.[field] ?? at;
+  });
+
+  return { ...trip, ...updates, fieldRevisions, updatedAt: at };
+}
+
+/**
+ * Merge two copies of the same trip. `since` is when they last agreed;
+ * without it nothing is treated as concurrent and later revisions win.
+ */
+export function mergeTrips(
+  local: Trip,
+  remote: Trip,
+  since?: Date
+): { merged: Trip; conflicts: TripFieldConflict[] } {
+  const now = new Date();
+  const merged: Trip = { ...local };
+  const fieldRevisions: Partial<Record<TripField, Date>> = {};
+  const conflicts: TripFieldConflict[] = [];
+  const fields = new Set([...getTripFields(local), ...getTripFields(remote)]);
+
+  fields.forEach(field => {
+    const localValue = local[field];
+    const remoteValue = remote[field];
+    const localRevision = getFieldRevision(local, field);
+    const remoteRevision = getFieldRevision(remote, field);
+    const later = remoteRevision > localRevision ? 'remote' : 'local';
+
+    let value: unknown = later === 'remote' ? remoteValue : localValue;
+    let revision = later === 'remote' ? remoteRevision : localRevision;
+
+    const concurrent = since !== undefined && localRevision > since && remoteRevision > since;
+    if (concurrent && !sameValue(localValue, remoteValue)) {
+      const resolved = AUTO_RESOLVERS[field]?.(localValue, remoteValue);
+      if (resolved) {
+        value = resolved.value;
+        revision = localRevision > remoteRevision ? localRevision : remoteRevision;
+      } else {
+        conflicts.push({ field, localValue, remoteValue, localRevision, remoteRevision, detectedAt: now });
+      }
+    }
+
+    (merged as unknown as Record<string, unknown>)[field] = value;
+    fieldRevisions[field] = revision;
+  });
+
+  merged.fieldRevisions = fieldRevisions;
+  merged.totalTravelers = 1 + (merged.accompanyingTravelers?.length ?? 0);
+  if (merged.status === 'completed' && merged.waypoints && !sameValue(local.waypoints, remote.waypoints)) {
+    if (merged.stages && merged.stages.length > 0) merged.stages = finishStages(merged, now);
+    merged.cleanedWaypoints = cleanTripTrace(merged);
+    Object.assign(merged, measureTrip(merged));
+    merged.inferredMode = inferMode(merged.waypoints, now) ?? merged.inferredMode;
+  }
+  merged.updatedAt = local.updatedAt > remote.updatedAt ? local.updatedAt : remote.updatedAt;
+  merged.conflicts = combineConflicts(merged, [...(local.conflicts ?? []), ...conflicts]);
+  if (merged.conflicts.length === 0) merged.conflicts = undefined;
+
+  return { merged, conflicts };
+}
+
+/**
+ * The same conflicts as the other copy's owner sees them: their side is
+ * local. The server reports the conflicts it finds this way, so the device
+ * that sent the edit can record them for review.
+ */
+export function swapConflictSides(conflicts: TripFieldConflict[]): TripFieldConflict[] {
+  return conflicts.map(conflict => ({
+    ...conflict,
+    localValue: conflict.remoteValue,
+    remoteValue: conflict.localValue,
+    localRevision: conflict.remoteRevision,
+    remoteRevision: conflict.localRevision
+  }));
+}
+
+/**
+ * One open conflict per field (latest detection wins). A conflict closes
+ * once its field has been written after the conflict was detected.
+ */
+function combineConflicts(trip: Trip, conflicts: TripFieldConflict[]): TripFieldConflict[] {
+  const byField = new Map<TripField, TripFieldConflict>();
+  conflicts.forEach(conflict => {
+    const existing = byField.get(conflict.field);
+    if (!existing || new Date(conflict.detectedAt) >= new Date(existing.detectedAt)) {
+      byField.set(conflict.field, conflict);
+    }
+  });
+
+  return Array.from(byField.values()).filter(
+    conflict => getFieldRevision(trip, conflict.field) <= new Date(conflict.detectedAt)
+  );
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes only fields that need it and ends every line with CRLF', () => {
+    expect(toCsv([['a', 'b,c', 'say "hi"', 'two\nlines'], [1, true, null, undefined]])).toBe(
+      'a,"b,c","say ""hi""","two\nlines"\r\n1,true,,\r\n'
+    );
+  });
+
+  it('keeps spreadsheets from reading text as a formula', () => {
+    expect(toCsv([['=HYPERLINK("x")', '+91 98765', '-2', '@SUM(A1)', 'a=b']])).toBe(
+      `"'=HYPERLINK(""x"")",'+91 98765,'-2,'@SUM(A1),a=b\r\n`
+    );
+  });
+
+  it('leaves negative numbers as numbers', () => {
+    expect(toCsv([[-76.9366, 0]])).toBe('-76.9366,0\r\n');
+  });
+});
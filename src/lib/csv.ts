@@ -0,0 +1,22 @@
+// CSV writing for NATPAC Travel Data Collection App
+//
+// Researchers open exports in spreadsheets and R, so files follow RFC 4180:
+// comma-separated, CRLF line ends, and fields quoted only when they hold a
+// comma, quote or line break. Text that a spreadsheet would read as a formula
+// is prefixed with ' so opening an export never runs what a respondent typed.
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Numbers are left alone, so a negative coordinate stays a number
+const neutralize = (text: string) => (/^[=+\-@]/.test(text) ? `'${text}` : text);
+
+// Missing values are empty fields, not "undefined"
+function toField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? neutralize(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(toField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,113 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Location, Trip } from './types';
+import { storageService } from './storage';
+import { geolocationService } from './geolocation';
+import { TripDetector } from './detector';
+
+const METRE = 1 / 111195; // degrees of latitude
+const MINUTE = 60 * 1000;
+const start = Date.UTC(2024, 2, 1, 8, 0);
+
+// A fix `north` metres north of home, `minutes` into the morning
+const fix = (minutes: number, north: number, accuracy = 10): Location => ({
+  latitude: 8.5 + north * METRE,
+  longitude: 76.9,
+  accuracy,
+  timestamp: new Date(start + minutes * MINUTE)
+});
+
+// Six minutes in one place, a fix a minute
+const stay = (from: number, north: number) => Array.from({ length: 7 }, (_, i) => fix(from + i, north));
+
+let detector: TripDetector;
+let observe: (location: Location) => void;
+
+const follow = (fixes: Location[]) => fixes.forEach(location => observe(location));
+
+beforeEach(async () => {
+  await storageService.init();
+  storageService.clearAllData();
+  vi.spyOn(geolocationService, 'watchPosition').mockImplementation(callback => {
+    observe = callback;
+    return () => {};
+  });
+  detector = new TripDetector();
+  detector.start();
+});
+
+afterEach(() => {
+  detector.stop();
+  vi.restoreAllMocks();
+});
+
+describe('TripDetector', () => {
+  it('saves the movement between two dwells as a draft trip', () => {
+    const journey = [fix(7, 300), fix(8, 700), fix(9, 1100)];
+    follow([...stay(0, 0), ...journey, ...stay(10, 1500)]);
+
+    const [draft] = storageService.getDraftTrips();
+    expect(storageService.getDraftTrips()).toHaveLength(1);
+    expect(draft.startTime).toEqual(new Date(start + 6 * MINUTE));
+    expect(draft.endTime).toEqual(new Date(start + 10 * MINUTE));
+    expect(draft.origin.latitude).toBeCloseTo(8.5, 6);
+    expect(draft.destination.latitude).toBeCloseTo(8.5 + 1500 * METRE, 6);
+    expect(draft.waypoints.map(point => point.timestamp)).toEqual(journey.map(point => point.timestamp));
+    expect(detector.getState()).toMatchObject({ running: true, moving: false });
+  });
+
+  it('reports movement once the device leaves a dwell', () => {
+    follow([...stay(0, 0), fix(7, 300)]);
+
+    expect(detector.getState().moving).toBe(true);
+  });
+
+  it('ignores a short stop on the way', () => {
+    follow([...stay(0, 0), fix(7, 500), fix(8, 1000), fix(9, 1000), fix(10, 1500), ...stay(11, 2000)]);
+
+    expect(storageService.getDraftTrips()).toHaveLength(1);
+  });
+
+  it('treats drift within a few hundred metres as staying put', () => {
+    follow([...stay(0, 0), fix(7, 150), ...stay(8, 150)]);
+
+    expect(storageService.getDraftTrips()).toEqual([]);
+  });
+
+  it('skips fixes too inaccurate to place', () => {
+    follow([...stay(0, 0), fix(7, 3000, 500), fix(8, 0)]);
+
+    expect(detector.getState().moving).toBe(false);
+  });
+
+  it('snaps dwells to the saved place they fall within', () => {
+    storageService.saveSavedPlace({
+      id: 'place_home',
+      name: 'Home',
+      kind: 'home',
+      location: fix(0, 20),
+      radius: 100,
+      createdAt: new Date(start),
+      updatedAt: new Date(start)
+    });
+    follow([...stay(0, 0), fix(7, 700), ...stay(8, 1500)]);
+
+    expect(storageService.getDraftTrips()[0].origin).toMatchObject({ savedPlaceId: 'place_home', address: 'Home' });
+  });
+
+  it('leaves movement to a trip being recorded by hand', () => {
+    follow(stay(0, 0));
+    vi.spyOn(storageService, 'getActiveTrip').mockReturnValue({ id: 'trip_1' } as Trip);
+    follow([fix(7, 700), ...stay(8, 1500)]);
+
+    expect(storageService.getDraftTrips()).toEqual([]);
+  });
+
+  it('drops a draft once it has been dealt with', () => {
+    follow([...stay(0, 0), fix(7, 700), ...stay(8, 1500)]);
+    const [draft] = storageService.getDraftTrips();
+
+    expect(detector.dismiss(draft.id)).toBe(true);
+    expect(detector.getState().drafts).toEqual([]);
+  });
+});
@@ -0,0 +1,202 @@
+// Automatic trip detection for NATPAC Travel Data Collection App
+//
+// Respondents often forget to start a trip. While the app is open (and the
+// user allows it in settings) the detector follows the device looking for
+// dwells: fixes that stay within DWELL_RADIUS of each other for at least
+// DWELL_TIME. Leaving a dwell starts a possible trip, settling into a new
+// one ends it, and the movement in between is saved as a draft trip for
+// the user to confirm with a mode and purpose. Dwells within a saved place
+// are recorded at that place. Nothing is detected while a trip is being
+// recorded by hand.
+
+import { DetectorState, DraftTrip, Location } from './types';
+import { storageService } from './storage';
+import { GeolocationService, geolocationService } from './geolocation';
+import { snapToSavedPlace } from './places';
+
+type DetectorListener = (state: DetectorState) => void;
+
+// A run of fixes close together in space; becomes a dwell once it lasts
+interface Cluster {
+  latitude: number;
+  longitude: number;
+  count: number;
+  since: Date; // first fix
+  until: Date; // latest fix
+}
+
+const MAX_ACCURACY = 100; // metres
+const DWELL_RADIUS = 0.1; // km
+const DWELL_TIME = 5 * 60 * 1000; // 5 minutes
+const MIN_TRIP_DISTANCE = 0.2; // km between dwells, or it was GPS drift
+
+export class TripDetector {
+  private static instance: TripDetector;
+  private stopWatch: (() => void) | null = null;
+  private dwell: Cluster | null = null; // where the device is, or last was, staying
+  private candidate: Cluster | null = null; // may become the next dwell
+  private trace: Location[] = []; // fixes since leaving the dwell
+  private error: string | null = null;
+  private listeners = new Set<DetectorListener>();
+
+  static getInstance(): TripDetector {
+    if (!TripDetector.instance) {
+      TripDetector.instance = new TripDetector();
+    }
+    return TripDetector.instance;
+  }
+
+  subscribe(listener: DetectorListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  getState(): DetectorState {
+    return {
+      running: this.stopWatch !== null,
+      moving: this.trace.length > 0,
+      drafts: storageService.getDraftTrips(),
+      error: this.error
+    };
+  }
+
+  /**
+   * Start following the device. Safe to call repeatedly.
+   */
+  start(): boolean {
+    if (this.stopWatch) return true;
+
+    this.stopWatch = geolocationService.watchPosition(
+      (location) => this.observe(location),
+      (error) => {
+        this.error = error;
+        this.notify();
+      }
+    );
+    this.error = this.stopWatch ? null : 'Location tracking is not supported on this device';
+    this.notify();
+    return this.stopWatch !== null;
+  }
+
+  /**
+   * Stop following the device and forget any trip in progress
+   */
+  stop(): void {
+    if (!this.stopWatch) return;
+
+    this.stopWatch();
+    this.stopWatch = null;
+    this.reset();
+    this.notify();
+  }
+
+  /**
+   * Drop a draft the user has confirmed as a trip or rejected
+   */
+  dismiss(draftId: string): boolean {
+    const removed = storageService.removeDraftTrip(draftId);
+    if (removed) this.notify();
+    return removed;
+  }
+
+  private reset(): void {
+    this.dwell = null;
+    this.candidate = null;
+    this.trace = [];
+  }
+
+  private observe(location: Location): void {
+    this.error = null;
+    if (location.accuracy !== undefined && location.accuracy > MAX_ACCURACY) return;
+
+    // A trip recorded by hand covers this movement; start afresh once it ends
+    if (storageService.getActiveTrip()) {
+      if (this.dwell || this.candidate) {
+        this.reset();
+        this.notify();
+      }
+      return;
+    }
+
+    const wasMoving = this.trace.length > 0;
+
+    if (this.dwell && !wasMoving) {
+      if (isWithin(this.dwell, location)) {
+        extend(this.dwell, location);
+        return;
+      }
+      // Departure
+      this.trace = [location];
+      this.candidate = startCluster(location);
+      this.notify();
+      return;
+    }
+
+    if (wasMoving) this.trace.push(location);
+
+    if (this.candidate && isWithin(this.candidate, location)) {
+      extend(this.candidate, location);
+    } else {
+      this.candidate = startCluster(location);
+    }
+
+    if (this.candidate.until.getTime() - this.candidate.since.getTime() < DWELL_TIME) return;
+
+    if (this.dwell) {
+      this.arrive(this.dwell, this.candidate);
+    }
+    this.dwell = this.candidate;
+    this.candidate = null;
+    this.trace = [];
+    this.notify();
+  }
+
+  private arrive(origin: Cluster, destination: Cluster): void {
+    const places = storageService.getSavedPlaces();
+    const from = snapToSavedPlace(toLocation(origin, origin.until), places);
+    const to = snapToSavedPlace(toLocation(destination, destination.since), places);
+    if (GeolocationService.calculateDistance(from, to) < MIN_TRIP_DISTANCE) return;
+
+    const draft: DraftTrip = {
+      id: `draft_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      origin: from,
+      destination: to,
+      startTime: origin.until,
+      endTime: destination.since,
+      waypoints: this.trace.filter(point => new Date(point.timestamp) < destination.since),
+      detectedAt: new Date()
+    };
+    storageService.saveDraftTrip(draft);
+  }
+}
+
+function startCluster(location: Location): Cluster {
+  const at = new Date(location.timestamp);
+  return { latitude: location.latitude, longitude: location.longitude, count: 1, since: at, until: at };
+}
+
+function isWithin(cluster: Cluster, location: Location): boolean {
+  return GeolocationService.calculateDistance(toLocation(cluster, cluster.until), location) <= DWELL_RADIUS;
+}
+
+// The centre follows the running mean of the cluster's fixes
+function extend(cluster: Cluster, location: Location): void {
+  cluster.latitude = (cluster.latitude * cluster.count + location.latitude) / (cluster.count + 1);
+  cluster.longitude = (cluster.longitude * cluster.count + location.longitude) / (cluster.count + 1);
+  cluster.count++;
+  cluster.until = new Date(location.timestamp);
+}
+
+function toLocation(cluster: Cluster, timestamp: Date): Location {
+  return { latitude: cluster.latitude, longitude: cluster.longitude, timestamp, source: 'gps' };
+}
+
+// Singleton instance
+export const tripDetector = TripDetector.getInstance();
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Location, Trip } from './types';
+import { EXPORT_SCHEMA_VERSION, getExportFilename, stagesToCsv, TRIP_COLUMNS, tripsToCsv, tripsToGeoJSON, tripsToGpx } from './export';
+
+const start = new Date('2024-03-01T03:00:00.000Z');
+
+const fix = (minutes: number): Location => ({
+  latitude: 8.5241 + minutes * 0.001,
+  longitude: 76.9366,
+  timestamp: new Date(start.getTime() + minutes * 60 * 1000)
+});
+
+const makeTrip = (overrides: Partial<Trip> = {}): Trip => ({
+  id: 'trip_1',
+  tripNumber: 3,
+  status: 'completed',
+  origin: fix(0),
+  destination: fix(20),
+  startTime: start,
+  endTime: fix(20).timestamp,
+  mode: 'bus',
+  purpose: 'work',
+  primaryTraveler: 'user_1',
+  accompanyingTravelers: [],
+  totalTravelers: 1,
+  cleanedWaypoints: [fix(0), fix(10), fix(20)],
+  createdAt: start,
+  updatedAt: start,
+  ...overrides
+});
+
+const parse = (csv: string) => csv.trimEnd().split('\r\n').map(line => line.split(','));
+
+describe('CSV export', () => {
+  it('writes a header and a row per trip in column order', () => {
+    const [header, row] = parse(tripsToCsv([makeTrip()]));
+    const cell = (name: string) => row[header.indexOf(name)];
+
+    expect(header).toEqual(TRIP_COLUMNS.map(column => column.name));
+    expect(cell('schema_version')).toBe(String(EXPORT_SCHEMA_VERSION));
+    expect(cell('trip_id')).toBe('trip_1');
+    expect(cell('start_time')).toBe('2024-03-01T03:00:00.000Z');
+    expect(cell('modes')).toBe('bus');
+    expect(cell('purpose_detail')).toBe('');
+  });
+
+  it('neutralizes formulas typed into free-text fields', () => {
+    const [header, row] = parse(tripsToCsv([makeTrip({ purposeDetail: '=1+1' })]));
+
+    expect(row[header.indexOf('purpose_detail')]).toBe("'=1+1");
+  });
+
+  it('writes a row per stage', () => {
+    const trip = makeTrip({
+      mode: 'bus',
+      stages: [
+        { id: 'stage_1', mode: 'walk', origin: fix(0), destination: fix(5), startTime: fix(0).timestamp, endTime: fix(5).timestamp },
+        { id: 'stage_2', mode: 'bus', origin: fix(5), destination: fix(20), startTime: fix(7).timestamp, endTime: fix(20).timestamp, waitingTime: 2 }
+      ]
+    });
+    const [header, ...rows] = parse(stagesToCsv([trip]));
+
+    expect(rows.map(row => [row[header.indexOf('stage_number')], row[header.indexOf('mode')]])).toEqual([
+      ['1', 'walk'],
+      ['2', 'bus']
+    ]);
+    expect(rows[1][header.indexOf('waiting_min')]).toBe('2');
+  });
+});
+
+describe('tripsToGeoJSON', () => {
+  it('gives each trip origin, destination and trace features in lon/lat order', () => {
+    const collection = JSON.parse(tripsToGeoJSON([makeTrip()]));
+
+    expect(collection).toMatchObject({ type: 'FeatureCollection', schemaVersion: EXPORT_SCHEMA_VERSION });
+    expect(collection.features.map((feature: { properties: { feature: string } }) => feature.properties.feature))
+      .toEqual(['origin', 'destination', 'trace']);
+    expect(collection.features[0].geometry.coordinates).toEqual([76.9366, 8.5241]);
+    expect(collection.features[2].geometry.coordinates).toHaveLength(3);
+    expect(collection.features[0].properties).toMatchObject({ trip_id: 'trip_1', purpose_detail: null });
+  });
+
+  it('leaves out the trace when there is nothing to draw', () => {
+    const collection = JSON.parse(tripsToGeoJSON([makeTrip({ destination: undefined, cleanedWaypoints: [fix(0)] })]));
+
+    expect(collection.features).toHaveLength(1);
+  });
+});
+
+describe('tripsToGpx', () => {
+  it('writes a track per trip and escapes its description', () => {
+    const gpx = tripsToGpx([makeTrip({ id: 'trip_<1>' }), makeTrip({ id: 'trip_2', cleanedWaypoints: [] })], start);
+
+    expect(gpx.match(/<trk>/g)).toHaveLength(1);
+    expect(gpx).toContain('<name>Trip 3</name>');
+    expect(gpx).toContain('trip_&lt;1&gt;');
+    expect(gpx.match(/<trkpt /g)).toHaveLength(3);
+    expect(gpx).toContain('<trkpt lat="8.5241" lon="76.9366"><time>2024-03-01T03:00:00.000Z</time></trkpt>');
+  });
+});
+
+describe('getExportFilename', () => {
+  it('names the rows, schema version and date', () => {
+    expect(getExportFilename('stages_csv', start)).toBe(`natpac_stages_v${EXPORT_SCHEMA_VERSION}_2024-03-01.csv`);
+  });
+});
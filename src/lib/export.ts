@@ -0,0 +1,220 @@
+// Research export for NATPAC Travel Data Collection App
+//
+// Trips leave the app for analysis as flat CSV (a row per trip, or per
+// stage), as a GeoJSON FeatureCollection (origin and destination points and
+// the cleaned trace as a LineString, each carrying the trip's columns) or as
+// GPX tracks (a track per trip, a segment per stage). The same code runs on
+// a respondent's device and in the server's bulk export, so both produce
+// identical files.
+//
+// The columns are the schema. Each has a name and description, and
+// EXPORT_SCHEMA_VERSION is stamped into every file; bump it whenever a
+// column is renamed, removed or changes meaning, so scripts written against
+// one version can tell they are reading another. Adding a column at the end
+// does not need a new version.
+
+import { Location, Trip, TripStage } from './types';
+import { getTraces } from './trace';
+import { getStages, getTotalWaitingTime, getTripModes, splitTrace } from './stages';
+import { getLocationZone } from './zones';
+import { getTimeBand } from './od';
+import { CsvValue, toCsv } from './csv';
+
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export type ExportFormat = 'trips_csv' | 'stages_csv' | 'geojson' | 'gpx';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; contentType: string }> = {
+  trips_csv: { label: 'Trips (CSV)', extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  stages_csv: { label: 'Stages (CSV)', extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  geojson: { label: 'GeoJSON', extension: 'geojson', contentType: 'application/geo+json' },
+  gpx: { label: 'GPX', extension: 'gpx', contentType: 'application/gpx+xml' }
+};
+
+export interface ExportColumn<T> {
+  name: string;
+  description: string;
+  value: (row: T) => CsvValue;
+}
+
+const iso = (date: Date | undefined) => (date ? new Date(date).toISOString() : undefined);
+
+const district = (location: Location | undefined) =>
+  location ? getLocationZone(location, 'district')?.id : undefined;
+
+// Zones are looked up for trips completed before zoning was recorded
+const finestZone = (location: Location | undefined) =>
+  location ? location.zoneId ?? getLocationZone(location, 'taz')?.id : undefined;
+
+export const TRIP_COLUMNS: ExportColumn<Trip>[] = [
+  { name: 'schema_version', description: 'Version of this column schema', value: () => EXPORT_SCHEMA_VERSION },
+  { name: 'trip_id', description: 'Unique trip id', value: trip => trip.id },
+  { name: 'trip_number', description: "Trip's sequence number for its respondent", value: trip => trip.tripNumber },
+  { name: 'respondent_id', description: 'Pseudonymous id of the respondent who recorded the trip', value: trip => trip.primaryTraveler },
+  { name: 'status', description: 'planned, active, completed or cancelled', value: trip => trip.status },
+  { name: 'start_time', description: 'Departure, ISO 8601 in UTC', value: trip => iso(trip.startTime) },
+  { name: 'end_time', description: 'Arrival, ISO 8601 in UTC', value: trip => iso(trip.endTime) },
+  { name: 'time_band', description: 'am_peak, inter_peak, pm_peak or off_peak, by departure in Kerala time', value: trip => getTimeBand(trip.startTime) },
+  { name: 'duration_min', description: 'Door-to-door duration in minutes', value: trip => trip.duration },
+  { name: 'distance_km', description: 'Distance along the cleaned trace in kilometres', value: trip => trip.distance },
+  { name: 'avg_speed_kmh', description: 'Average speed in km/h', value: trip => trip.averageSpeed },
+  { name: 'main_mode', description: "Main mode; the longest stage's on a multimodal trip", value: trip => trip.mode },
+  { name: 'modes', description: 'Every mode used, in order, separated by ;', value: trip => getTripModes(trip).join(';') },
+  { name: 'stage_count', description: 'Number of stages', value: trip => getStages(trip).length },
+  { name: 'waiting_min', description: 'Minutes spent waiting at transfer points', value: trip => getTotalWaitingTime(trip) },
+  { name: 'purpose', description: 'Purpose given by the respondent', value: trip => trip.purpose },
+  { name: 'purpose_detail', description: 'Free-text purpose detail', value: trip => trip.purposeDetail },
+  { name: 'inferred_mode', description: 'Mode suggested from the trace', value: trip => trip.inferredMode?.mode },
+  { name: 'inferred_mode_confidence', description: 'Confidence of the mode suggestion, 0-1', value: trip => trip.inferredMode?.confidence },
+  { name: 'inferred_purpose', description: 'Purpose suggested on completion', value: trip => trip.inferredPurpose?.purpose },
+  { name: 'inferred_purpose_confidence', description: 'Confidence of the purpose suggestion, 0-1', value: trip => trip.inferredPurpose?.confidence },
+  { name: 'inferred_purpose_accepted', description: 'Whether the respondent kept the suggested purpose', value: trip => trip.inferredPurpose?.accepted },
+  { name: 'origin_lat', description: 'Origin latitude (WGS84)', value: trip => trip.origin.latitude },
+  { name: 'origin_lon', description: 'Origin longitude (WGS84)', value: trip => trip.origin.longitude },
+  { name: 'origin_address', description: 'Origin address', value: trip => trip.origin.address },
+  { name: 'origin_zone', description: 'Finest zone (usually a TAZ) the origin lies in', value: trip => finestZone(trip.origin) },
+  { name: 'origin_district', description: 'District the origin lies in', value: trip => district(trip.origin) },
+  { name: 'destination_lat', description: 'Destination latitude (WGS84)', value: trip => trip.destination?.latitude },
+  { name: 'destination_lon', description: 'Destination longitude (WGS84)', value: trip => trip.destination?.longitude },
+  { name: 'destination_address', description: 'Destination address', value: trip => trip.destination?.address },
+  { name: 'destination_zone', description: 'Finest zone (usually a TAZ) the destination lies in', value: trip => finestZone(trip.destination) },
+  { name: 'destination_district', description: 'District the destination lies in', value: trip => district(trip.destination) },
+  { name: 'total_travelers', description: 'People travelling together, the respondent included', value: trip => trip.totalTravelers },
+  { name: 'satisfaction', description: 'Satisfaction rating, 1-5', value: trip => trip.satisfactionRating },
+  { name: 'chain_id', description: 'Id of the home-based tour the trip belongs to', value: trip => trip.chainId }
+];
+
+interface StageRow {
+  trip: Trip;
+  stage: TripStage;
+  index: number;
+}
+
+export const STAGE_COLUMNS: ExportColumn<StageRow>[] = [
+  { name: 'schema_version', description: 'Version of this column schema', value: () => EXPORT_SCHEMA_VERSION },
+  { name: 'trip_id', description: 'Trip the stage belongs to', value: ({ trip }) => trip.id },
+  { name: 'stage_number', description: 'Position of the stage in the trip, from 1', value: ({ index }) => index + 1 },
+  { name: 'mode', description: 'Mode of the stage', value: ({ stage }) => stage.mode },
+  { name: 'start_time', description: 'Boarding or setting off, ISO 8601 in UTC', value: ({ stage }) => iso(stage.startTime) },
+  { name: 'end_time', description: 'Alighting, ISO 8601 in UTC', value: ({ stage }) => iso(stage.endTime) },
+  { name: 'waiting_min', description: 'Minutes waiting at the transfer point before the stage', value: ({ stage }) => stage.waitingTime },
+  { name: 'distance_km', description: 'Distance along the cleaned trace in kilometres', value: ({ stage }) => stage.distance },
+  { name: 'inferred_mode', description: 'Mode suggested from the stage trace', value: ({ stage }) => stage.inferredMode?.mode },
+  { name: 'origin_lat', description: 'Stage start latitude (WGS84)', value: ({ stage }) => stage.origin.latitude },
+  { name: 'origin_lon', description: 'Stage start longitude (WGS84)', value: ({ stage }) => stage.origin.longitude },
+  { name: 'origin_zone', description: 'Finest zone the stage starts in', value: ({ stage }) => finestZone(stage.origin) },
+  { name: 'destination_lat', description: 'Stage end latitude (WGS84)', value: ({ stage }) => stage.destination?.latitude },
+  { name: 'destination_lon', description: 'Stage end longitude (WGS84)', value: ({ stage }) => stage.destination?.longitude },
+  { name: 'destination_zone', description: 'Finest zone the stage ends in', value: ({ stage }) => finestZone(stage.destination) }
+];
+
+const toRows = <T>(columns: ExportColumn<T>[], rows: T[]): CsvValue[][] => [
+  columns.map(column => column.name),
+  ...rows.map(row => columns.map(column => column.value(row)))
+];
+
+const toRecord = (trip: Trip) =>
+  Object.fromEntries(TRIP_COLUMNS.map(column => [column.name, column.value(trip) ?? null]));
+
+export function tripsToCsv(trips: Trip[]): string {
+  return toCsv(toRows(TRIP_COLUMNS, trips));
+}
+
+export function stagesToCsv(trips: Trip[]): string {
+  const rows = trips.flatMap(trip => getStages(trip).map((stage, index) => ({ trip, stage, index })));
+  return toCsv(toRows(STAGE_COLUMNS, rows));
+}
+
+const position = (location: Location) => [location.longitude, location.latitude];
+
+/**
+ * Origin and destination points, and the cleaned trace as a LineString
+ * where it has at least two fixes; `feature` says which each one is
+ */
+export function tripsToGeoJSON(trips: Trip[]): string {
+  const features = trips.flatMap(trip => {
+    const properties = toRecord(trip);
+    const trace = getTraces(trip).cleaned;
+    return [
+      { feature: 'origin', geometry: { type: 'Point', coordinates: position(trip.origin) } },
+      ...(trip.destination
+        ? [{ feature: 'destination', geometry: { type: 'Point', coordinates: position(trip.destination) } }]
+        : []),
+      ...(trace.length >= 2
+        ? [{ feature: 'trace', geometry: { type: 'LineString', coordinates: trace.map(position) } }]
+        : [])
+    ].map(({ feature, geometry }) => ({ type: 'Feature', geometry, properties: { ...properties, feature } }));
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', schemaVersion: EXPORT_SCHEMA_VERSION, features });
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const trackPoint = (point: Location) =>
+  `<trkpt lat="${point.latitude}" lon="${point.longitude}">` +
+  (point.altitude !== undefined ? `<ele>${point.altitude}</ele>` : '') +
+  `<time>${iso(point.timestamp)}</time></trkpt>`;
+
+/**
+ * GPX 1.1 with a track per trip and a segment per stage, from the cleaned
+ * trace; trips without one are left out
+ */
+export function tripsToGpx(trips: Trip[], at: Date = new Date()): string {
+  const tracks = trips.flatMap(trip => {
+    const stages = getStages(trip);
+    const segments = splitTrace(getTraces(trip).cleaned, stages).filter(points => points.length > 0);
+    if (segments.length === 0) return [];
+
+    return [
+      '  <trk>',
+      `    <name>Trip ${trip.tripNumber}</name>`,
+      `    <desc>${escapeXml(`${trip.purpose}; ${getTripModes(trip).join(';')}; ${trip.id}`)}</desc>`,
+      `    <type>${trip.mode}</type>`,
+      ...segments.map(points => `    <trkseg>${points.map(trackPoint).join('')}</trkseg>`),
+      '  </trk>'
+    ];
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="NATPAC Travel Data Collection App" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><desc>NATPAC trip export, schema version ${EXPORT_SCHEMA_VERSION}</desc><time>${iso(at)}</time></metadata>`,
+    ...tracks,
+    '</gpx>',
+    ''
+  ].join('\n');
+}
+
+export function renderExport(trips: Trip[], format: ExportFormat): string {
+  switch (format) {
+    case 'trips_csv':
+      return tripsToCsv(trips);
+    case 'stages_csv':
+      return stagesToCsv(trips);
+    case 'geojson':
+      return tripsToGeoJSON(trips);
+    case 'gpx':
+      return tripsToGpx(trips);
+  }
+}
+
+export function getExportFilename(format: ExportFormat, at: Date = new Date()): string {
+  const rows = format === 'stages_csv' ? 'stages' : 'trips';
+  return `natpac_${rows}_v${EXPORT_SCHEMA_VERSION}_${at.toISOString().split('T')[0]}.${EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * The column schema, for publishing next to the data
+ */
+export function describeExportSchema() {
+  const describe = <T>(columns: ExportColumn<T>[]) => columns.map(({ name, description }) => ({ name, description }));
+  return {
+    version: EXPORT_SCHEMA_VERSION,
+    trips: describe(TRIP_COLUMNS),
+    stages: describe(STAGE_COLUMNS),
+    geojson: 'Features carry the trips columns plus `feature`: origin, destination or trace',
+    gpx: 'A track per trip named by trip number, a segment per stage, from the cleaned trace'
+  };
+}
@@ -0,0 +1,130 @@
+// Kerala gazetteer for NATPAC Travel Data Collection App
+//
+// Field work happens out of network coverage, so place names come from a
+// dataset bundled with the app (src/data/gazetteer.json): district and
+// taluk headquarters, towns and neighbourhoods, and landmarks such as
+// stations, hospitals, markets and campuses. Places are kept in a grid of
+// CELL_SIZE-degree cells so a nearest-place lookup only looks at the
+// cells around the point instead of the whole dataset. Name search also
+// matches the older English names many people still use (Trivandrum,
+// Calicut, Alleppey).
+
+import gazetteerData from '@/data/gazetteer.json';
+import { GeolocationService } from './geolocation';
+
+export type PlaceKind = 'district' | 'taluk' | 'locality' | 'landmark';
+
+export interface GazetteerPlace {
+  id: string;
+  name: string;
+  aliases?: string[];
+  kind: PlaceKind;
+  category?: string; // landmarks only, e.g. railway_station, hospital
+  latitude: number;
+  longitude: number;
+  taluk?: string;
+  district: string;
+}
+
+export interface NearbyPlace {
+  place: GazetteerPlace;
+  distance: number; // km
+}
+
+// How well a name matches a search, best first
+export type MatchQuality = 'exact' | 'prefix' | 'word' | 'contains';
+
+export interface PlaceMatch {
+  place: GazetteerPlace;
+  quality: MatchQuality;
+}
+
+export const MATCH_QUALITIES: MatchQuality[] = ['exact', 'prefix', 'word', 'contains'];
+
+const CELL_SIZE = 0.1; // degrees, about 11 km in Kerala
+const KM_PER_DEGREE = 111;
+
+export const GAZETTEER_STATE = gazetteerData.state;
+export const GAZETTEER_COUNTRY = gazetteerData.country;
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, ' ').trim();
+
+function matchName(name: string, query: string): MatchQuality | null {
+  if (name === query) return 'exact';
+  if (name.startsWith(query)) return 'prefix';
+  if (name.split(' ').some(word => word.startsWith(query))) return 'word';
+  if (name.includes(query)) return 'contains';
+  return null;
+}
+
+const cellOf = (latitude: number, longitude: number): [number, number] => [
+  Math.floor(latitude / CELL_SIZE),
+  Math.floor(longitude / CELL_SIZE)
+];
+
+export class GazetteerIndex {
+  private cells = new Map<string, GazetteerPlace[]>();
+
+  constructor(readonly places: GazetteerPlace[]) {
+    places.forEach(place => {
+      const key = cellOf(place.latitude, place.longitude).join(':');
+      this.cells.set(key, [...(this.cells.get(key) ?? []), place]);
+    });
+  }
+
+  /**
+   * Places of the given kinds within `radius` km, nearest first
+   */
+  within(point: { latitude: number; longitude: number }, radius: number, kinds?: PlaceKind[]): NearbyPlace[] {
+    const [row, column] = cellOf(point.latitude, point.longitude);
+    const reach = Math.ceil(radius / (CELL_SIZE * KM_PER_DEGREE));
+    const location = { ...point, timestamp: new Date() };
+    const found: NearbyPlace[] = [];
+
+    for (let r = row - reach; r <= row + reach; r++) {
+      for (let c = column - reach; c <= column + reach; c++) {
+        (this.cells.get(`${r}:${c}`) ?? []).forEach(place => {
+          if (kinds && !kinds.includes(place.kind)) return;
+          const distance = GeolocationService.calculateDistance(location, { ...place, timestamp: location.timestamp });
+          if (distance <= radius) found.push({ place, distance });
+        });
+      }
+    }
+
+    return found.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Places whose name or an alias matches `query`, in no particular order
+   */
+  search(query: string): PlaceMatch[] {
+    const normalized = normalize(query);
+    if (!normalized) return [];
+
+    return this.places.flatMap(place => {
+      const qualities = [place.name, ...(place.aliases ?? [])]
+        .map(name => matchName(normalize(name), normalized))
+        .filter((quality): quality is MatchQuality => quality !== null);
+      if (qualities.length === 0) return [];
+
+      const best = MATCH_QUALITIES.find(quality => qualities.includes(quality))!;
+      return [{ place, quality: best }];
+    });
+  }
+
+  /**
+   * The nearest place of the given kinds within `radius` km, if any
+   */
+  nearest(point: { latitude: number; longitude: number }, radius: number, kinds?: PlaceKind[]): NearbyPlace | null {
+    return this.within(point, radius, kinds)[0] ?? null;
+  }
+}
+
+// Built on first use rather than when the module loads
+let index: GazetteerIndex | null = null;
+
+export function getGazetteer(): GazetteerIndex {
+  if (!index) index = new GazetteerIndex(gazetteerData.places as GazetteerPlace[]);
+  return index;
+}
@@ -0,0 +1,174 @@
+// Geocoding for NATPAC Travel Data Collection App
+//
+// Addresses come from a GeocodingProvider. The built-in provider answers
+// from the bundled Kerala gazetteer, so it works offline; an online
+// service can take over later with setGeocodingProvider, and every result
+// records which provider produced it.
+//
+// A reverse lookup names the landmark the point is at (if any), the
+// nearest locality, and the taluk and district of the nearest known place.
+// A search ranks places by how well their name matches what was typed,
+// then by how close they are to where the user is.
+
+import { AddressComponents, AddressResult, Location, PlaceSuggestion } from './types';
+import { GAZETTEER_COUNTRY, GAZETTEER_STATE, GazetteerPlace, MATCH_QUALITIES, PlaceKind, getGazetteer } from './gazetteer';
+import { GeolocationService } from './geolocation';
+
+export interface GeocodingProvider {
+  readonly name: string;
+  reverse(location: Location): Promise<AddressResult | null>;
+  search(query: string, near?: Location | null, limit?: number): Promise<PlaceSuggestion[]>;
+}
+
+const LANDMARK_RADIUS = 0.3; // km
+const LOCALITY_RADIUS = 8; // km; further out the nearest town says little
+const REGION_RADIUS = 30; // km to the nearest place that gives a taluk and district
+
+// Approximate bounds of Kerala; points outside are not in the gazetteer
+const KERALA_BOUNDS = { south: 8.17, north: 12.8, west: 74.85, east: 77.42 };
+
+const SEARCH_LIMIT = 8;
+
+// How far a place may stretch from its point, in metres; a geocoded
+// location is no more accurate than this
+const PLACE_EXTENT: Record<PlaceKind, number> = {
+  landmark: 200,
+  locality: 2000,
+  taluk: 5000,
+  district: 10000
+};
+
+// Without a fix to rank by, towns that head a taluk come first. A taluk
+// also wins over the district headquartered at the same point, as it
+// gives the fuller address.
+const KIND_ORDER: PlaceKind[] = ['taluk', 'district', 'locality', 'landmark'];
+
+const isWithinKerala = ({ latitude, longitude }: Location) =>
+  latitude >= KERALA_BOUNDS.south && latitude <= KERALA_BOUNDS.north &&
+  longitude >= KERALA_BOUNDS.west && longitude <= KERALA_BOUNDS.east;
+
+/**
+ * One line for display, e.g. "Edappally, Kanayannur, Ernakulam, Kerala"
+ */
+export function formatAddress(components: AddressComponents): string {
+  const parts = [components.landmark, components.locality, components.taluk, components.district, components.state]
+    .filter((part): part is string => Boolean(part));
+  // A locality named after its taluk (a taluk headquarters) is only shown once
+  return parts.filter((part, i) => parts.indexOf(part) === i).join(', ');
+}
+
+function toComponents(place: GazetteerPlace): AddressComponents {
+  return {
+    landmark: place.kind === 'landmark' ? place.name : undefined,
+    locality: place.kind === 'locality' || place.kind === 'taluk' ? place.name : undefined,
+    taluk: place.taluk,
+    district: place.district,
+    state: GAZETTEER_STATE,
+    country: GAZETTEER_COUNTRY
+  };
+}
+
+export const gazetteerProvider: GeocodingProvider = {
+  name: 'gazetteer-v1',
+  async reverse(location) {
+    if (!isWithinKerala(location)) return null;
+
+    const gazetteer = getGazetteer();
+    const region = gazetteer.nearest(location, REGION_RADIUS, ['taluk', 'locality', 'landmark']);
+    const locality = gazetteer.nearest(location, LOCALITY_RADIUS, ['locality', 'taluk']);
+    const landmark = gazetteer.nearest(location, LANDMARK_RADIUS, ['landmark']);
+    const named = landmark ?? locality ?? region;
+
+    const components: AddressComponents = {
+      landmark: landmark?.place.name,
+      locality: locality?.place.name,
+      taluk: region?.place.taluk,
+      district: region?.place.district,
+      state: GAZETTEER_STATE,
+      country: GAZETTEER_COUNTRY
+    };
+
+    return {
+      formatted_address: formatAddress(components),
+      place_id: named ? `gazetteer:${named.place.id}` : undefined,
+      types: landmark ? ['point_of_interest', landmark.place.category ?? 'landmark'] : locality ? ['locality'] : ['administrative_area'],
+      components,
+      provider: gazetteerProvider.name
+    };
+  },
+
+  async search(query, near, limit = SEARCH_LIMIT) {
+    const measured = getGazetteer().search(query).map(match => ({
+      ...match,
+      distance: near ? GeolocationService.calculateDistance(near, { ...match.place, timestamp: near.timestamp }) : undefined
+    }));
+
+    measured.sort((a, b) =>
+      MATCH_QUALITIES.indexOf(a.quality) - MATCH_QUALITIES.indexOf(b.quality) ||
+      (a.distance ?? 0) - (b.distance ?? 0) ||
+      KIND_ORDER.indexOf(a.place.kind) - KIND_ORDER.indexOf(b.place.kind)
+    );
+
+    // Offer a place listed as both a district and a taluk once
+    const seen = new Set<string>();
+    return measured
+      .filter(({ place }) => {
+        const key = `${place.name}:${place.latitude}:${place.longitude}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, limit)
+      .map(({ place, distance }) => {
+        const components = toComponents(place);
+        return {
+          id: place.id,
+          name: place.name,
+          description: formatAddress({ ...components, landmark: undefined, locality: undefined }),
+          latitude: place.latitude,
+          longitude: place.longitude,
+          accuracy: PLACE_EXTENT[place.kind],
+          components,
+          distance
+        };
+      });
+  }
+};
+
+let activeProvider: GeocodingProvider = gazetteerProvider;
+
+/**
+ * Use a different provider (e.g. an online service) for new lookups
+ */
+export function setGeocodingProvider(provider: GeocodingProvider): void {
+  activeProvider = provider;
+}
+
+/**
+ * Places matching what the user typed, best first
+ */
+export function searchPlaces(query: string, near?: Location | null): Promise<PlaceSuggestion[]> {
+  return activeProvider.search(query, near);
+}
+
+/**
+ * A location for a place the user picked from the search results
+ */
+export function toGeocodedLocation(suggestion: PlaceSuggestion, at: Date = new Date()): Location {
+  return {
+    latitude: suggestion.latitude,
+    longitude: suggestion.longitude,
+    address: formatAddress(suggestion.components),
+    addressComponents: suggestion.components,
+    timestamp: at,
+    source: 'geocoded',
+    accuracy: suggestion.accuracy
+  };
+}
+
+/**
+ * The address at a location, or null if the provider does not know it
+ */
+export function reverseGeocode(location: Location): Promise<AddressResult | null> {
+  return activeProvider.reverse(location);
+}
@@ -1,10 +1,11 @@
 // Geolocation utilities for NATPAC Travel Data Collection App
 
 import { Location, GeolocationResult, AddressResult } from './types';
+import { reverseGeocode } from './geocoding';
 
 export class GeolocationService {
   private static instance: GeolocationService;
-  private watchId: number | null = null;
+  private stopActiveWatch: (() => void) | null = null;
 
   static getInstance(): GeolocationService {
     if (!GeolocationService.instance) {
@@ -51,14 +52,9 @@ export class GeolocationService {
 
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          const location: Location = {
-            latitude: position.coords.latitude,
-            longitude: position.coords.longitude,
-            timestamp: new Date()
-          };
           resolve({
             success: true,
-            location
+            location: GeolocationService.toLocation(position)
           });
         },
         (error) => {
@@ -88,9 +84,31 @@ export class GeolocationService {
    * Start watching position for continuous tracking
    */
   startWatching(callback: (location: Location) => void, errorCallback?: (error: string) => void): boolean {
+    this.stopWatching();
+    this.stopActiveWatch = this.watchPosition(callback, errorCallback);
+    return this.stopActiveWatch !== null;
+  }
+
+  /**
+   * Stop watching position
+   */
+  stopWatching(): void {
+    this.stopActiveWatch?.();
+    this.stopActiveWatch = null;
+  }
+
+  /**
+   * Watch position independently of startWatching, so a recorder and a page
+   * can follow the device at the same time.
+   * Returns a function that ends the watch, or null if unsupported.
+   */
+  watchPosition(
+    callback: (location: Location) => void,
+    errorCallback?: (error: string) => void
+  ): (() => void) | null {
     if (!navigator.geolocation) {
       errorCallback?.('Geolocation not supported');
-      return false;
+      return null;
     }
 
     const options: PositionOptions = {
@@ -99,15 +117,8 @@ export class GeolocationService {
       maximumAge: 10000 // 10 seconds
     };
 
-    this.watchId = navigator.geolocation.watchPosition(
-      (position) => {
-        const location: Location = {
-          latitude: position.coords.latitude,
-          longitude: position.coords.longitude,
-          timestamp: new Date()
-        };
-        callback(location);
-      },
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => callback(GeolocationService.toLocation(position)),
       (error) => {
         let errorMessage = 'Watch position error';
         switch (error.code) {
@@ -126,17 +137,30 @@ export class GeolocationService {
       options
     );
 
-    return true;
+    return () => navigator.geolocation.clearWatch(watchId);
   }
 
   /**
-   * Stop watching position
+   * Build a Location from a device fix, keeping its quality readings and
+   * the time the fix was taken rather than the time it arrived
    */
-  stopWatching(): void {
-    if (this.watchId !== null) {
-      navigator.geolocation.clearWatch(this.watchId);
-      this.watchId = null;
-    }
+  private static toLocation(position: GeolocationPosition): Location {
+    const { coords } = position;
+    const location: Location = {
+      latitude: coords.latitude,
+      longitude: coords.longitude,
+      timestamp: new Date(position.timestamp),
+      source: 'gps',
+      accuracy: coords.accuracy
+    };
+
+    // Browsers report null for readings the device can't take, and a NaN
+    // heading while standing still
+    if (coords.altitude !== null) location.altitude = coords.altitude;
+    if (coords.speed !== null) location.speed = coords.speed;
+    if (coords.heading !== null && !Number.isNaN(coords.heading)) location.heading = coords.heading;
+
+    return location;
   }
 
   /**
@@ -162,30 +186,12 @@ export class GeolocationService {
   }
 
   /**
-   * Reverse geocoding - convert coordinates to address
-   * Note: This is a placeholder for demonstration. In production, you'd use a real geocoding service
+   * Reverse geocoding - convert coordinates to address with the active
+   * geocoding provider (the offline gazetteer unless replaced)
    */
   async reverseGeocode(location: Location): Promise<AddressResult | null> {
     try {
-      // Placeholder implementation - in production use Google Maps API, OpenStreetMap, etc.
-      const mockAddresses = [
-        'Thiruvananthapuram, Kerala, India',
-        'Kochi, Kerala, India',
-        'Kozhikode, Kerala, India',
-        'Thrissur, Kerala, India',
-        'Kollam, Kerala, India'
-      ];
-      
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      const randomAddress = mockAddresses[Math.floor(Math.random() * mockAddresses.length)];
-      
-      return {
-        formatted_address: `${randomAddress} (${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)})`,
-        place_id: `mock_${Date.now()}`,
-        types: ['route', 'political']
-      };
+      return await reverseGeocode(location);
     } catch (error) {
       console.error('Reverse geocoding error:', error);
       return null;
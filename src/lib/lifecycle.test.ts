@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Trip } from './types';
+import { applyTransition, assertTransition, assertTripState, getStateIssues, isFinalStatus, TripTransitionError } from './lifecycle';
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 2, 1, 8, minutes));
+
+const makeTrip = (overrides: Partial<Trip> = {}): Trip => ({
+  id: 'trip_1',
+  tripNumber: 1,
+  status: 'planned',
+  origin: { latitude: 8.5241, longitude: 76.9366, timestamp: at(0) },
+  startTime: at(0),
+  mode: 'bus',
+  purpose: 'work',
+  primaryTraveler: 'user_1',
+  accompanyingTravelers: [],
+  totalTravelers: 1,
+  createdAt: at(0),
+  updatedAt: at(0),
+  ...overrides
+});
+
+const destination = { latitude: 8.4875, longitude: 76.9525, timestamp: at(30) };
+
+const transitionError = (attempt: () => unknown): TripTransitionError => {
+  try {
+    attempt();
+  } catch (error) {
+    if (error instanceof TripTransitionError) return error;
+    throw error;
+  }
+  throw new Error('Expected a TripTransitionError');
+};
+
+describe('assertTransition', () => {
+  it('allows only the moves the lifecycle has', () => {
+    expect(() => assertTransition('planned', 'active')).not.toThrow();
+    expect(() => assertTransition('active', 'completed')).not.toThrow();
+    expect(() => assertTransition('completed', 'completed')).not.toThrow();
+    expect(() => assertTransition('planned', 'completed')).toThrow(TripTransitionError);
+    expect(() => assertTransition('cancelled', 'active')).toThrow('Cannot change a cancelled trip to active');
+  });
+
+  it('treats completed and cancelled as final', () => {
+    expect(isFinalStatus('completed')).toBe(true);
+    expect(isFinalStatus('cancelled')).toBe(true);
+    expect(isFinalStatus('active')).toBe(false);
+  });
+});
+
+describe('applyTransition', () => {
+  it('starts a planned trip now, not when it was scheduled', () => {
+    expect(applyTransition(makeTrip(), { status: 'active' }, at(10))).toEqual({ status: 'active', startTime: at(10) });
+  });
+
+  it('ends a trip now and works out how long it took', () => {
+    const trip = makeTrip({ status: 'active' });
+
+    expect(applyTransition(trip, { status: 'completed', destination }, at(30))).toEqual({
+      status: 'completed',
+      destination,
+      endTime: at(30),
+      duration: 30
+    });
+  });
+
+  it('refuses to complete a trip without a destination', () => {
+    const error = transitionError(() => applyTransition(makeTrip({ status: 'active' }), { status: 'completed' }, at(30)));
+
+    expect(error.issues).toEqual([{ path: 'destination', message: 'Required for a completed trip' }]);
+  });
+
+  it('refuses an end before the start', () => {
+    const trip = makeTrip({ status: 'active', startTime: at(10) });
+    const error = transitionError(() => applyTransition(trip, { status: 'cancelled', endTime: at(5) }));
+
+    expect(error.issues.map(issue => issue.path)).toEqual(['endTime']);
+  });
+
+  it('lets edits within a state through when they do not touch what is missing', () => {
+    const legacy = makeTrip({ status: 'completed', endTime: at(30) });
+
+    expect(applyTransition(legacy, { notes: 'annotated' })).toEqual({ notes: 'annotated' });
+    expect(applyTransition(legacy, { status: 'completed', notes: 'retried' })).toEqual({ status: 'completed', notes: 'retried' });
+  });
+
+  it('recomputes the duration when a completed trip\'s times are corrected', () => {
+    const trip = makeTrip({ status: 'completed', destination, endTime: at(30), duration: 30 });
+
+    expect(applyTransition(trip, { endTime: at(45) })).toEqual({ endTime: at(45), duration: 45 });
+  });
+});
+
+describe('state checks', () => {
+  it('requires each state\'s fields', () => {
+    expect(getStateIssues(makeTrip())).toEqual([]);
+    expect(getStateIssues(makeTrip({ status: 'cancelled' })).map(issue => issue.path)).toEqual(['endTime']);
+    expect(getStateIssues(makeTrip({ status: 'completed', endTime: at(30) })).map(issue => issue.path)).toEqual(['destination']);
+  });
+
+  it('rejects an uploaded record that is not valid in its status', () => {
+    expect(() => assertTripState(makeTrip({ status: 'completed', destination, endTime: at(30) }))).not.toThrow();
+    expect(() => assertTripState(makeTrip({ status: 'completed' }))).toThrow(/Invalid completed trip/);
+  });
+});
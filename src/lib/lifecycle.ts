@@ -0,0 +1,122 @@
+// Trip lifecycle for NATPAC Travel Data Collection App
+//
+// A trip is planned ahead or started right away, then ends as completed or
+// cancelled; both end states are final. Every status change on the device
+// and the server goes through applyTransition, which rejects moves the
+// lifecycle does not allow, fills in what a transition implies (start and
+// end times, duration) and checks the target state has the fields it needs.
+// What else a completed trip carries is worked out in ./completion.
+
+import { FieldError, Trip, TripStatus } from './types';
+
+export const TRIP_TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+  planned: ['active', 'cancelled'],
+  active: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+// Fields a trip must have once it is in each state
+const REQUIRED_FIELDS: Record<TripStatus, (keyof Trip)[]> = {
+  planned: ['origin', 'mode', 'purpose'],
+  active: ['origin', 'mode', 'purpose', 'startTime'],
+  completed: ['origin', 'mode', 'purpose', 'startTime', 'destination', 'endTime'],
+  cancelled: ['origin', 'startTime', 'endTime']
+};
+
+export class TripTransitionError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: FieldError[]
+  ) {
+    super(message);
+    this.name = 'TripTransitionError';
+  }
+}
+
+export const canTransition = (from: TripStatus, to: TripStatus): boolean =>
+  TRIP_TRANSITIONS[from].includes(to);
+
+export const isFinalStatus = (status: TripStatus): boolean =>
+  TRIP_TRANSITIONS[status].length === 0;
+
+const minutesBetween = (start: Date, end: Date) =>
+  Math.round((new Date(end).getTime() - new Date(start).getTime()) / (1000 * 60));
+
+const describeIssues = (status: TripStatus, issues: FieldError[]) =>
+  `Invalid ${status} trip: ${issues.map(i => `${i.path}: ${i.message}`).join('; ')}`;
+
+/**
+ * Problems that keep `trip` from being valid in its current status
+ */
+export function getStateIssues(trip: Trip): FieldError[] {
+  const issues: FieldError[] = REQUIRED_FIELDS[trip.status]
+    .filter(field => trip[field] === undefined || trip[field] === null)
+    .map(field => ({ path: field, message: `Required for a ${trip.status} trip` }));
+
+  if (trip.endTime && trip.startTime && new Date(trip.endTime) < new Date(trip.startTime)) {
+    issues.push({ path: 'endTime', message: 'A trip cannot end before it starts' });
+  }
+
+  return issues;
+}
+
+/**
+ * Throw unless a complete trip record (new or uploaded) is valid in its status
+ */
+export function assertTripState(trip: Trip): void {
+  const issues = getStateIssues(trip);
+  if (issues.length > 0) {
+    throw new TripTransitionError(describeIssues(trip.status, issues), issues);
+  }
+}
+
+/**
+ * Throw unless a trip may move from one status to the other; staying put is
+ * always allowed
+ */
+export function assertTransition(from: TripStatus, to: TripStatus): void {
+  if (to !== from && !canTransition(from, to)) {
+    throw new TripTransitionError(`Cannot change a ${from} trip to ${to}`, [
+      { path: 'status', message: `A ${from} trip cannot become ${to}` }
+    ]);
+  }
+}
+
+/**
+ * Check `updates` against the lifecycle and return them with the side
+ * effects of any status change added. Updates that keep the status (or
+ * repeat it, as a retried sync does) are allowed in every state.
+ */
+export function applyTransition(trip: Trip, updates: Partial<Trip>, at: Date = new Date()): Partial<Trip> {
+  const from = trip.status;
+  const to = updates.status ?? from;
+  assertTransition(from, to);
+
+  const changes: Partial<Trip> = { ...updates };
+
+  if (to !== from) {
+    // Starting a planned trip: it begins now, not when it was scheduled
+    if (to === 'active' && changes.startTime === undefined) {
+      changes.startTime = at;
+    }
+    if ((to === 'completed' || to === 'cancelled') && changes.endTime === undefined) {
+      changes.endTime = at;
+    }
+  }
+
+  const next: Trip = { ...trip, ...changes };
+  const timesChanged = to !== from || changes.startTime !== undefined || changes.endTime !== undefined;
+  if (to === 'completed' && timesChanged && updates.duration === undefined && next.endTime) {
+    changes.duration = minutesBetween(next.startTime, next.endTime);
+    next.duration = changes.duration;
+  }
+
+  // Edits within a state only answer for the fields they touch, so an old
+  // record missing something can still be annotated
+  const issues = getStateIssues(next).filter(issue => to !== from || issue.path in changes);
+  if (issues.length > 0) {
+    throw new TripTransitionError(describeIssues(next.status, issues), issues);
+  }
+  return changes;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  MigrationError,
+  migrateRecord,
+  migrateRecords
+} from './migrations';
+import { getZones } from './zones';
+
+const trivandrum = { latitude: 8.5241, longitude: 76.9366, timestamp: '2024-03-01T08:00:00.000Z' };
+
+const legacyTrip = (overrides: Record<string, unknown> = {}) => ({
+  id: 'trip_1',
+  tripNumber: 1,
+  status: 'planned',
+  origin: trivandrum,
+  startTime: '2024-03-01T08:00:00.000Z',
+  mode: 'bus',
+  purpose: 'work',
+  primaryTraveler: 'user_1',
+  accompanyingTravelers: ['traveler_1', 'traveler_2'],
+  totalTravelers: 7,
+  ...overrides
+});
+
+describe('migrateRecord', () => {
+  it('recounts travelers and fills in missing timestamps on legacy trips', () => {
+    const trip = migrateRecord('trips', legacyTrip(), LEGACY_SCHEMA_VERSION);
+
+    expect(trip.totalTravelers).toBe(3);
+    expect(trip.createdAt).toBe('2024-03-01T08:00:00.000Z');
+    expect(trip.updatedAt).toBe('2024-03-01T08:00:00.000Z');
+  });
+
+  it('gives both ends of a completed trip their zone', () => {
+    const trip = migrateRecord(
+      'trips',
+      legacyTrip({ status: 'completed', destination: trivandrum }),
+      LEGACY_SCHEMA_VERSION
+    );
+    const zoneId = getZones().locate(trivandrum)?.id;
+
+    expect(zoneId).toBeDefined();
+    expect(trip.origin).toMatchObject({ zoneId });
+    expect(trip.destination).toMatchObject({ zoneId });
+  });
+
+  it('leaves trips that are not completed unzoned', () => {
+    const trip = migrateRecord('trips', legacyTrip(), LEGACY_SCHEMA_VERSION);
+
+    expect(trip.origin).not.toHaveProperty('zoneId');
+  });
+
+  it('runs only the steps newer than the record', () => {
+    const current = legacyTrip({ totalTravelers: 7 });
+
+    expect(migrateRecord('trips', current, CURRENT_SCHEMA_VERSION)).toEqual(current);
+  });
+
+  it('rejects records missing required fields', () => {
+    expect(() => migrateRecord('trips', legacyTrip({ origin: undefined }), LEGACY_SCHEMA_VERSION))
+      .toThrow(new MigrationError('Missing required fields: origin'));
+    expect(() => migrateRecord('travelers', [], LEGACY_SCHEMA_VERSION)).toThrow(MigrationError);
+  });
+});
+
+describe('migrateRecords', () => {
+  it('sets aside records that fail instead of dropping them', () => {
+    const broken = { id: 'trip_2', origin: trivandrum };
+    const { records, quarantined } = migrateRecords('trips', [legacyTrip(), broken], LEGACY_SCHEMA_VERSION);
+
+    expect(records).toHaveLength(1);
+    expect(quarantined).toEqual([
+      expect.objectContaining({
+        source: 'trips',
+        recordId: 'trip_2',
+        payload: broken,
+        schemaVersion: LEGACY_SCHEMA_VERSION,
+        error: expect.stringContaining('Missing required fields')
+      })
+    ]);
+  });
+
+  it('quarantines records the decoder rejects', () => {
+    const { records, quarantined } = migrateRecords('trips', [legacyTrip()], LEGACY_SCHEMA_VERSION, () => {
+      throw new Error('Invalid trip');
+    });
+
+    expect(records).toHaveLength(0);
+    expect(quarantined[0]).toMatchObject({ recordId: 'trip_1', error: 'Invalid trip' });
+  });
+});
@@ -0,0 +1,150 @@
+// Schema migrations for persisted NATPAC Travel Data Collection App data
+
+import { QuarantinedRecord, QuarantineSource } from './types';
+import { getZones } from './zones';
+
+type RawRecord = Record<string, unknown>;
+
+export interface SchemaMigration {
+  version: number; // schema version produced by this migration
+  description: string;
+  trips?: (record: RawRecord) => RawRecord;
+  travelers?: (record: RawRecord) => RawRecord;
+  settings?: (record: RawRecord) => RawRecord;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// Data written before versioning was introduced carries no stamp
+export const LEGACY_SCHEMA_VERSION = 1;
+
+const requireFields = (record: RawRecord, fields: string[]) => {
+  const missing = fields.filter(field => record[field] === undefined || record[field] === null);
+  if (missing.length > 0) {
+    throw new MigrationError(`Missing required fields: ${missing.join(', ')}`);
+  }
+};
+
+// A stored location with the zone it lies in; anything else is left for
+// the decoder to judge
+const zoneRecord = (location: unknown) => {
+  if (typeof location !== 'object' || location === null) return location;
+  const { latitude, longitude } = location as RawRecord;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') return location;
+  return { ...location, zoneId: getZones().locate({ latitude, longitude })?.id };
+};
+
+/**
+ * Ordered registry of migrations. Append new entries with the next version
+ * number; never edit a migration that has already shipped.
+ */
+export const migrations: SchemaMigration[] = [
+  {
+    version: 2,
+    description: 'Validate required fields and normalize traveler counts',
+    trips: (trip) => {
+      requireFields(trip, ['id', 'origin', 'startTime', 'mode', 'purpose', 'status']);
+      const accompanyingTravelers = Array.isArray(trip.accompanyingTravelers)
+        ? trip.accompanyingTravelers
+        : [];
+      return {
+        ...trip,
+        accompanyingTravelers,
+        totalTravelers: 1 + accompanyingTravelers.length,
+        createdAt: trip.createdAt ?? trip.startTime,
+        updatedAt: trip.updatedAt ?? trip.createdAt ?? trip.startTime
+      };
+    },
+    travelers: (traveler) => {
+      requireFields(traveler, ['id', 'name', 'ageGroup', 'relationship']);
+      return {
+        ...traveler,
+        hasConsent: traveler.hasConsent === true,
+        createdAt: traveler.createdAt ?? new Date()
+      };
+    }
+  },
+  {
+    version: 3,
+    description: 'Record the zone of each completed trip\'s origin and destination',
+    trips: (trip) => {
+      if (trip.status !== 'completed') return trip;
+      return { ...trip, origin: zoneRecord(trip.origin), destination: zoneRecord(trip.destination) };
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  LEGACY_SCHEMA_VERSION
+);
+
+/**
+ * Upgrade a single record from `fromVersion` to the current schema.
+ * Throws if any migration step rejects the record.
+ */
+export function migrateRecord(source: QuarantineSource, record: unknown, fromVersion: number): RawRecord {
+  if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+    throw new MigrationError('Record is not an object');
+  }
+
+  return migrations
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, migration) => {
+      const step = migration[source];
+      return step ? step(current) : current;
+    }, record as RawRecord);
+}
+
+/**
+ * Upgrade a batch of records, setting aside the ones that fail instead of
+ * dropping them so they can be inspected or retried later. An optional
+ * decoder validates each upgraded record against the current types.
+ */
+export function migrateRecords<T>(
+  source: QuarantineSource,
+  records: unknown[],
+  fromVersion: number,
+  decoder: (record: unknown) => T = (record) => record as T
+): { records: T[]; quarantined: QuarantinedRecord[] } {
+  const migrated: T[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+
+  records.forEach((record, index) => {
+    try {
+      migrated.push(decoder(migrateRecord(source, record, fromVersion)));
+    } catch (error) {
+      quarantined.push(createQuarantinedRecord(source, record, fromVersion, error, index));
+    }
+  });
+
+  return { records: migrated, quarantined };
+}
+
+export function createQuarantinedRecord(
+  source: QuarantineSource,
+  payload: unknown,
+  schemaVersion: number,
+  error: unknown,
+  index: number = 0
+): QuarantinedRecord {
+  const recordId = typeof payload === 'object' && payload !== null && typeof (payload as RawRecord).id === 'string'
+    ? (payload as RawRecord).id as string
+    : `index_${index}`;
+
+  return {
+    id: `quarantine_${source}_${recordId}_${Date.now()}`,
+    source,
+    recordId,
+    payload,
+    schemaVersion,
+    error: error instanceof Error ? error.message : String(error),
+    quarantinedAt: new Date()
+  };
+}
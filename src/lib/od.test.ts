@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Trip } from './types';
+import { buildODMatrix, getODCount, getTimeBand, odMatrixToCsv } from './od';
+import { getLocationZone, OUTSIDE_ZONES } from './zones';
+
+const TRIVANDRUM = { latitude: 8.5241, longitude: 76.9366 };
+const ERNAKULAM = { latitude: 9.969, longitude: 76.291 };
+const AT_SEA = { latitude: 8.0, longitude: 75.0 };
+
+// 08:30 in Kerala
+const amPeak = new Date('2024-03-01T03:00:00.000Z');
+
+let tripCount = 0;
+
+const trip = (from: typeof TRIVANDRUM, to: typeof TRIVANDRUM | undefined, overrides: Partial<Trip> = {}): Trip => ({
+  id: `trip_${++tripCount}`,
+  tripNumber: tripCount,
+  status: 'completed',
+  origin: { ...from, timestamp: amPeak },
+  destination: to && { ...to, timestamp: amPeak },
+  startTime: amPeak,
+  mode: 'bus',
+  purpose: 'work',
+  primaryTraveler: 'user_1',
+  accompanyingTravelers: [],
+  totalTravelers: 1,
+  createdAt: amPeak,
+  updatedAt: amPeak,
+  ...overrides
+});
+
+const district = (place: typeof TRIVANDRUM) => getLocationZone({ ...place, timestamp: amPeak }, 'district')!.id;
+
+describe('getTimeBand', () => {
+  it('reads the band from Kerala clock time', () => {
+    expect(getTimeBand(new Date('2024-03-01T01:29:00.000Z'))).toBe('off_peak'); // 06:59
+    expect(getTimeBand(new Date('2024-03-01T01:30:00.000Z'))).toBe('am_peak'); // 07:00
+    expect(getTimeBand(new Date('2024-03-01T08:00:00.000Z'))).toBe('inter_peak'); // 13:30
+    expect(getTimeBand(new Date('2024-03-01T12:00:00.000Z'))).toBe('pm_peak'); // 17:30
+    expect(getTimeBand(new Date('2024-03-01T20:00:00.000Z'))).toBe('off_peak'); // 01:30
+  });
+});
+
+describe('buildODMatrix', () => {
+  const trips = [
+    trip(TRIVANDRUM, ERNAKULAM),
+    trip(TRIVANDRUM, ERNAKULAM),
+    trip(ERNAKULAM, TRIVANDRUM, { startTime: new Date('2024-03-01T12:00:00.000Z') }),
+    trip(TRIVANDRUM, AT_SEA),
+    trip(TRIVANDRUM, ERNAKULAM, { status: 'cancelled' }),
+    trip(TRIVANDRUM, undefined, { status: 'active' })
+  ];
+
+  it('counts completed trips by origin and destination zone', () => {
+    const matrix = buildODMatrix(trips, { zoneLevel: 'district' });
+
+    expect(matrix.total).toBe(4);
+    expect(getODCount(matrix, district(TRIVANDRUM), district(ERNAKULAM))).toBe(2);
+    expect(getODCount(matrix, district(ERNAKULAM), district(TRIVANDRUM))).toBe(1);
+    expect(getODCount(matrix, district(TRIVANDRUM), OUTSIDE_ZONES)).toBe(1);
+    expect(getODCount(matrix, district(ERNAKULAM), district(ERNAKULAM))).toBe(0);
+    expect(matrix.originTotals).toEqual({ [district(TRIVANDRUM)]: 3, [district(ERNAKULAM)]: 1 });
+  });
+
+  it('lists only zones with trips, in boundary-file order with outside last', () => {
+    const matrix = buildODMatrix(trips, { zoneLevel: 'district' });
+
+    expect(matrix.zones.map(zone => zone.id)).toEqual([district(ERNAKULAM), district(TRIVANDRUM), OUTSIDE_ZONES]);
+  });
+
+  it('keeps trips that set off in the time band asked for', () => {
+    const matrix = buildODMatrix(trips, { zoneLevel: 'district', timeBand: 'pm_peak' });
+
+    expect(matrix.total).toBe(1);
+    expect(matrix.cells).toEqual([{ origin: district(ERNAKULAM), destination: district(TRIVANDRUM), trips: 1 }]);
+  });
+});
+
+describe('odMatrixToCsv', () => {
+  it('writes a square table with totals', () => {
+    const matrix = buildODMatrix([trip(TRIVANDRUM, ERNAKULAM), trip(TRIVANDRUM, TRIVANDRUM)], { zoneLevel: 'district' });
+    const [ekm, tvm] = matrix.zones;
+
+    expect(odMatrixToCsv(matrix).split('\r\n')).toEqual([
+      `origin_zone,origin_name,${ekm.id},${tvm.id},total`,
+      `${ekm.id},${ekm.name},0,0,0`,
+      `${tvm.id},${tvm.name},1,1,2`,
+      'total,,1,1,2',
+      ''
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+// Origin–destination matrices for NATPAC Travel Data Collection App
+//
+// An OD matrix counts completed trips by the zone they started in and the
+// zone they ended in, at one zone level. Mode, purpose and date filters
+// pick the trips before they get here; the time band is applied here
+// because it is a matter of local clock time, not stored timestamps.
+// Only zones some trip starts or ends in get a row and column, so a TAZ
+// matrix stays readable.
+
+import { Trip } from './types';
+import { getLocationZone, getZones, OUTSIDE_ZONES, ZoneLevel } from './zones';
+import { toCsv } from './csv';
+
+export type TimeBand = 'am_peak' | 'inter_peak' | 'pm_peak' | 'off_peak';
+
+// Hours are Kerala time (IST) whatever the time zone of the device or server
+export const TIME_BANDS: { value: TimeBand; label: string; from: number; to: number }[] = [
+  { value: 'am_peak', label: 'Morning peak (7–10)', from: 7, to: 10 },
+  { value: 'inter_peak', label: 'Inter-peak (10–16)', from: 10, to: 16 },
+  { value: 'pm_peak', label: 'Evening peak (16–20)', from: 16, to: 20 },
+  { value: 'off_peak', label: 'Off-peak (20–7)', from: 20, to: 7 }
+];
+
+const IST_OFFSET = 330; // minutes ahead of UTC
+
+export interface ODZone {
+  id: string;
+  name: string;
+}
+
+export interface ODCell {
+  origin: string; // zone id
+  destination: string; // zone id
+  trips: number;
+}
+
+export interface ODMatrix {
+  zoneLevel: ZoneLevel;
+  timeBand?: TimeBand;
+  zones: ODZone[]; // in boundary-file order, with trips outside every zone last
+  cells: ODCell[]; // only pairs with trips
+  originTotals: Record<string, number>;
+  destinationTotals: Record<string, number>;
+  total: number;
+}
+
+export interface ODOptions {
+  zoneLevel: ZoneLevel;
+  timeBand?: TimeBand;
+}
+
+/**
+ * The band a departure falls in, by Kerala clock time
+ */
+export function getTimeBand(at: Date): TimeBand {
+  const minutes = Math.floor(new Date(at).getTime() / 60000) + IST_OFFSET;
+  const hour = Math.floor(minutes / 60) % 24;
+  const band = TIME_BANDS.find(({ from, to }) => (from < to ? hour >= from && hour < to : hour >= from || hour < to));
+  return band?.value ?? 'off_peak';
+}
+
+/**
+ * Count completed trips by origin and destination zone, keeping those that
+ * set off in `timeBand` if one is given
+ */
+export function buildODMatrix(trips: Trip[], { zoneLevel, timeBand }: ODOptions): ODMatrix {
+  const counts = new Map<string, ODCell>();
+  const originTotals: Record<string, number> = {};
+  const destinationTotals: Record<string, number> = {};
+  let total = 0;
+
+  trips.forEach(trip => {
+    if (trip.status !== 'completed' || !trip.destination) return;
+    if (timeBand && getTimeBand(trip.startTime) !== timeBand) return;
+
+    const origin = getLocationZone(trip.origin, zoneLevel)?.id ?? OUTSIDE_ZONES;
+    const destination = getLocationZone(trip.destination, zoneLevel)?.id ?? OUTSIDE_ZONES;
+    const key = `${origin}|${destination}`;
+    const cell = counts.get(key) ?? { origin, destination, trips: 0 };
+    cell.trips++;
+    counts.set(key, cell);
+
+    originTotals[origin] = (originTotals[origin] || 0) + 1;
+    destinationTotals[destination] = (destinationTotals[destination] || 0) + 1;
+    total++;
+  });
+
+  const used = new Set([...Object.keys(originTotals), ...Object.keys(destinationTotals)]);
+  const zones = getZones()
+    .list(zoneLevel)
+    .filter(zone => used.has(zone.id))
+    .map(({ id, name }) => ({ id, name }));
+  if (used.has(OUTSIDE_ZONES)) {
+    zones.push({ id: OUTSIDE_ZONES, name: 'Outside all zones' });
+  }
+
+  return {
+    zoneLevel,
+    timeBand,
+    zones,
+    cells: Array.from(counts.values()),
+    originTotals,
+    destinationTotals,
+    total
+  };
+}
+
+/**
+ * Trips from `origin` to `destination`, 0 where none went
+ */
+export function getODCount(matrix: ODMatrix, origin: string, destination: string): number {
+  return matrix.cells.find(cell => cell.origin === origin && cell.destination === destination)?.trips ?? 0;
+}
+
+/**
+ * The matrix as a square table: a row per origin zone, a column per
+ * destination zone, and totals in the last row and column
+ */
+export function odMatrixToCsv(matrix: ODMatrix): string {
+  const { zones } = matrix;
+  return toCsv([
+    ['origin_zone', 'origin_name', ...zones.map(zone => zone.id), 'total'],
+    ...zones.map(origin => [
+      origin.id,
+      origin.name,
+      ...zones.map(destination => getODCount(matrix, origin.id, destination.id)),
+      matrix.originTotals[origin.id] ?? 0
+    ]),
+    ['total', '', ...zones.map(zone => matrix.destinationTotals[zone.id] ?? 0), matrix.total]
+  ]);
+}
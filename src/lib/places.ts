@@ -0,0 +1,92 @@
+// Saved places for NATPAC Travel Data Collection App
+//
+// Most trips start or end at home, work or school. The user saves those
+// places once, each with a radius; a GPS fix inside the radius is snapped
+// to the saved place, so every trip from home starts at the same point
+// with the same address, and arriving at a place suggests the purpose of
+// the trip (work for Work, return_home for Home).
+
+import { Location, SavedPlace, SavedPlaceKind, TripPurpose } from './types';
+import { GeolocationService } from './geolocation';
+
+export const DEFAULT_PLACE_RADIUS = 150; // metres
+
+export const PLACE_KINDS: { value: SavedPlaceKind; label: string; icon: string }[] = [
+  { value: 'home', label: 'Home', icon: '🏠' },
+  { value: 'work', label: 'Work', icon: '💼' },
+  { value: 'school', label: 'School', icon: '🎓' },
+  { value: 'other', label: 'Other', icon: '⭐' }
+];
+
+// The purpose of a trip that ends at each kind of place
+const ARRIVAL_PURPOSES: Record<SavedPlaceKind, TripPurpose | null> = {
+  home: 'return_home',
+  work: 'work',
+  school: 'education',
+  other: null
+};
+
+export const getPlaceIcon = (kind: SavedPlaceKind) =>
+  PLACE_KINDS.find(option => option.value === kind)?.icon ?? '⭐';
+
+/**
+ * The saved place whose radius takes in `location`, the nearest if the
+ * radii overlap
+ */
+export function findSavedPlace(location: Location, places: SavedPlace[]): SavedPlace | null {
+  let match: SavedPlace | null = null;
+  let matchDistance = Infinity;
+
+  places.forEach(place => {
+    const distance = GeolocationService.calculateDistance(location, place.location) * 1000;
+    if (distance <= place.radius && distance < matchDistance) {
+      match = place;
+      matchDistance = distance;
+    }
+  });
+
+  return match;
+}
+
+/**
+ * `place` as a location at time `at`, e.g. for a trip picked to start there
+ */
+export function toPlaceLocation(place: SavedPlace, at: Date = new Date()): Location {
+  return {
+    ...place.location,
+    address: place.location.address ?? place.name,
+    savedPlaceId: place.id,
+    timestamp: at
+  };
+}
+
+/**
+ * Move a GPS fix onto the saved place it falls within, keeping when and
+ * how it was measured; fixes elsewhere are returned unchanged
+ */
+export function snapToSavedPlace(location: Location, places: SavedPlace[]): Location {
+  const place = findSavedPlace(location, places);
+  if (!place) return location;
+
+  return {
+    ...location,
+    latitude: place.location.latitude,
+    longitude: place.location.longitude,
+    address: place.location.address ?? place.name,
+    addressComponents: place.location.addressComponents,
+    savedPlaceId: place.id
+  };
+}
+
+/**
+ * The saved place `location` was recorded at, or failing that falls within
+ */
+export function getSavedPlaceAt(location: Location, places: SavedPlace[]): SavedPlace | null {
+  const recorded = location.savedPlaceId ? places.find(p => p.id === location.savedPlaceId) : undefined;
+  return recorded ?? findSavedPlace(location, places);
+}
+
+/**
+ * The purpose of a trip that ends at `place`, if its kind implies one
+ */
+export const getArrivalPurpose = (place: SavedPlace): TripPurpose | null => ARRIVAL_PURPOSES[place.kind];
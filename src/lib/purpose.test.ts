@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Location, SavedPlace, Trip, TripPurpose } from './types';
+import { evidenceEngine, inferPurpose, PurposeContext, PurposeEngine, setPurposeEngine } from './purpose';
+
+// Local times, as the engine reads them; 4 March 2024 was a Monday
+const monday = (hour: number) => new Date(2024, 2, 4, hour);
+const saturday = (hour: number) => new Date(2024, 2, 9, hour);
+
+const TECHNOPARK = { latitude: 8.558, longitude: 76.881 };
+const NOWHERE = { latitude: 8.6, longitude: 77.0 }; // no landmark nearby
+
+const at = (place: typeof NOWHERE, timestamp = monday(8)): Location => ({ ...place, timestamp });
+
+const context = (overrides: Partial<PurposeContext>): PurposeContext => ({
+  destination: at(NOWHERE),
+  arrivalTime: monday(8),
+  savedPlaces: [],
+  history: [],
+  ...overrides
+});
+
+const home: SavedPlace = {
+  id: 'place_home',
+  name: 'Home',
+  kind: 'home',
+  location: at(NOWHERE),
+  radius: 100,
+  createdAt: monday(0),
+  updatedAt: monday(0)
+};
+
+const earlierTrip = (purpose: TripPurpose, status: Trip['status'] = 'completed'): Trip => ({
+  id: `trip_${purpose}`,
+  tripNumber: 1,
+  status,
+  origin: at(TECHNOPARK, monday(7)),
+  destination: at(NOWHERE),
+  startTime: monday(7),
+  mode: 'bus',
+  purpose,
+  primaryTraveler: 'user_1',
+  accompanyingTravelers: [],
+  totalTravelers: 1,
+  createdAt: monday(7),
+  updatedAt: monday(7)
+});
+
+describe('evidenceEngine', () => {
+  it('reads a workplace landmark on a weekday morning as going to work', () => {
+    const result = evidenceEngine.infer(context({ destination: at(TECHNOPARK) }));
+
+    // work 2 + 1 against education 0.8 and the unexplained 1
+    expect(result).toEqual({
+      purpose: 'work',
+      confidence: 0.63,
+      reasons: ['Near Technopark', 'Arrived on a weekday morning']
+    });
+  });
+
+  it('trusts a saved place over the time of day', () => {
+    const result = evidenceEngine.infer(context({ savedPlaces: [home], arrivalTime: monday(8) }));
+
+    expect(result).toMatchObject({ purpose: 'return_home', reasons: ['At your saved place Home'] });
+  });
+
+  it('follows what earlier trips to the same spot were for', () => {
+    const history = [earlierTrip('shopping'), earlierTrip('shopping'), earlierTrip('shopping')];
+    const result = evidenceEngine.infer(context({ history, arrivalTime: saturday(14) }));
+
+    expect(result!.purpose).toBe('shopping');
+    expect(result!.reasons).toContain('Earlier trips here: 3 of 3 for shopping');
+    // shopping 3 + 0.5 against leisure 0.8, social 0.8 and the unexplained 1
+    expect(result!.confidence).toBe(0.57);
+  });
+
+  it('gives a single earlier trip a third of the history vote', () => {
+    const result = evidenceEngine.infer(context({ history: [earlierTrip('medical')], arrivalTime: monday(13) }));
+
+    // medical 1 + 0.4 against business 0.5, shopping 0.4 and the unexplained 1
+    expect(result).toMatchObject({ purpose: 'medical', confidence: 0.42 });
+  });
+
+  it('ignores earlier trips left at other or never finished', () => {
+    const history = [earlierTrip('other'), earlierTrip('other'), earlierTrip('social', 'cancelled')];
+    const result = evidenceEngine.infer(context({ history, arrivalTime: monday(23) }));
+
+    expect(result).toEqual({ purpose: 'return_home', confidence: 0.5, reasons: ['Arrived late at night'] });
+  });
+});
+
+describe('inferPurpose', () => {
+  afterEach(() => {
+    setPurposeEngine(evidenceEngine);
+  });
+
+  it('records which engine made the suggestion', () => {
+    const now = new Date();
+
+    expect(inferPurpose(context({ destination: at(TECHNOPARK) }), now)).toMatchObject({
+      purpose: 'work',
+      engine: 'evidence-v1',
+      inferredAt: now
+    });
+  });
+
+  it('uses the engine it is given', () => {
+    const silent: PurposeEngine = { name: 'silent', infer: () => null };
+    setPurposeEngine(silent);
+
+    expect(inferPurpose(context({}))).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+// Trip purpose inference for NATPAC Travel Data Collection App
+//
+// Purpose is asked when a trip starts, before the respondent has reason to
+// think about it, and is mostly left at 'other'. When a trip is completed
+// the active PurposeEngine suggests one from where and when it ended: the
+// saved place or gazetteer landmark at the destination, the time of day and
+// day of week, and the purposes the user gave earlier trips to the same
+// spot. The built-in engine lets each piece of evidence vote for purposes;
+// another engine can replace it with setPurposeEngine. Every suggestion
+// records which engine made it and, once the trip is saved, whether the
+// user kept it.
+
+import { Location, PurposeInference, SavedPlace, Trip, TripPurpose } from './types';
+import { GeolocationService } from './geolocation';
+import { getGazetteer } from './gazetteer';
+import { getArrivalPurpose, getSavedPlaceAt } from './places';
+
+export interface PurposeContext {
+  destination: Location;
+  arrivalTime: Date;
+  savedPlaces: SavedPlace[];
+  history: Trip[]; // the user's other trips
+}
+
+export interface PurposeEngine {
+  readonly name: string;
+  infer(context: PurposeContext): { purpose: TripPurpose; confidence: number; reasons: string[] } | null;
+}
+
+const LANDMARK_RADIUS = 0.3; // km, as for naming the landmark in an address
+const HISTORY_RADIUS = 0.2; // km; earlier trips ending this close went to the same place
+
+// Votes each kind of evidence casts for the purpose it points to
+const SAVED_PLACE_WEIGHT = 4;
+const HISTORY_WEIGHT = 3; // shared among earlier purposes, in full from HISTORY_TRIPS trips
+const HISTORY_TRIPS = 3;
+const LANDMARK_WEIGHT = 2;
+const UNEXPLAINED_WEIGHT = 1; // held back for purposes no evidence points to, so weak evidence is not sure
+
+// Landmark categories that say why people go there; stations and airports
+// are where trips change mode, not what they are for
+const CATEGORY_PURPOSES: Partial<Record<string, TripPurpose>> = {
+  hospital: 'medical',
+  school: 'education',
+  workplace: 'work',
+  place_of_worship: 'religious',
+  market: 'shopping',
+  shopping: 'shopping',
+  leisure: 'leisure'
+};
+
+interface TimeBand {
+  weekend: boolean;
+  from: number; // hour, inclusive
+  to: number; // hour, exclusive
+  label: string;
+  votes: Partial<Record<TripPurpose, number>>;
+}
+
+// What trips ending at each time of the week are usually for; weak
+// evidence, worth less than one vote
+const TIME_BANDS: TimeBand[] = [
+  { weekend: false, from: 5, to: 11, label: 'on a weekday morning', votes: { work: 1, education: 0.8 } },
+  { weekend: false, from: 11, to: 16, label: 'around midday on a weekday', votes: { business: 0.5, shopping: 0.4, medical: 0.4 } },
+  { weekend: false, from: 16, to: 21, label: 'on a weekday evening', votes: { return_home: 1, shopping: 0.5, social: 0.3 } },
+  { weekend: true, from: 5, to: 12, label: 'on a weekend morning', votes: { religious: 0.6, shopping: 0.5, leisure: 0.4 } },
+  { weekend: true, from: 12, to: 21, label: 'on a weekend afternoon', votes: { leisure: 0.8, social: 0.8, shopping: 0.5 } }
+];
+
+const LATE_BAND: TimeBand = { weekend: false, from: 21, to: 5, label: 'late at night', votes: { return_home: 1 } };
+
+const describe = (purpose: TripPurpose) => purpose.replace('_', ' ');
+
+function getTimeBand(at: Date): TimeBand {
+  const hour = at.getHours();
+  const day = at.getDay();
+  const weekend = day === 0 || day === 6;
+  return TIME_BANDS.find(band => band.weekend === weekend && hour >= band.from && hour < band.to) ?? LATE_BAND;
+}
+
+export const evidenceEngine: PurposeEngine = {
+  name: 'evidence-v1',
+  infer({ destination, arrivalTime, savedPlaces, history }) {
+    const scores = new Map<TripPurpose, number>();
+    const reasons = new Map<TripPurpose, string[]>();
+    const vote = (purpose: TripPurpose, weight: number, reason: string) => {
+      scores.set(purpose, (scores.get(purpose) ?? 0) + weight);
+      reasons.set(purpose, [...(reasons.get(purpose) ?? []), reason]);
+    };
+
+    const place = getSavedPlaceAt(destination, savedPlaces);
+    const placePurpose = place ? getArrivalPurpose(place) : null;
+    if (place && placePurpose) {
+      vote(placePurpose, SAVED_PLACE_WEIGHT, `At your saved place ${place.name}`);
+    }
+
+    const landmark = getGazetteer().nearest(destination, LANDMARK_RADIUS, ['landmark']);
+    const landmarkPurpose = landmark?.place.category ? CATEGORY_PURPOSES[landmark.place.category] : undefined;
+    if (landmark && landmarkPurpose) {
+      vote(landmarkPurpose, LANDMARK_WEIGHT, `Near ${landmark.place.name}`);
+    }
+
+    // 'other' is what most trips are left at, so it says nothing
+    const earlier = history.filter(trip =>
+      trip.status === 'completed' && trip.purpose !== 'other' && trip.destination &&
+      GeolocationService.calculateDistance(trip.destination, destination) <= HISTORY_RADIUS
+    );
+    const share = HISTORY_WEIGHT * Math.min(earlier.length, HISTORY_TRIPS) / HISTORY_TRIPS / Math.max(earlier.length, 1);
+    const counts = new Map<TripPurpose, number>();
+    earlier.forEach(trip => counts.set(trip.purpose, (counts.get(trip.purpose) ?? 0) + 1));
+    counts.forEach((count, purpose) => {
+      vote(purpose, share * count, `Earlier trips here: ${count} of ${earlier.length} for ${describe(purpose)}`);
+    });
+
+    const band = getTimeBand(new Date(arrivalTime));
+    Object.entries(band.votes).forEach(([purpose, weight]) => {
+      vote(purpose as TripPurpose, weight, `Arrived ${band.label}`);
+    });
+
+    if (scores.size === 0) return null;
+
+    const total = Array.from(scores.values()).reduce((sum, score) => sum + score, UNEXPLAINED_WEIGHT);
+    const [purpose, score] = Array.from(scores.entries()).reduce((a, b) => (b[1] > a[1] ? b : a));
+    return {
+      purpose,
+      confidence: Math.round((score / total) * 100) / 100,
+      reasons: reasons.get(purpose) ?? []
+    };
+  }
+};
+
+let activeEngine: PurposeEngine = evidenceEngine;
+
+/**
+ * Use a different engine (e.g. a trained model) for new suggestions
+ */
+export function setPurposeEngine(engine: PurposeEngine): void {
+  activeEngine = engine;
+}
+
+/**
+ * Suggest a purpose for a trip ending at `context.destination`, or null if
+ * nothing points to one
+ */
+export function inferPurpose(context: PurposeContext, at: Date = new Date()): PurposeInference | null {
+  const result = activeEngine.infer(context);
+  if (!result) return null;
+
+  return { ...result, engine: activeEngine.name, inferredAt: at };
+}
+
+/**
+ * The suggestion as saved with the trip, noting whether the user kept it
+ */
+export function recordPurposeChoice(inference: PurposeInference, chosen: TripPurpose): PurposeInference {
+  return { ...inference, accepted: chosen === inference.purpose };
+}
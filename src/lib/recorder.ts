@@ -0,0 +1,189 @@
+// GPS trace recording for NATPAC Travel Data Collection App
+//
+// While a trip is active the recorder watches the device position and
+// appends fixes to the trip's waypoints. Fixes are thinned first (too
+// inaccurate, too close to the previous point or too soon after it) and
+// written to storage in small batches, so a page reload loses at most the
+// last few seconds of the trace.
+
+import { Location, RecorderState } from './types';
+import { storageService } from './storage';
+import { GeolocationService, geolocationService } from './geolocation';
+
+type RecorderListener = (state: RecorderState) => void;
+
+const MAX_ACCURACY = 100; // metres; coarser fixes are network guesses
+const MIN_DISTANCE = 0.01; // km between recorded points
+const MIN_INTERVAL = 5 * 1000; // 5 seconds
+const MAX_INTERVAL = 60 * 1000; // record at least once a minute, so stops show in the trace
+const FLUSH_INTERVAL = 15 * 1000; // 15 seconds
+const FLUSH_SIZE = 5;
+
+export class TraceRecorder {
+  private static instance: TraceRecorder;
+  private tripId: string | null = null;
+  private paused = false;
+  private stopWatch: (() => void) | null = null;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private pending: Location[] = [];
+  private lastPoint: Location | null = null;
+  private pointCount = 0;
+  private error: string | null = null;
+  private listeners = new Set<RecorderListener>();
+
+  static getInstance(): TraceRecorder {
+    if (!TraceRecorder.instance) {
+      TraceRecorder.instance = new TraceRecorder();
+    }
+    return TraceRecorder.instance;
+  }
+
+  subscribe(listener: RecorderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  getState(): RecorderState {
+    return {
+      tripId: this.tripId,
+      recording: this.stopWatch !== null,
+      paused: this.paused,
+      pointCount: this.pointCount,
+      lastFix: this.lastPoint,
+      error: this.error
+    };
+  }
+
+  /**
+   * Record `tripId`'s trace, picking up where an earlier session left off.
+   * Safe to call repeatedly; a trip the user paused stays paused.
+   */
+  start(tripId: string): boolean {
+    if (this.tripId === tripId) {
+      return this.paused || this.stopWatch !== null || this.watch();
+    }
+
+    this.stop();
+    const trip = storageService.getTripById(tripId);
+    if (!trip || trip.status !== 'active') return false;
+
+    const waypoints = trip.waypoints ?? [];
+    this.tripId = tripId;
+    this.paused = false;
+    this.pointCount = waypoints.length;
+    this.lastPoint = waypoints[waypoints.length - 1] ?? null;
+    this.error = null;
+    return this.watch();
+  }
+
+  /**
+   * Stop following the device but keep the trip, e.g. to save battery
+   */
+  pause(): void {
+    if (!this.tripId || this.paused) return;
+
+    this.flush();
+    this.unwatch();
+    this.paused = true;
+    this.notify();
+  }
+
+  resume(): boolean {
+    if (!this.tripId || !this.paused) return false;
+
+    this.paused = false;
+    return this.watch();
+  }
+
+  /**
+   * Save what is buffered and stop recording
+   */
+  stop(): void {
+    if (!this.tripId) return;
+
+    this.flush();
+    this.unwatch();
+    this.tripId = null;
+    this.paused = false;
+    this.pending = [];
+    this.lastPoint = null;
+    this.pointCount = 0;
+    this.notify();
+  }
+
+  /**
+   * Write buffered fixes to the trip now, e.g. before it is completed
+   */
+  flush(): void {
+    if (!this.tripId || this.pending.length === 0) return;
+
+    const points = this.pending;
+    this.pending = [];
+    if (!storageService.appendWaypoints(this.tripId, points)) {
+      // The trip ended elsewhere (another tab, or a sync from another device)
+      this.unwatch();
+      this.tripId = null;
+      this.notify();
+    }
+  }
+
+  private watch(): boolean {
+    this.stopWatch = geolocationService.watchPosition(
+      (location) => this.record(location),
+      (error) => {
+        this.error = error;
+        this.notify();
+      }
+    );
+
+    if (this.stopWatch) {
+      this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL);
+    } else {
+      this.error = 'Location tracking is not supported on this device';
+    }
+    this.notify();
+    return this.stopWatch !== null;
+  }
+
+  private unwatch(): void {
+    this.stopWatch?.();
+    this.stopWatch = null;
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private record(location: Location): void {
+    this.error = null;
+    if (!this.shouldRecord(location)) return;
+
+    this.pending.push(location);
+    this.lastPoint = location;
+    this.pointCount++;
+    if (this.pending.length >= FLUSH_SIZE) {
+      this.flush();
+    }
+    this.notify();
+  }
+
+  private shouldRecord(location: Location): boolean {
+    if (location.accuracy !== undefined && location.accuracy > MAX_ACCURACY) return false;
+    if (!this.lastPoint) return true;
+
+    const elapsed = location.timestamp.getTime() - new Date(this.lastPoint.timestamp).getTime();
+    if (elapsed >= MAX_INTERVAL) return true;
+    return elapsed >= MIN_INTERVAL &&
+      GeolocationService.calculateDistance(this.lastPoint, location) >= MIN_DISTANCE;
+  }
+}
+
+// Singleton instance
+export const traceRecorder = TraceRecorder.getInstance();
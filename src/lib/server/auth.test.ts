@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthError, normalizePhone, requestOtp, verifyOtp } from './auth';
+import { FakeSmsSender, setSmsSender } from './sms';
+
+const MINUTE = 60 * 1000;
+
+let sms: FakeSmsSender;
+let phoneCount = 0;
+
+// Each test signs in with a number of its own
+const nextPhone = () => `+9198765${String(phoneCount++).padStart(5, '0')}`;
+
+const codeSentTo = (phone: string) => sms.lastMessageTo(phone)!.message.match(/\d{6}/)![0];
+
+const wrongCode = (phone: string) => (codeSentTo(phone) === '000000' ? '111111' : '000000');
+
+const authError = (attempt: () => unknown): AuthError => {
+  try {
+    attempt();
+  } catch (error) {
+    if (error instanceof AuthError) return error;
+    throw error;
+  }
+  throw new Error('Expected an AuthError');
+};
+
+const advance = (ms: number) => vi.setSystemTime(Date.now() + ms);
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  sms = new FakeSmsSender();
+  setSmsSender(sms);
+  vi.spyOn(console, 'info').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('normalizePhone', () => {
+  it('accepts Indian mobile numbers in the usual spellings', () => {
+    expect(normalizePhone('98765 43210')).toBe('+919876543210');
+    expect(normalizePhone('+91-98765-43210')).toBe('+919876543210');
+    expect(normalizePhone('098765 43210')).toBe('+919876543210');
+  });
+
+  it('rejects anything else', () => {
+    expect(() => normalizePhone('12345')).toThrow(AuthError);
+    expect(() => normalizePhone('+15551234567')).toThrow(AuthError);
+  });
+});
+
+describe('OTP sign-in', () => {
+  it('signs in with the code that was sent, once', async () => {
+    const phone = nextPhone();
+    await requestOtp(phone);
+    const code = codeSentTo(phone);
+
+    const session = verifyOtp(phone, code, 'Asha');
+    expect(session.user).toMatchObject({ phone, name: 'Asha' });
+    expect(session.token).toMatch(/^[0-9a-f]{64}$/);
+
+    expect(authError(() => verifyOtp(phone, code)).status).toBe(400);
+  });
+
+  it('makes the user wait before sending another code', async () => {
+    const phone = nextPhone();
+    await requestOtp(phone);
+
+    await expect(requestOtp(phone)).rejects.toMatchObject({ status: 429 });
+    advance(31 * 1000);
+    await expect(requestOtp(phone)).resolves.toMatchObject({ phone });
+  });
+
+  it('rejects a code after it expires', async () => {
+    const phone = nextPhone();
+    await requestOtp(phone);
+    const code = codeSentTo(phone);
+
+    advance(5 * MINUTE + 1);
+    expect(authError(() => verifyOtp(phone, code)).message).toMatch(/expired/);
+  });
+
+  it('stops accepting a code after five wrong guesses', async () => {
+    const phone = nextPhone();
+    await requestOtp(phone);
+    const code = codeSentTo(phone);
+
+    for (let i = 0; i < 5; i++) {
+      expect(authError(() => verifyOtp(phone, wrongCode(phone))).status).toBe(400);
+    }
+    expect(authError(() => verifyOtp(phone, code)).status).toBe(429);
+  });
+
+  it('locks the phone out after ten wrong guesses across codes', async () => {
+    const phone = nextPhone();
+
+    for (let round = 0; round < 2; round++) {
+      await requestOtp(phone);
+      for (let i = 0; i < 5; i++) authError(() => verifyOtp(phone, wrongCode(phone)));
+      advance(31 * 1000);
+    }
+
+    await expect(requestOtp(phone)).rejects.toMatchObject({ status: 429 });
+
+    // The lockout lifts after an hour
+    advance(60 * MINUTE);
+    await requestOtp(phone);
+    expect(verifyOtp(phone, codeSentTo(phone)).user.phone).toBe(phone);
+  });
+});
+
+describe('SMS sender', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('fails sign-in in production when no real sender is registered', async () => {
+    vi.resetModules();
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fresh = await import('./auth');
+
+    await expect(fresh.requestOtp(nextPhone())).rejects.toMatchObject({ status: 503 });
+  });
+
+  it('falls back to the logging sender outside production', async () => {
+    vi.resetModules();
+    const fresh = await import('./sms');
+
+    expect(fresh.getSmsSender()).toBeInstanceOf(fresh.FakeSmsSender);
+  });
+});
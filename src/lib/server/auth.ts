@@ -0,0 +1,228 @@
+// Phone OTP sign-in and session tokens for the NATPAC research server
+//
+// A respondent proves they own a phone number by entering the code we text
+// to it, and gets back a bearer token. Only hashes of codes and tokens are
+// stored, so a copy of the database cannot be used to sign in.
+
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthSession, OtpChallenge, User } from '@/lib/types';
+import { getRepositories } from './repositories';
+import { getSmsSender } from './sms';
+
+const MINUTE = 60 * 1000;
+
+const OTP_LENGTH = 6;
+const OTP_TTL = 5 * MINUTE;
+const OTP_RESEND_DELAY = 30 * 1000; // 30 seconds
+const OTP_MAX_ATTEMPTS = 5;
+// A new code resets the per-code limit, so wrong codes are also capped per phone
+const PHONE_MAX_FAILURES = 10;
+const PHONE_LOCKOUT = 60 * MINUTE;
+const SESSION_TTL = 30 * 24 * 60 * MINUTE; // 30 days
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const hash = (value: string) => createHash('sha256').update(value).digest('hex');
+
+const sameHash = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+/**
+ * Normalize an Indian mobile number to E.164 (+91XXXXXXXXXX)
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/[\s\-()]/g, '');
+  const match = digits.match(/^(?:\+?91|0)?([6-9]\d{9})$/);
+  if (!match) {
+    throw new AuthError('Enter a valid 10-digit mobile number', 400);
+  }
+  return `+91${match[1]}`;
+}
+
+const isLockedOut = (phone: string, now: Date) =>
+  getRepositories().otpChallenges.countFailures(phone, new Date(now.getTime() - PHONE_LOCKOUT)) >= PHONE_MAX_FAILURES;
+
+/**
+ * Text a fresh sign-in code to `phone`, replacing any earlier one
+ */
+export async function requestOtp(phone: string): Promise<OtpChallenge> {
+  const normalized = normalizePhone(phone);
+  const { otpChallenges } = getRepositories();
+  const now = new Date();
+
+  const sender = getSmsSender();
+  if (!sender) {
+    console.error('No SMS sender registered; cannot send sign-in codes');
+    throw new AuthError('Sign-in by text message is not available right now', 503);
+  }
+
+  otpChallenges.deleteFailuresBefore(new Date(now.getTime() - PHONE_LOCKOUT));
+  if (isLockedOut(normalized, now)) {
+    throw new AuthError('Too many incorrect codes. Please try again later.', 429);
+  }
+
+  const existing = otpChallenges.find(normalized);
+  if (existing && existing.resendAfter > now) {
+    throw new AuthError('Please wait before requesting another code', 429);
+  }
+
+  const code = randomInt(0, Math.pow(10, OTP_LENGTH)).toString().padStart(OTP_LENGTH, '0');
+  const challenge: OtpChallenge = {
+    phone: normalized,
+    expiresAt: new Date(now.getTime() + OTP_TTL),
+    resendAfter: new Date(now.getTime() + OTP_RESEND_DELAY)
+  };
+
+  otpChallenges.save({ ...challenge, codeHash: hash(`${normalized}:${code}`), attempts: 0 });
+  await sender.send(normalized, `Your NATPAC Travel verification code is ${code}. It expires in 5 minutes.`);
+
+  return challenge;
+}
+
+/**
+ * Check a code and start a session, registering the user on first sign-in
+ */
+export function verifyOtp(phone: string, code: string, name?: string): AuthSession {
+  const normalized = normalizePhone(phone);
+  const repositories = getRepositories();
+
+  // Failures are returned rather than thrown so the attempt count commits
+  const result = repositories.transaction((): AuthSession | AuthError => {
+    const now = new Date();
+    const challenge = repositories.otpChallenges.find(normalized);
+
+    if (!challenge || challenge.expiresAt <= now) {
+      return new AuthError('Code has expired. Please request a new one.', 400);
+    }
+    if (isLockedOut(normalized, now)) {
+      return new AuthError('Too many incorrect codes. Please try again later.', 429);
+    }
+    if (challenge.attempts >= OTP_MAX_ATTEMPTS) {
+      return new AuthError('Too many incorrect attempts. Please request a new code.', 429);
+    }
+    if (!sameHash(challenge.codeHash, hash(`${normalized}:${code.trim()}`))) {
+      repositories.otpChallenges.save({ ...challenge, attempts: challenge.attempts + 1 });
+      repositories.otpChallenges.recordFailure(normalized, now);
+      return new AuthError('Incorrect code', 400);
+    }
+
+    repositories.otpChallenges.delete(normalized);
+    repositories.otpChallenges.clearFailures(normalized);
+
+    const existing = repositories.users.findByPhone(normalized);
+    const user: User = existing
+      ? { ...existing, name: existing.name ?? (name?.trim() || undefined), lastActiveAt: now }
+      : {
+          id: `user_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+          name: name?.trim() || undefined,
+          phone: normalized,
+          hasDataConsent: false,
+          hasLocationConsent: false,
+          createdAt: now,
+          lastActiveAt: now
+        };
+    repositories.users.save(user);
+
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = new Date(now.getTime() + SESSION_TTL);
+    repositories.sessions.deleteExpired(now);
+    repositories.sessions.create(hash(token), user.id, expiresAt);
+
+    return { token, user, expiresAt };
+  });
+
+  if (result instanceof AuthError) throw result;
+  return result;
+}
+
+const getBearerToken = (request: NextRequest) => {
+  const header = request.headers.get('Authorization') ?? '';
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+};
+
+/**
+ * The user behind the request's bearer token, or null if it has none or
+ * the session has expired
+ */
+export function getSessionUser(request: NextRequest): User | null {
+  const token = getBearerToken(request);
+  if (!token) return null;
+
+  const { sessions, users } = getRepositories();
+  const userId = sessions.findUserId(hash(token), new Date());
+  return userId ? users.findById(userId) : null;
+}
+
+export function revokeSession(request: NextRequest): boolean {
+  const token = getBearerToken(request);
+  return token ? getRepositories().sessions.delete(hash(token)) : false;
+}
+
+/**
+ * Run `handler` for the signed-in user, or answer 401
+ */
+export async function withAuth(
+  request: NextRequest,
+  handler: (user: User) => Promise<NextResponse>
+): Promise<NextResponse> {
+  let user: User | null;
+
+  try {
+    user = getSessionUser(request);
+  } catch (error) {
+    console.error('Error checking session:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check session' },
+      { status: 500 }
+    );
+  }
+
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: 'Sign in required' },
+      { status: 401 }
+    );
+  }
+
+  return handler(user);
+}
+
+/**
+ * Whether `user` may see trips across all respondents: their phone is one
+ * of those listed, comma-separated, in NATPAC_RESEARCHER_PHONES
+ */
+export function isResearcher(user: User): boolean {
+  const listed = (process.env.NATPAC_RESEARCHER_PHONES ?? '').split(',').flatMap(phone => {
+    try {
+      return [normalizePhone(phone)];
+    } catch {
+      return [];
+    }
+  });
+  return user.phone !== undefined && listed.includes(user.phone);
+}
+
+/**
+ * Run `handler` for a signed-in researcher, or answer 401 or 403
+ */
+export async function withResearcher(
+  request: NextRequest,
+  handler: (user: User) => Promise<NextResponse>
+): Promise<NextResponse> {
+  return withAuth(request, async user => {
+    if (!isResearcher(user)) {
+      return NextResponse.json(
+        { success: false, error: 'Researcher access required' },
+        { status: 403 }
+      );
+    }
+    return handler(user);
+  });
+}
@@ -0,0 +1,155 @@
+// SQLite connection for the NATPAC research server
+//
+// Submissions live in a single database file so they survive restarts and
+// are shared by every route handler in the process. Set NATPAC_DB_PATH to
+// move it (':memory:' gives a throwaway database).
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export type SqliteDatabase = Database.Database;
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'natpac.sqlite');
+
+/**
+ * Ordered schema steps; the database's user_version records how many have
+ * run. Append new steps, never edit one that has shipped.
+ */
+const SCHEMA: string[] = [
+  `
+    CREATE TABLE trips (
+      id TEXT PRIMARY KEY,
+      trip_number INTEGER NOT NULL,
+      primary_traveler TEXT NOT NULL,
+      status TEXT NOT NULL,
+      start_time TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX trips_primary_traveler ON trips (primary_traveler, status);
+    CREATE INDEX trips_updated_at ON trips (updated_at);
+
+    CREATE TABLE travelers (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      has_consent INTEGER NOT NULL,
+      created_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX travelers_name ON travelers (name COLLATE NOCASE);
+  `,
+  `
+    CREATE TABLE users (
+      id TEXT PRIMARY KEY,
+      phone TEXT NOT NULL UNIQUE,
+      created_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+
+    CREATE TABLE sessions (
+      token_hash TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+      created_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    );
+    CREATE INDEX sessions_user_id ON sessions (user_id);
+
+    CREATE TABLE otp_challenges (
+      phone TEXT PRIMARY KEY,
+      code_hash TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      expires_at TEXT NOT NULL,
+      resend_after TEXT NOT NULL
+    );
+
+    ALTER TABLE travelers ADD COLUMN user_id TEXT;
+    DROP INDEX travelers_name;
+    CREATE INDEX travelers_user_name ON travelers (user_id, name COLLATE NOCASE);
+  `,
+  `
+    ALTER TABLE trips ADD COLUMN mode TEXT;
+    ALTER TABLE trips ADD COLUMN purpose TEXT;
+    UPDATE trips SET mode = json_extract(data, '$.mode'), purpose = json_extract(data, '$.purpose');
+    CREATE INDEX trips_start_time ON trips (primary_traveler, start_time);
+  `,
+  `
+    CREATE TABLE idempotency_keys (
+      key TEXT PRIMARY KEY,
+      status INTEGER,
+      body TEXT,
+      created_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    );
+    CREATE INDEX idempotency_keys_expires_at ON idempotency_keys (expires_at);
+  `,
+  `
+    ALTER TABLE trips ADD COLUMN change_seq INTEGER NOT NULL DEFAULT 0;
+    UPDATE trips SET change_seq = rowid;
+    CREATE INDEX trips_change_seq ON trips (primary_traveler, change_seq);
+
+    CREATE TABLE deleted_trips (
+      id TEXT PRIMARY KEY,
+      primary_traveler TEXT NOT NULL,
+      change_seq INTEGER NOT NULL,
+      deleted_at TEXT NOT NULL
+    );
+    CREATE INDEX deleted_trips_change_seq ON deleted_trips (primary_traveler, change_seq);
+  `,
+  `
+    CREATE TABLE otp_failures (
+      phone TEXT NOT NULL,
+      failed_at TEXT NOT NULL
+    );
+    CREATE INDEX otp_failures_phone ON otp_failures (phone, failed_at);
+  `,
+  `
+    CREATE TABLE users_new (
+      id TEXT PRIMARY KEY,
+      phone TEXT UNIQUE,
+      created_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    INSERT INTO users_new (id, phone, created_at, data)
+      SELECT id, NULLIF(phone, ''), created_at, data FROM users;
+    DROP TABLE users;
+    ALTER TABLE users_new RENAME TO users;
+  `
+];
+
+// Survive Next.js dev reloads without opening a second connection
+const globalForDb = globalThis as unknown as { natpacDb?: SqliteDatabase };
+
+function migrate(db: SqliteDatabase): void {
+  const version = db.pragma('user_version', { simple: true }) as number;
+
+  // Off while steps run, so rebuilding a table does not cascade deletes into
+  // the tables that reference it; the pragma is ignored inside a transaction
+  db.pragma('foreign_keys = OFF');
+  SCHEMA.slice(version).forEach((step, index) => {
+    db.transaction(() => {
+      db.exec(step);
+      db.pragma(`user_version = ${version + index + 1}`);
+    })();
+  });
+  db.pragma('foreign_keys = ON');
+}
+
+export function openDatabase(filename: string = process.env.NATPAC_DB_PATH || DEFAULT_DB_PATH): SqliteDatabase {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  migrate(db);
+  return db;
+}
+
+export function getDatabase(): SqliteDatabase {
+  if (!globalForDb.natpacDb) {
+    globalForDb.natpacDb = openDatabase();
+  }
+  return globalForDb.natpacDb;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NextRequest, NextResponse } from 'next/server';
+import { withIdempotency } from './idempotency';
+
+let keyCount = 0;
+
+// Each test replays a key of its own against the shared database
+const nextKey = () => `key_${keyCount++}`;
+
+const post = (key?: string) =>
+  new NextRequest('http://localhost/api/trips', {
+    method: 'POST',
+    headers: key ? { 'Idempotency-Key': key } : {}
+  });
+
+const handlerReturning = (status: number) =>
+  vi.fn(async () =>
+    status === 204 ? new NextResponse(null, { status }) : NextResponse.json({ success: status < 400, status }, { status })
+  );
+
+describe('withIdempotency', () => {
+  it('runs every request that carries no key', async () => {
+    const handler = handlerReturning(201);
+
+    await withIdempotency(post(), handler, 'user_1');
+    await withIdempotency(post(), handler, 'user_1');
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('replays the stored response for a repeated key without running it again', async () => {
+    const key = nextKey();
+    const handler = handlerReturning(201);
+
+    await withIdempotency(post(key), handler, 'user_1');
+    const replay = await withIdempotency(post(key), handler, 'user_1');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(replay.status).toBe(201);
+    expect(replay.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(await replay.json()).toEqual({ success: true, status: 201 });
+  });
+
+  it('keeps one user\'s keys from matching another\'s', async () => {
+    const key = nextKey();
+    const handler = handlerReturning(201);
+
+    await withIdempotency(post(key), handler, 'user_1');
+    await withIdempotency(post(key), handler, 'user_2');
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('asks a repeat to retry while the first attempt is still running', async () => {
+    const key = nextKey();
+    let finish: (response: NextResponse) => void = () => {};
+    const first = withIdempotency(post(key), () => new Promise(resolve => { finish = resolve; }), 'user_1');
+
+    const repeat = await withIdempotency(post(key), handlerReturning(201), 'user_1');
+    expect(repeat.status).toBe(503);
+    expect(repeat.headers.get('Retry-After')).toBe('1');
+
+    finish(NextResponse.json({ success: true }, { status: 201 }));
+    expect((await first).status).toBe(201);
+  });
+
+  it('frees the key after a server error so the retry runs for real', async () => {
+    const key = nextKey();
+    const handler = handlerReturning(500);
+
+    await withIdempotency(post(key), handler, 'user_1');
+    await withIdempotency(post(key), handler, 'user_1');
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('frees the key when the handler throws', async () => {
+    const key = nextKey();
+
+    await expect(withIdempotency(post(key), async () => { throw new Error('boom'); }, 'user_1')).rejects.toThrow('boom');
+    const retry = await withIdempotency(post(key), handlerReturning(201), 'user_1');
+
+    expect(retry.headers.get('Idempotent-Replayed')).toBeNull();
+  });
+
+  it('replays responses without a body', async () => {
+    const key = nextKey();
+    const handler = handlerReturning(204);
+
+    await withIdempotency(post(key), handler, 'user_1');
+    const replay = await withIdempotency(post(key), handler, 'user_1');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(replay.status).toBe(204);
+    expect(replay.headers.get('Idempotent-Replayed')).toBe('true');
+  });
+});
@@ -0,0 +1,65 @@
+// Idempotency-Key handling for mutating API routes
+//
+// Offline clients replay queued requests whenever they cannot tell whether an
+// earlier attempt reached us. A request carrying a key we have already
+// answered gets the stored response back instead of being applied twice.
+// Keys are kept in the database with the trips, so a replay is recognised
+// after a restart and by any server process.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepositories } from './repositories';
+
+const IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const ATTEMPT_LEASE = 60 * 1000; // an attempt that never finished frees its key after a minute
+
+/**
+ * Replay the stored response for a repeated Idempotency-Key. `scope` (the
+ * signed-in user) keeps one client's keys from matching another's.
+ */
+export async function withIdempotency(
+  request: NextRequest,
+  handler: () => Promise<NextResponse>,
+  scope: string = ''
+): Promise<NextResponse> {
+  const key = request.headers.get('Idempotency-Key');
+  if (!key) return handler();
+
+  const keys = getRepositories().idempotencyKeys;
+  const now = new Date();
+  keys.deleteExpired(now);
+
+  const scopedKey = `${scope} ${request.method} ${new URL(request.url).pathname} ${key}`;
+
+  // Claim the key before running so a concurrent replay is not applied too
+  if (!keys.claim(scopedKey, now, new Date(now.getTime() + ATTEMPT_LEASE))) {
+    const stored = keys.findResponse(scopedKey, now);
+    if (stored) {
+      const init = { status: stored.status, headers: { 'Idempotent-Replayed': 'true' } };
+      // A 204 cannot carry the JSON null body json() would give it
+      return stored.status === 204 ? new NextResponse(null, init) : NextResponse.json(stored.body, init);
+    }
+
+    // The first attempt is still running; the client retries 503s
+    return NextResponse.json(
+      { success: false, error: 'This request is already being processed' },
+      { status: 503, headers: { 'Retry-After': '1' } }
+    );
+  }
+
+  try {
+    const response = await handler();
+
+    // Server errors are not final; let the client retry them for real
+    if (response.status >= 500) {
+      keys.release(scopedKey);
+      return response;
+    }
+
+    const body = response.status === 204 ? null : await response.clone().json();
+    keys.complete(scopedKey, { status: response.status, body }, new Date(Date.now() + IDEMPOTENCY_TTL));
+    return response;
+  } catch (error) {
+    keys.release(scopedKey);
+    throw error;
+  }
+}
@@ -0,0 +1,162 @@
+// Query-string parsing for the NATPAC research server
+//
+// List and stats routes share these parsers so every endpoint accepts the
+// same filter names and reports bad values as a 400 with field errors.
+
+import { z } from 'zod';
+import { PaginatedResponse } from '@/lib/types';
+import {
+  decode,
+  timeBandSchema,
+  transportModeSchema,
+  tripPurposeSchema,
+  tripStatusSchema,
+  zoneLevelSchema
+} from '@/lib/codecs';
+import { getZones, ZoneLevel } from '@/lib/zones';
+import { ODOptions } from '@/lib/od';
+import { ExportFormat } from '@/lib/export';
+import { TravelerQuery, TripQuery } from './repositories';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  offset: number;
+}
+
+const date = z.coerce.date();
+
+const zoneId = z.string().refine(id => getZones().get(id) !== null, { message: 'Unknown zone' });
+
+const paginationSchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be 1 or more').default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be 1 or more')
+    .max(MAX_PAGE_SIZE, `Limit must be at most ${MAX_PAGE_SIZE}`)
+    .default(DEFAULT_PAGE_SIZE)
+});
+
+const changeCursorSchema = z.object({
+  since: z.coerce.number().int().min(0, 'since must be 0 or more').default(0),
+  limit: paginationSchema.shape.limit
+});
+
+const tripFilterSchema = z
+  .object({
+    status: tripStatusSchema.optional(),
+    mode: transportModeSchema.optional(),
+    purpose: tripPurposeSchema.optional(),
+    from: date.optional(),
+    to: date.optional(),
+    updatedSince: date.optional(),
+    originZone: zoneId.optional(),
+    destinationZone: zoneId.optional()
+  })
+  .refine(filters => !filters.from || !filters.to || filters.from <= filters.to, {
+    message: 'from must not be after to',
+    path: ['to']
+  });
+
+const zoneLevelFilterSchema = z.object({
+  zoneLevel: zoneLevelSchema.default('district')
+});
+
+const odOptionsSchema = z.object({
+  zoneLevel: zoneLevelSchema.default('district'),
+  timeBand: timeBandSchema.optional(),
+  format: z.enum(['json', 'csv']).default('json')
+});
+
+const exportFormatSchema = z.object({
+  format: z.enum(['trips_csv', 'stages_csv', 'geojson', 'gpx', 'schema']).default('trips_csv')
+});
+
+const travelerFilterSchema = z.object({
+  hasConsent: z.enum(['true', 'false']).optional()
+});
+
+// Empty parameters (`?mode=`) mean "no filter", not an invalid value
+const toRecord = (searchParams: URLSearchParams) =>
+  Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''));
+
+/**
+ * `page` (from 1) and `limit` (page size) with defaults
+ */
+export function parsePagination(searchParams: URLSearchParams): Pagination {
+  const { page, limit } = decode(paginationSchema, toRecord(searchParams), 'pagination');
+  return { page, limit, offset: (page - 1) * limit };
+}
+
+/**
+ * Change feed position: `since` (the cursor from the previous response, 0
+ * for everything) and `limit` (page size)
+ */
+export function parseChangeCursor(searchParams: URLSearchParams): { since: number; limit: number } {
+  return decode(changeCursorSchema, toRecord(searchParams), 'cursor');
+}
+
+/**
+ * Trip filters: `status`, `mode`, `purpose`, `updatedSince`, a start time
+ * range where `from` is inclusive and `to` exclusive, and `originZone` /
+ * `destinationZone`, which also match the zones inside the one named
+ */
+export function parseTripFilters(searchParams: URLSearchParams): TripQuery {
+  const { status, mode, purpose, from, to, updatedSince, originZone, destinationZone } =
+    decode(tripFilterSchema, toRecord(searchParams), 'filters');
+  return {
+    status,
+    mode,
+    purpose,
+    startedFrom: from,
+    startedBefore: to,
+    updatedSince,
+    originZones: originZone ? getZones().descendants(originZone) : undefined,
+    destinationZones: destinationZone ? getZones().descendants(destinationZone) : undefined
+  };
+}
+
+/**
+ * `zoneLevel` to group trips by: district (the default), local_body or taz
+ */
+export function parseZoneLevel(searchParams: URLSearchParams): ZoneLevel {
+  return decode(zoneLevelFilterSchema, toRecord(searchParams), 'filters').zoneLevel;
+}
+
+/**
+ * OD matrix options: `zoneLevel` (district by default), `timeBand`, and
+ * `format`, json (the default) or csv
+ */
+export function parseODOptions(searchParams: URLSearchParams): ODOptions & { format: 'json' | 'csv' } {
+  return decode(odOptionsSchema, toRecord(searchParams), 'filters');
+}
+
+/**
+ * Export `format`: trips_csv (the default), stages_csv, geojson, gpx, or
+ * schema for the column descriptions
+ */
+export function parseExportFormat(searchParams: URLSearchParams): ExportFormat | 'schema' {
+  return decode(exportFormatSchema, toRecord(searchParams), 'filters').format;
+}
+
+export function parseTravelerFilters(searchParams: URLSearchParams): TravelerQuery {
+  const { hasConsent } = decode(travelerFilterSchema, toRecord(searchParams), 'filters');
+  return { hasConsent: hasConsent === undefined ? undefined : hasConsent === 'true' };
+}
+
+export function paginate<T>(data: T[], total: number, pagination: Pagination): PaginatedResponse<T> {
+  return {
+    success: true,
+    data,
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit)
+    }
+  };
+}
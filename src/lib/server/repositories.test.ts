@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Traveler, Trip, User } from '@/lib/types';
+import { openDatabase } from './db';
+import { createSqliteRepositories, Repositories } from './repositories';
+
+const HOUR = 60 * 60 * 1000;
+
+const makeTrip = (id: string, primaryTraveler: string, overrides: Partial<Trip> = {}): Trip => {
+  const startTime = new Date(Date.now() - HOUR);
+  return {
+    id,
+    tripNumber: 1,
+    status: 'planned',
+    origin: { latitude: 8.5241, longitude: 76.9366, timestamp: startTime },
+    startTime,
+    mode: 'bus',
+    purpose: 'work',
+    primaryTraveler,
+    accompanyingTravelers: [],
+    totalTravelers: 1,
+    createdAt: startTime,
+    updatedAt: startTime,
+    ...overrides
+  };
+};
+
+const makeTraveler = (id: string, name: string): Traveler => ({
+  id,
+  name,
+  ageGroup: 'adult',
+  relationship: 'friend',
+  hasConsent: true,
+  createdAt: new Date()
+});
+
+const makeUser = (id: string, phone?: string): User => ({
+  id,
+  phone,
+  hasDataConsent: true,
+  hasLocationConsent: true,
+  createdAt: new Date(),
+  lastActiveAt: new Date()
+});
+
+let repositories: Repositories;
+
+beforeEach(() => {
+  repositories = createSqliteRepositories(openDatabase(':memory:'));
+});
+
+describe('SqliteTripRepository', () => {
+  it('will not let one user overwrite another user\'s trip by id', () => {
+    const { trips } = repositories;
+    expect(trips.save(makeTrip('trip_1', 'alice', { notes: 'mine' }))).toBe(true);
+
+    expect(trips.save(makeTrip('trip_1', 'bob', { notes: 'taken' }))).toBe(false);
+    expect(trips.findById('trip_1')).toMatchObject({ primaryTraveler: 'alice', notes: 'mine' });
+  });
+
+  it('finds a trip only for its owner', () => {
+    const { trips } = repositories;
+    trips.save(makeTrip('trip_1', 'alice'));
+
+    expect(trips.findForUser('alice', 'trip_1')?.id).toBe('trip_1');
+    expect(trips.findForUser('bob', 'trip_1')).toBeNull();
+    expect(trips.list({ userId: 'bob' })).toEqual([]);
+    expect(trips.count({ userId: 'alice' })).toBe(1);
+  });
+
+  it('filters, counts and pages', () => {
+    const { trips } = repositories;
+    const walk = makeTrip('stage_trip', 'alice');
+    trips.save(makeTrip('trip_1', 'alice', { mode: 'bus' }));
+    trips.save(makeTrip('trip_2', 'alice', { mode: 'walk', purpose: 'shopping' }));
+    trips.save(makeTrip('trip_3', 'alice', {
+      mode: 'car',
+      stages: [{ id: 'stage_1', mode: 'walk', origin: walk.origin, startTime: walk.startTime }]
+    }));
+
+    expect(trips.list({ userId: 'alice', mode: 'walk' }).map(trip => trip.id).sort()).toEqual(['trip_2', 'trip_3']);
+    expect(trips.count({ userId: 'alice', purpose: 'shopping' })).toBe(1);
+    expect(trips.list({ userId: 'alice', limit: 2 })).toHaveLength(2);
+    expect(trips.list({ userId: 'alice', limit: 2, offset: 2 })).toHaveLength(1);
+  });
+
+  it('lists saves and deletions after a cursor, for the owner only', () => {
+    const { trips } = repositories;
+    trips.save(makeTrip('trip_1', 'alice'));
+    trips.save(makeTrip('trip_2', 'bob'));
+    const { cursor } = trips.listChanges('alice', 0, 10);
+
+    trips.save(makeTrip('trip_3', 'alice'));
+    trips.delete('trip_1');
+
+    const changes = trips.listChanges('alice', cursor, 10);
+    expect(changes.trips.map(trip => trip.id)).toEqual(['trip_3']);
+    expect(changes.deleted).toEqual(['trip_1']);
+    expect(changes.cursor).toBeGreaterThan(cursor);
+    expect(trips.listChanges('alice', changes.cursor, 10)).toMatchObject({ trips: [], deleted: [], hasMore: false });
+  });
+});
+
+describe('SqliteTravelerRepository', () => {
+  it('keeps each user\'s travelers to themselves', () => {
+    const { travelers } = repositories;
+    travelers.save('alice', makeTraveler('traveler_1', 'Meera'));
+
+    expect(travelers.save('bob', makeTraveler('traveler_1', 'Someone else'))).toBe(false);
+    expect(travelers.findById('bob', 'traveler_1')).toBeNull();
+    expect(travelers.findByName('alice', ' meera ')?.id).toBe('traveler_1');
+    expect(travelers.delete('bob', 'traveler_1')).toBe(false);
+    expect(travelers.list('alice')).toHaveLength(1);
+  });
+});
+
+describe('SqliteUserRepository', () => {
+  it('stores users without a phone number', () => {
+    const { users } = repositories;
+    users.save(makeUser('user_1'));
+    users.save(makeUser('user_2'));
+    users.save(makeUser('user_3', '+919876543210'));
+
+    expect(users.findById('user_2')?.phone).toBeUndefined();
+    expect(users.findByPhone('+919876543210')?.id).toBe('user_3');
+    expect(() => users.save(makeUser('user_4', '+919876543210'))).toThrow(/UNIQUE/);
+  });
+});
+
+describe('SqliteSessionRepository', () => {
+  it('finds only sessions that have not expired', () => {
+    const { users, sessions } = repositories;
+    const now = new Date();
+    users.save(makeUser('user_1'));
+    sessions.create('live', 'user_1', new Date(now.getTime() + HOUR));
+    sessions.create('stale', 'user_1', new Date(now.getTime() - HOUR));
+
+    expect(sessions.findUserId('live', now)).toBe('user_1');
+    expect(sessions.findUserId('stale', now)).toBeNull();
+    expect(sessions.deleteExpired(now)).toBe(1);
+  });
+});
@@ -0,0 +1,610 @@
+// Repository layer for the NATPAC research server
+//
+// Route handlers talk to these interfaces rather than to SQL. Records are
+// stored as JSON documents next to the columns we filter and sort on, and
+// every read goes back through the codecs so callers get real Dates.
+
+import { TransportMode, Trip, TripPurpose, TripStatus, Traveler, User } from '@/lib/types';
+import { decodeTraveler, decodeTrip, decodeUser } from '@/lib/codecs';
+import { getDatabase, SqliteDatabase } from './db';
+
+export interface TripQuery {
+  userId?: string;
+  status?: TripStatus;
+  mode?: TransportMode;
+  purpose?: TripPurpose;
+  /** Trips starting at or after this time */
+  startedFrom?: Date;
+  /** Trips starting before this time */
+  startedBefore?: Date;
+  updatedSince?: Date;
+  /** Trips whose origin's recorded zone is one of these */
+  originZones?: string[];
+  /** Trips whose destination's recorded zone is one of these */
+  destinationZones?: string[];
+  limit?: number;
+  offset?: number;
+}
+
+/** What changed in one user's trips after a cursor, oldest change first */
+export interface TripChanges {
+  trips: Trip[];
+  /** Ids of trips deleted since the cursor */
+  deleted: string[];
+  /** Pass back as `since` to get the changes after these */
+  cursor: number;
+  hasMore: boolean;
+}
+
+export interface TravelerQuery {
+  hasConsent?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface TripRepository {
+  list(query?: TripQuery): Trip[];
+  /** Trips matching the query's filters, ignoring limit and offset */
+  count(query?: TripQuery): number;
+  findById(id: string): Trip | null;
+  /** Null for another user's trip, exactly as for a missing one */
+  findForUser(userId: string, id: string): Trip | null;
+  findActive(userId: string): Trip | null;
+  /**
+   * Trips saved and deleted after `since`. Every save and delete takes the
+   * next number in the user's sequence, so devices pull by the server's
+   * count rather than by their own clocks.
+   */
+  listChanges(userId: string, since: number, limit: number): TripChanges;
+  nextTripNumber(): number;
+  /** Insert or replace; false if the id belongs to another user's trip */
+  save(trip: Trip): boolean;
+  /** Removes the trip, leaving a record of the deletion for other devices */
+  delete(id: string): boolean;
+}
+
+// Travelers carry no owner field of their own, so every call names the user
+export interface TravelerRepository {
+  list(userId: string, query?: TravelerQuery): Traveler[];
+  count(userId: string, query?: TravelerQuery): number;
+  findById(userId: string, id: string): Traveler | null;
+  findByName(userId: string, name: string): Traveler | null;
+  /** Insert or replace; false if the id belongs to another user's traveler */
+  save(userId: string, traveler: Traveler): boolean;
+  delete(userId: string, id: string): boolean;
+}
+
+export interface UserRepository {
+  findById(id: string): User | null;
+  findByPhone(phone: string): User | null;
+  save(user: User): void;
+}
+
+export interface SessionRepository {
+  create(tokenHash: string, userId: string, expiresAt: Date): void;
+  findUserId(tokenHash: string, now: Date): string | null;
+  delete(tokenHash: string): boolean;
+  deleteExpired(now: Date): number;
+}
+
+export interface StoredOtpChallenge {
+  phone: string;
+  codeHash: string;
+  attempts: number;
+  expiresAt: Date;
+  resendAfter: Date;
+}
+
+export interface OtpChallengeRepository {
+  find(phone: string): StoredOtpChallenge | null;
+  save(challenge: StoredOtpChallenge): void;
+  delete(phone: string): boolean;
+  /** Wrong codes are also counted per phone, across challenges */
+  recordFailure(phone: string, at: Date): void;
+  countFailures(phone: string, since: Date): number;
+  clearFailures(phone: string): number;
+  deleteFailuresBefore(cutoff: Date): number;
+}
+
+export interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface IdempotencyKeyRepository {
+  /**
+   * Take a key for a new attempt until `expiresAt`; false while another
+   * attempt holds it or its response is still kept
+   */
+  claim(key: string, now: Date, expiresAt: Date): boolean;
+  /** The stored response, or null while the attempt is still running */
+  findResponse(key: string, now: Date): StoredResponse | null;
+  complete(key: string, response: StoredResponse, expiresAt: Date): void;
+  /** Let the key be used again, e.g. after a failed attempt */
+  release(key: string): boolean;
+  deleteExpired(now: Date): number;
+}
+
+export interface Repositories {
+  trips: TripRepository;
+  travelers: TravelerRepository;
+  users: UserRepository;
+  sessions: SessionRepository;
+  otpChallenges: OtpChallengeRepository;
+  idempotencyKeys: IdempotencyKeyRepository;
+  /**
+   * Run `work` atomically: every write inside it lands or none does.
+   * Reads inside it see a consistent snapshot.
+   */
+  transaction<T>(work: () => T): T;
+}
+
+interface DocumentRow {
+  data: string;
+}
+
+interface CountRow {
+  total: number;
+}
+
+const toIso = (date: Date) => new Date(date).toISOString();
+
+const pageClause = (limit?: number, offset?: number) => {
+  if (!limit || limit <= 0) return '';
+  return offset && offset > 0
+    ? `LIMIT ${Math.floor(limit)} OFFSET ${Math.floor(offset)}`
+    : `LIMIT ${Math.floor(limit)}`;
+};
+
+interface ChangeRow {
+  id: string;
+  change_seq: number;
+  data: string | null;
+}
+
+// Taken inside the write itself, so numbers follow the order writes commit in
+const NEXT_CHANGE_SEQ = `(
+  SELECT COALESCE(MAX(change_seq), 0) + 1 FROM (
+    SELECT MAX(change_seq) AS change_seq FROM trips WHERE primary_traveler = @primaryTraveler
+    UNION ALL
+    SELECT MAX(change_seq) FROM deleted_trips WHERE primary_traveler = @primaryTraveler
+  )
+)`;
+
+export class SqliteTripRepository implements TripRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  list(query: TripQuery = {}): Trip[] {
+    const { where, params } = this.filter(query);
+    const rows = this.db
+      .prepare(`SELECT data FROM trips ${where} ORDER BY created_at DESC, id ${pageClause(query.limit, query.offset)}`)
+      .all(...params) as DocumentRow[];
+
+    return rows.map(row => decodeTrip(JSON.parse(row.data)));
+  }
+
+  count(query: TripQuery = {}): number {
+    const { where, params } = this.filter(query);
+    const row = this.db.prepare(`SELECT COUNT(*) AS total FROM trips ${where}`).get(...params) as CountRow;
+    return row.total;
+  }
+
+  private filter(query: TripQuery): { where: string; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.userId) {
+      conditions.push('primary_traveler = ?');
+      params.push(query.userId);
+    }
+    if (query.status) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.mode) {
+      // Main mode, or any stage of a multimodal trip
+      conditions.push(
+        "(mode = ? OR EXISTS (SELECT 1 FROM json_each(data, '$.stages') WHERE json_extract(value, '$.mode') = ?))"
+      );
+      params.push(query.mode, query.mode);
+    }
+    if (query.purpose) {
+      conditions.push('purpose = ?');
+      params.push(query.purpose);
+    }
+    if (query.startedFrom) {
+      conditions.push('start_time >= ?');
+      params.push(toIso(query.startedFrom));
+    }
+    if (query.startedBefore) {
+      conditions.push('start_time < ?');
+      params.push(toIso(query.startedBefore));
+    }
+    if (query.updatedSince) {
+      conditions.push('updated_at > ?');
+      params.push(toIso(query.updatedSince));
+    }
+    if (query.originZones) {
+      conditions.push(`json_extract(data, '$.origin.zoneId') IN (${query.originZones.map(() => '?').join(', ')})`);
+      params.push(...query.originZones);
+    }
+    if (query.destinationZones) {
+      conditions.push(`json_extract(data, '$.destination.zoneId') IN (${query.destinationZones.map(() => '?').join(', ')})`);
+      params.push(...query.destinationZones);
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+
+  findById(id: string): Trip | null {
+    const row = this.db.prepare('SELECT data FROM trips WHERE id = ?').get(id) as DocumentRow | undefined;
+    return row ? decodeTrip(JSON.parse(row.data)) : null;
+  }
+
+  findForUser(userId: string, id: string): Trip | null {
+    const trip = this.findById(id);
+    return trip && trip.primaryTraveler === userId ? trip : null;
+  }
+
+  findActive(userId: string): Trip | null {
+    return this.list({ userId, status: 'active', limit: 1 })[0] ?? null;
+  }
+
+  listChanges(userId: string, since: number, limit: number): TripChanges {
+    const rows = this.db
+      .prepare(`
+        SELECT id, change_seq, data FROM trips WHERE primary_traveler = @userId AND change_seq > @since
+        UNION ALL
+        SELECT id, change_seq, NULL FROM deleted_trips WHERE primary_traveler = @userId AND change_seq > @since
+        ORDER BY change_seq
+        LIMIT @take
+      `)
+      .all({ userId, since, take: limit + 1 }) as ChangeRow[];
+    const page = rows.slice(0, limit);
+
+    return {
+      trips: page.filter(row => row.data !== null).map(row => decodeTrip(JSON.parse(row.data!))),
+      deleted: page.filter(row => row.data === null).map(row => row.id),
+      cursor: page.length > 0 ? page[page.length - 1].change_seq : since,
+      hasMore: rows.length > limit
+    };
+  }
+
+  nextTripNumber(): number {
+    const row = this.db.prepare('SELECT COALESCE(MAX(trip_number), 0) + 1 AS next FROM trips').get() as { next: number };
+    return row.next;
+  }
+
+  save(trip: Trip): boolean {
+    return this.db.transaction(() => {
+      const saved = this.upsert(trip);
+      // A trip uploaded again after a delete is no longer deleted
+      if (saved) {
+        this.db
+          .prepare('DELETE FROM deleted_trips WHERE id = ? AND primary_traveler = ?')
+          .run(trip.id, trip.primaryTraveler);
+      }
+      return saved;
+    })();
+  }
+
+  private upsert(trip: Trip): boolean {
+    // The WHERE guard stops one user overwriting another's trip by id
+    return this.db
+      .prepare(`
+        INSERT INTO trips (
+          id, trip_number, primary_traveler, status, mode, purpose, start_time, created_at, updated_at, change_seq, data
+        )
+        VALUES (
+          @id, @tripNumber, @primaryTraveler, @status, @mode, @purpose, @startTime, @createdAt, @updatedAt,
+          ${NEXT_CHANGE_SEQ}, @data
+        )
+        ON CONFLICT (id) DO UPDATE SET
+          trip_number = excluded.trip_number,
+          primary_traveler = excluded.primary_traveler,
+          status = excluded.status,
+          mode = excluded.mode,
+          purpose = excluded.purpose,
+          start_time = excluded.start_time,
+          created_at = excluded.created_at,
+          updated_at = excluded.updated_at,
+          change_seq = excluded.change_seq,
+          data = excluded.data
+        WHERE trips.primary_traveler = excluded.primary_traveler
+      `)
+      .run({
+        id: trip.id,
+        tripNumber: trip.tripNumber,
+        primaryTraveler: trip.primaryTraveler,
+        status: trip.status,
+        mode: trip.mode,
+        purpose: trip.purpose,
+        startTime: toIso(trip.startTime),
+        createdAt: toIso(trip.createdAt),
+        updatedAt: toIso(trip.updatedAt),
+        data: JSON.stringify(trip)
+      }).changes > 0;
+  }
+
+  delete(id: string): boolean {
+    return this.db.transaction(() => {
+      const trip = this.db
+        .prepare('SELECT primary_traveler FROM trips WHERE id = ?')
+        .get(id) as { primary_traveler: string } | undefined;
+      if (!trip) return false;
+
+      this.db
+        .prepare(`
+          INSERT OR REPLACE INTO deleted_trips (id, primary_traveler, change_seq, deleted_at)
+          VALUES (@id, @primaryTraveler, ${NEXT_CHANGE_SEQ}, @deletedAt)
+        `)
+        .run({ id, primaryTraveler: trip.primary_traveler, deletedAt: toIso(new Date()) });
+      return this.db.prepare('DELETE FROM trips WHERE id = ?').run(id).changes > 0;
+    })();
+  }
+}
+
+export class SqliteTravelerRepository implements TravelerRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  list(userId: string, query: TravelerQuery = {}): Traveler[] {
+    const { where, params } = this.filter(userId, query);
+    const rows = this.db
+      .prepare(`SELECT data FROM travelers ${where} ORDER BY created_at DESC, id ${pageClause(query.limit, query.offset)}`)
+      .all(...params) as DocumentRow[];
+
+    return rows.map(row => decodeTraveler(JSON.parse(row.data)));
+  }
+
+  count(userId: string, query: TravelerQuery = {}): number {
+    const { where, params } = this.filter(userId, query);
+    const row = this.db.prepare(`SELECT COUNT(*) AS total FROM travelers ${where}`).get(...params) as CountRow;
+    return row.total;
+  }
+
+  private filter(userId: string, query: TravelerQuery): { where: string; params: unknown[] } {
+    if (query.hasConsent === undefined) {
+      return { where: 'WHERE user_id = ?', params: [userId] };
+    }
+    return { where: 'WHERE user_id = ? AND has_consent = ?', params: [userId, query.hasConsent ? 1 : 0] };
+  }
+
+  findById(userId: string, id: string): Traveler | null {
+    const row = this.db
+      .prepare('SELECT data FROM travelers WHERE user_id = ? AND id = ?')
+      .get(userId, id) as DocumentRow | undefined;
+    return row ? decodeTraveler(JSON.parse(row.data)) : null;
+  }
+
+  findByName(userId: string, name: string): Traveler | null {
+    const row = this.db
+      .prepare('SELECT data FROM travelers WHERE user_id = ? AND name = ? COLLATE NOCASE')
+      .get(userId, name.trim()) as DocumentRow | undefined;
+    return row ? decodeTraveler(JSON.parse(row.data)) : null;
+  }
+
+  save(userId: string, traveler: Traveler): boolean {
+    // The WHERE guard stops one user overwriting another's traveler by id
+    return this.db
+      .prepare(`
+        INSERT INTO travelers (id, user_id, name, has_consent, created_at, data)
+        VALUES (@id, @userId, @name, @hasConsent, @createdAt, @data)
+        ON CONFLICT (id) DO UPDATE SET
+          name = excluded.name,
+          has_consent = excluded.has_consent,
+          created_at = excluded.created_at,
+          data = excluded.data
+        WHERE travelers.user_id = excluded.user_id
+      `)
+      .run({
+        id: traveler.id,
+        userId,
+        name: traveler.name,
+        hasConsent: traveler.hasConsent ? 1 : 0,
+        createdAt: toIso(traveler.createdAt),
+        data: JSON.stringify(traveler)
+      }).changes > 0;
+  }
+
+  delete(userId: string, id: string): boolean {
+    return this.db.prepare('DELETE FROM travelers WHERE user_id = ? AND id = ?').run(userId, id).changes > 0;
+  }
+}
+
+export class SqliteUserRepository implements UserRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  findById(id: string): User | null {
+    const row = this.db.prepare('SELECT data FROM users WHERE id = ?').get(id) as DocumentRow | undefined;
+    return row ? decodeUser(JSON.parse(row.data)) : null;
+  }
+
+  findByPhone(phone: string): User | null {
+    const row = this.db.prepare('SELECT data FROM users WHERE phone = ?').get(phone) as DocumentRow | undefined;
+    return row ? decodeUser(JSON.parse(row.data)) : null;
+  }
+
+  save(user: User): void {
+    this.db
+      .prepare(`
+        INSERT INTO users (id, phone, created_at, data)
+        VALUES (@id, @phone, @createdAt, @data)
+        ON CONFLICT (id) DO UPDATE SET
+          phone = excluded.phone,
+          data = excluded.data
+      `)
+      .run({
+        id: user.id,
+        // NULL, not '': several users may have no phone under the UNIQUE constraint
+        phone: user.phone ?? null,
+        createdAt: toIso(user.createdAt),
+        data: JSON.stringify(user)
+      });
+  }
+}
+
+export class SqliteSessionRepository implements SessionRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  create(tokenHash: string, userId: string, expiresAt: Date): void {
+    this.db
+      .prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+      .run(tokenHash, userId, toIso(new Date()), toIso(expiresAt));
+  }
+
+  findUserId(tokenHash: string, now: Date): string | null {
+    const row = this.db
+      .prepare('SELECT user_id FROM sessions WHERE token_hash = ? AND expires_at > ?')
+      .get(tokenHash, toIso(now)) as { user_id: string } | undefined;
+    return row?.user_id ?? null;
+  }
+
+  delete(tokenHash: string): boolean {
+    return this.db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash).changes > 0;
+  }
+
+  deleteExpired(now: Date): number {
+    return this.db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(toIso(now)).changes;
+  }
+}
+
+interface OtpChallengeRow {
+  phone: string;
+  code_hash: string;
+  attempts: number;
+  expires_at: string;
+  resend_after: string;
+}
+
+export class SqliteOtpChallengeRepository implements OtpChallengeRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  find(phone: string): StoredOtpChallenge | null {
+    const row = this.db
+      .prepare('SELECT * FROM otp_challenges WHERE phone = ?')
+      .get(phone) as OtpChallengeRow | undefined;
+
+    return row
+      ? {
+          phone: row.phone,
+          codeHash: row.code_hash,
+          attempts: row.attempts,
+          expiresAt: new Date(row.expires_at),
+          resendAfter: new Date(row.resend_after)
+        }
+      : null;
+  }
+
+  save(challenge: StoredOtpChallenge): void {
+    this.db
+      .prepare(`
+        INSERT OR REPLACE INTO otp_challenges (phone, code_hash, attempts, expires_at, resend_after)
+        VALUES (?, ?, ?, ?, ?)
+      `)
+      .run(
+        challenge.phone,
+        challenge.codeHash,
+        challenge.attempts,
+        toIso(challenge.expiresAt),
+        toIso(challenge.resendAfter)
+      );
+  }
+
+  delete(phone: string): boolean {
+    return this.db.prepare('DELETE FROM otp_challenges WHERE phone = ?').run(phone).changes > 0;
+  }
+
+  recordFailure(phone: string, at: Date): void {
+    this.db.prepare('INSERT INTO otp_failures (phone, failed_at) VALUES (?, ?)').run(phone, toIso(at));
+  }
+
+  countFailures(phone: string, since: Date): number {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS total FROM otp_failures WHERE phone = ? AND failed_at > ?')
+      .get(phone, toIso(since)) as CountRow;
+    return row.total;
+  }
+
+  clearFailures(phone: string): number {
+    return this.db.prepare('DELETE FROM otp_failures WHERE phone = ?').run(phone).changes;
+  }
+
+  deleteFailuresBefore(cutoff: Date): number {
+    return this.db.prepare('DELETE FROM otp_failures WHERE failed_at <= ?').run(toIso(cutoff)).changes;
+  }
+}
+
+interface IdempotencyKeyRow {
+  status: number | null;
+  body: string | null;
+}
+
+export class SqliteIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  constructor(private readonly db: SqliteDatabase) {}
+
+  claim(key: string, now: Date, expiresAt: Date): boolean {
+    // One statement, so two processes cannot both take the same key
+    return this.db
+      .prepare(`
+        INSERT INTO idempotency_keys (key, status, body, created_at, expires_at)
+        VALUES (@key, NULL, NULL, @now, @expiresAt)
+        ON CONFLICT (key) DO UPDATE SET
+          status = NULL,
+          body = NULL,
+          created_at = excluded.created_at,
+          expires_at = excluded.expires_at
+        WHERE idempotency_keys.expires_at <= excluded.created_at
+      `)
+      .run({ key, now: toIso(now), expiresAt: toIso(expiresAt) }).changes > 0;
+  }
+
+  findResponse(key: string, now: Date): StoredResponse | null {
+    const row = this.db
+      .prepare('SELECT status, body FROM idempotency_keys WHERE key = ? AND expires_at > ?')
+      .get(key, toIso(now)) as IdempotencyKeyRow | undefined;
+
+    return row && row.status !== null
+      ? { status: row.status, body: row.body === null ? null : JSON.parse(row.body) }
+      : null;
+  }
+
+  complete(key: string, response: StoredResponse, expiresAt: Date): void {
+    this.db
+      .prepare('UPDATE idempotency_keys SET status = ?, body = ?, expires_at = ? WHERE key = ?')
+      .run(response.status, response.body === null ? null : JSON.stringify(response.body), toIso(expiresAt), key);
+  }
+
+  release(key: string): boolean {
+    return this.db.prepare('DELETE FROM idempotency_keys WHERE key = ?').run(key).changes > 0;
+  }
+
+  deleteExpired(now: Date): number {
+    return this.db.prepare('DELETE FROM idempotency_keys WHERE expires_at <= ?').run(toIso(now)).changes;
+  }
+}
+
+export function createSqliteRepositories(db: SqliteDatabase): Repositories {
+  return {
+    trips: new SqliteTripRepository(db),
+    travelers: new SqliteTravelerRepository(db),
+    users: new SqliteUserRepository(db),
+    sessions: new SqliteSessionRepository(db),
+    otpChallenges: new SqliteOtpChallengeRepository(db),
+    idempotencyKeys: new SqliteIdempotencyKeyRepository(db),
+    transaction<T>(work: () => T): T {
+      return db.transaction(work).immediate();
+    }
+  };
+}
+
+let repositories: Repositories | null = null;
+
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories = createSqliteRepositories(getDatabase());
+  }
+  return repositories;
+}
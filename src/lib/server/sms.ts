@@ -0,0 +1,44 @@
+// Outgoing SMS for the NATPAC research server
+//
+// Development uses FakeSmsSender, which prints messages to the server log
+// instead of sending them. Production never falls back to it, since that
+// would put sign-in codes in the log: register a real gateway with
+// setSmsSender() at startup, or sign-in requests fail.
+
+export interface SmsSender {
+  send(phone: string, message: string): Promise<void>;
+}
+
+export interface SentSms {
+  phone: string;
+  message: string;
+  sentAt: Date;
+}
+
+export class FakeSmsSender implements SmsSender {
+  readonly sent: SentSms[] = [];
+
+  async send(phone: string, message: string): Promise<void> {
+    this.sent.push({ phone, message, sentAt: new Date() });
+    console.info(`[sms] to ${phone}: ${message}`);
+  }
+
+  /** Most recent message sent to `phone`, for local testing */
+  lastMessageTo(phone: string): SentSms | null {
+    return [...this.sent].reverse().find(sms => sms.phone === phone) ?? null;
+  }
+}
+
+let smsSender: SmsSender | null = null;
+
+/** The registered sender; null in production until one is registered */
+export const getSmsSender = (): SmsSender | null => {
+  if (!smsSender && process.env.NODE_ENV !== 'production') {
+    smsSender = new FakeSmsSender();
+  }
+  return smsSender;
+};
+
+export const setSmsSender = (sender: SmsSender) => {
+  smsSender = sender;
+};
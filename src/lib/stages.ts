@@ -0,0 +1,161 @@
+// Multimodal trips for NATPAC Travel Data Collection App
+//
+// Many Kerala trips chain several modes: a walk to the bus stand, a bus,
+// an auto rickshaw for the last mile. Such a trip is split into stages
+// (legs), each with its own mode, start and end, and the wait at the
+// transfer point before it. A trip without stages was made in one mode.
+// The trip's own mode is the stage being travelled while the trip is
+// active, and once it ends the main mode: the stage covering the most
+// distance.
+
+import { Location, TransportMode, Trip, TripStage } from './types';
+import { cleanTrace, traceDistance } from './trace';
+import { inferMode } from './classifier';
+
+const timeOf = (value: Date) => new Date(value).getTime();
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+const stageId = (trip: Trip, index: number) => `${trip.id}_stage_${index + 1}`;
+
+/**
+ * Whether the traveller switched mode during the trip
+ */
+export function isMultimodal(trip: Trip): boolean {
+  return (trip.stages?.length ?? 0) > 1;
+}
+
+/**
+ * The trip's stages, or a single stage covering the whole of a trip made
+ * in one mode
+ */
+export function getStages(trip: Trip): TripStage[] {
+  if (trip.stages && trip.stages.length > 0) return trip.stages;
+
+  return [{
+    id: stageId(trip, 0),
+    mode: trip.mode,
+    origin: trip.origin,
+    destination: trip.destination,
+    startTime: trip.startTime,
+    endTime: trip.endTime,
+    distance: trip.distance,
+    inferredMode: trip.inferredMode
+  }];
+}
+
+/**
+ * Every mode used on the trip, in the order first used
+ */
+export function getTripModes(trip: Trip): TransportMode[] {
+  return Array.from(new Set(getStages(trip).map(stage => stage.mode)));
+}
+
+/**
+ * Whether any stage of the trip was made in `mode`
+ */
+export function usesMode(trip: Trip, mode: TransportMode): boolean {
+  return getStages(trip).some(stage => stage.mode === mode);
+}
+
+/**
+ * Changes that end the current stage of an active trip at `transfer` and
+ * start a new one in `mode`. The current stage ended `waitingTime` minutes
+ * before `at`, when the traveller began waiting for the next mode.
+ */
+export function startStage(
+  trip: Trip,
+  mode: TransportMode,
+  transfer: Location,
+  waitingTime = 0,
+  at: Date = new Date()
+): Pick<Trip, 'stages' | 'mode'> {
+  const stages = getStages(trip);
+  const current = stages[stages.length - 1];
+  const endTime = new Date(Math.max(timeOf(current.startTime), timeOf(at) - waitingTime * 60 * 1000));
+
+  const next: TripStage = {
+    id: stageId(trip, stages.length),
+    mode,
+    origin: transfer,
+    startTime: at,
+    waitingTime: waitingTime > 0 ? waitingTime : undefined
+  };
+
+  return {
+    stages: [...stages.slice(0, -1), { ...current, destination: transfer, endTime }, next],
+    mode
+  };
+}
+
+/**
+ * Change the mode of the stage being travelled, e.g. when the traveller
+ * corrects it before completing the trip
+ */
+export function setCurrentStageMode(trip: Trip, mode: TransportMode): TripStage[] {
+  const stages = getStages(trip);
+  return [...stages.slice(0, -1), { ...stages[stages.length - 1], mode }];
+}
+
+/**
+ * Split a trace into the part recorded during each stage. Fixes taken
+ * while waiting at a transfer point belong to no stage.
+ */
+export function splitTrace(points: Location[], stages: TripStage[]): Location[][] {
+  return stages.map(stage => {
+    const start = timeOf(stage.startTime);
+    const end = stage.endTime ? timeOf(stage.endTime) : Infinity;
+    return points.filter(point => {
+      const at = timeOf(point.timestamp);
+      return at >= start && at <= end;
+    });
+  });
+}
+
+/**
+ * Clean each stage's part of the trace with the profile for its own mode
+ */
+export function cleanTripTrace(trip: Trip): Location[] {
+  const points = trip.waypoints ?? [];
+  if (!isMultimodal(trip)) return cleanTrace(points, trip.mode);
+
+  const stages = getStages(trip);
+  return splitTrace(points, stages).flatMap((part, i) => cleanTrace(part, stages[i].mode));
+}
+
+/**
+ * Close the last stage of a finished trip at its destination and measure
+ * each stage along its own part of the cleaned trace
+ */
+export function finishStages(trip: Trip, at: Date = new Date()): TripStage[] {
+  const stages = getStages(trip);
+  const closed = [
+    ...stages.slice(0, -1),
+    { ...stages[stages.length - 1], destination: trip.destination, endTime: trip.endTime }
+  ];
+  const traces = splitTrace(trip.waypoints ?? [], closed);
+
+  return closed.map((stage, i) => {
+    const cleaned = cleanTrace(traces[i], stage.mode);
+    const path = stage.destination ? [stage.origin, ...cleaned, stage.destination] : [];
+    return {
+      ...stage,
+      distance: path.length > 0 ? round(traceDistance(path), 2) : undefined,
+      inferredMode: inferMode(traces[i], at) ?? undefined
+    };
+  });
+}
+
+/**
+ * The mode of the stage that covered the most distance
+ */
+export function getMainMode(stages: TripStage[]): TransportMode {
+  return stages.reduce((main, stage) => ((stage.distance ?? 0) > (main.distance ?? 0) ? stage : main)).mode;
+}
+
+/**
+ * Minutes spent waiting at transfer points over the whole trip
+ */
+export function getTotalWaitingTime(trip: Trip): number {
+  return getStages(trip).reduce((sum, stage) => sum + (stage.waitingTime ?? 0), 0);
+}
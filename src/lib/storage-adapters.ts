@@ -0,0 +1,242 @@
+// Storage backends for NATPAC Travel Data Collection App
+//
+// StorageService keeps record collections (trips, travelers) in memory and
+// persists each write through one of these adapters. IndexedDB is preferred
+// because it writes per record; localStorage is kept as a fallback for
+// browsers where IndexedDB is missing or blocked.
+
+import { StorageBackend, StorageCollection, StorageRecord } from './types';
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  open(): Promise<boolean>;
+  getAll<T extends StorageRecord>(collection: StorageCollection): Promise<T[]>;
+  getByIndex<T extends StorageRecord>(collection: StorageCollection, index: string, value: IDBValidKey): Promise<T[]>;
+  put<T extends StorageRecord>(collection: StorageCollection, record: T): Promise<void>;
+  putMany<T extends StorageRecord>(collection: StorageCollection, records: T[]): Promise<void>;
+  delete(collection: StorageCollection, id: string): Promise<void>;
+  clear(collection: StorageCollection): Promise<void>;
+  estimateUsage(): Promise<{ used: number; total: number }>;
+}
+
+// Indexes created on each IndexedDB object store
+const COLLECTION_INDEXES: Record<StorageCollection, string[]> = {
+  trips: ['status', 'startTime', 'chainId'],
+  travelers: ['createdAt'],
+  quarantine: ['source'],
+  outbox: ['tripId', 'nextAttemptAt']
+};
+
+const COLLECTIONS = Object.keys(COLLECTION_INDEXES) as StorageCollection[];
+
+/**
+ * localStorage backend: one serialized array per collection
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'localstorage';
+
+  constructor(private readonly prefix: string) {}
+
+  private getKey(collection: StorageCollection): string {
+    return `${this.prefix}${collection}`;
+  }
+
+  private read<T extends StorageRecord>(collection: StorageCollection): T[] {
+    const item = localStorage.getItem(this.getKey(collection));
+    return item === null ? [] : (JSON.parse(item) as T[]);
+  }
+
+  private write<T extends StorageRecord>(collection: StorageCollection, records: T[]): void {
+    localStorage.setItem(this.getKey(collection), JSON.stringify(records));
+  }
+
+  async open(): Promise<boolean> {
+    try {
+      const test = '__storage_test__';
+      localStorage.setItem(test, test);
+      localStorage.removeItem(test);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getAll<T extends StorageRecord>(collection: StorageCollection): Promise<T[]> {
+    return this.read<T>(collection);
+  }
+
+  async getByIndex<T extends StorageRecord>(
+    collection: StorageCollection,
+    index: string,
+    value: IDBValidKey
+  ): Promise<T[]> {
+    return this.read<T>(collection).filter(
+      record => (record as unknown as Record<string, unknown>)[index] === value
+    );
+  }
+
+  async put<T extends StorageRecord>(collection: StorageCollection, record: T): Promise<void> {
+    const records = this.read<T>(collection);
+    const index = records.findIndex(r => r.id === record.id);
+    if (index === -1) {
+      records.push(record);
+    } else {
+      records[index] = record;
+    }
+    this.write(collection, records);
+  }
+
+  async putMany<T extends StorageRecord>(collection: StorageCollection, records: T[]): Promise<void> {
+    const byId = new Map(this.read<T>(collection).map(r => [r.id, r]));
+    records.forEach(record => byId.set(record.id, record));
+    this.write(collection, Array.from(byId.values()));
+  }
+
+  async delete(collection: StorageCollection, id: string): Promise<void> {
+    this.write(collection, this.read(collection).filter(r => r.id !== id));
+  }
+
+  async clear(collection: StorageCollection): Promise<void> {
+    localStorage.removeItem(this.getKey(collection));
+  }
+
+  async estimateUsage(): Promise<{ used: number; total: number }> {
+    let used = 0;
+    for (const key in localStorage) {
+      if (key.startsWith(this.prefix)) {
+        used += localStorage[key].length + key.length;
+      }
+    }
+
+    // Estimate total storage (5MB is typical for localStorage)
+    return { used, total: 5 * 1024 * 1024 };
+  }
+}
+
+/**
+ * IndexedDB backend: one object store per collection, one record per write
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'indexeddb';
+  private db: IDBDatabase | null = null;
+
+  constructor(
+    private readonly dbName: string,
+    private readonly version: number = 1
+  ) {}
+
+  async open(): Promise<boolean> {
+    if (this.db) return true;
+    if (typeof indexedDB === 'undefined') return false;
+
+    return new Promise((resolve) => {
+      try {
+        const request = indexedDB.open(this.dbName, this.version);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          COLLECTIONS.forEach(collection => {
+            const store = db.objectStoreNames.contains(collection)
+              ? request.transaction!.objectStore(collection)
+              : db.createObjectStore(collection, { keyPath: 'id' });
+
+            COLLECTION_INDEXES[collection].forEach(index => {
+              if (!store.indexNames.contains(index)) {
+                store.createIndex(index, index, { unique: false });
+              }
+            });
+          });
+        };
+
+        request.onsuccess = () => {
+          this.db = request.result;
+          // Another tab upgrading the schema needs us to let go
+          this.db.onversionchange = () => {
+            this.db?.close();
+            this.db = null;
+          };
+          resolve(true);
+        };
+
+        request.onerror = () => {
+          console.error('Error opening IndexedDB:', request.error);
+          resolve(false);
+        };
+
+        request.onblocked = () => {
+          console.warn('IndexedDB upgrade blocked by another open tab');
+        };
+      } catch (error) {
+        console.error('IndexedDB not usable:', error);
+        resolve(false);
+      }
+    });
+  }
+
+  private getStore(collection: StorageCollection, mode: IDBTransactionMode): IDBObjectStore {
+    if (!this.db) {
+      throw new Error('IndexedDB is not open');
+    }
+    return this.db.transaction(collection, mode).objectStore(collection);
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async getAll<T extends StorageRecord>(collection: StorageCollection): Promise<T[]> {
+    return this.request(this.getStore(collection, 'readonly').getAll()) as Promise<T[]>;
+  }
+
+  async getByIndex<T extends StorageRecord>(
+    collection: StorageCollection,
+    index: string,
+    value: IDBValidKey
+  ): Promise<T[]> {
+    const store = this.getStore(collection, 'readonly');
+    return this.request(store.index(index).getAll(value)) as Promise<T[]>;
+  }
+
+  async put<T extends StorageRecord>(collection: StorageCollection, record: T): Promise<void> {
+    const store = this.getStore(collection, 'readwrite');
+    store.put(record);
+    await this.complete(store.transaction);
+  }
+
+  async putMany<T extends StorageRecord>(collection: StorageCollection, records: T[]): Promise<void> {
+    const store = this.getStore(collection, 'readwrite');
+    records.forEach(record => store.put(record));
+    await this.complete(store.transaction);
+  }
+
+  async delete(collection: StorageCollection, id: string): Promise<void> {
+    const store = this.getStore(collection, 'readwrite');
+    store.delete(id);
+    await this.complete(store.transaction);
+  }
+
+  async clear(collection: StorageCollection): Promise<void> {
+    const store = this.getStore(collection, 'readwrite');
+    store.clear();
+    await this.complete(store.transaction);
+  }
+
+  async estimateUsage(): Promise<{ used: number; total: number }> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return { used: 0, total: 0 };
+    }
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { used: usage, total: quota };
+  }
+}
@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalStorageData, Location, Trip } from './types';
+import { storageService } from './storage';
+
+const HOUR = 60 * 60 * 1000;
+
+const fix = (minutes: number): Location => ({
+  latitude: 8.5241 + minutes * 0.001,
+  longitude: 76.9366,
+  timestamp: new Date(Date.now() - HOUR + minutes * 60 * 1000)
+});
+
+const makeTrip = (overrides: Partial<Trip> = {}): Trip => {
+  const startTime = new Date(Date.now() - HOUR);
+  return {
+    id: 'trip_1',
+    tripNumber: 1,
+    status: 'active',
+    origin: fix(0),
+    startTime,
+    mode: 'bus',
+    purpose: 'work',
+    primaryTraveler: 'user_1',
+    accompanyingTravelers: [],
+    totalTravelers: 1,
+    createdAt: startTime,
+    updatedAt: startTime,
+    ...overrides
+  };
+};
+
+// An export file holding only trips, as it would be read back from disk
+const exportFile = (trips: unknown[], schemaVersion: number) =>
+  JSON.parse(JSON.stringify({ trips, schemaVersion })) as LocalStorageData;
+
+const clearOutbox = () => storageService.getOutbox().forEach(entry => storageService.removeOutboxEntry(entry.id));
+
+beforeEach(async () => {
+  await storageService.init();
+  storageService.clearAllData();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('appendWaypoints', () => {
+  it('keeps the trace on the device until the trip ends, then queues it once', () => {
+    storageService.addTrip(makeTrip());
+    clearOutbox();
+
+    expect(storageService.appendWaypoints('trip_1', [fix(1), fix(2)])).toBe(true);
+    expect(storageService.appendWaypoints('trip_1', [fix(3)])).toBe(true);
+    expect(storageService.getTripById('trip_1')!.waypoints).toHaveLength(3);
+    expect(storageService.getOutbox()).toHaveLength(0);
+
+    storageService.updateTrip('trip_1', { status: 'completed', destination: fix(4) });
+
+    const outbox = storageService.getOutbox();
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0].payload!.status).toBe('completed');
+    expect(outbox[0].payload!.waypoints).toHaveLength(3);
+  });
+
+  it('tells the recorder to stop once the trip has ended', () => {
+    storageService.addTrip(makeTrip());
+    storageService.updateTrip('trip_1', { status: 'completed', destination: fix(4) });
+
+    expect(storageService.appendWaypoints('trip_1', [fix(5)])).toBe(false);
+    expect(storageService.appendWaypoints('missing', [fix(5)])).toBe(false);
+  });
+});
+
+describe('importAllData', () => {
+  it('migrates imported trips and queues the ones the server has never seen', () => {
+    const synced = makeTrip({ id: 'trip_synced', status: 'planned', syncedAt: new Date() });
+    const local = { ...makeTrip({ id: 'trip_local', status: 'planned' }), totalTravelers: 4 };
+    const broken = { id: 'trip_broken' };
+
+    expect(storageService.importAllData(exportFile([synced, local, broken], 1))).toBe(true);
+
+    expect(storageService.getTrips().map(trip => trip.id).sort()).toEqual(['trip_local', 'trip_synced']);
+    expect(storageService.getTripById('trip_local')!.totalTravelers).toBe(1);
+    expect(storageService.getQuarantinedRecords().map(record => record.recordId)).toEqual(['trip_broken']);
+    expect(storageService.getOutbox().map(entry => [entry.operation, entry.tripId])).toEqual([['create', 'trip_local']]);
+  });
+
+  it('refuses data from a newer version of the app', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(storageService.importAllData(exportFile([], 99))).toBe(false);
+  });
+});
@@ -6,21 +6,98 @@ import {
   User, 
   ConsentData, 
   AppSettings, 
-  LocalStorageData 
+  LocalStorageData,
+  StorageBackend,
+  StorageCollection,
+  StorageRecord,
+  QuarantinedRecord,
+  QuarantineSource,
+  OutboxEntry,
+  SyncOperation,
+  TripField,
+  ConflictResolution,
+  AuthSession,
+  Location,
+  DraftTrip,
+  SavedPlace
 } from './types';
+import { StorageAdapter, IndexedDBAdapter, LocalStorageAdapter } from './storage-adapters';
+import {
+  decodeAuthSession,
+  decodeConsent,
+  decodeDate,
+  decodeDraftTrips,
+  decodeOutboxEntry,
+  decodeQuarantinedRecord,
+  decodeSavedPlaces,
+  decodeSettings,
+  decodeTraveler,
+  decodeTrip,
+  decodeTripPatch,
+  decodeUser
+} from './codecs';
+import { applyTripUpdates, getTripFields, mergeTrips } from './conflicts';
+import { applyTransition, assertTripState } from './lifecycle';
+import { enrichCompletedTrip } from './completion';
+import {
+  CURRENT_SCHEMA_VERSION,
+  LEGACY_SCHEMA_VERSION,
+  createQuarantinedRecord,
+  migrateRecord,
+  migrateRecords
+} from './migrations';
+
+type StorageListener = () => void;
+
+// Collections whose records are upgraded by the migration registry
+const VERSIONED_COLLECTIONS: Exclude<QuarantineSource, 'settings'>[] = ['trips', 'travelers'];
+
+// Restore Date fields (and reject malformed records) when reading back
+const RECORD_DECODERS: Record<StorageCollection, (value: unknown) => StorageRecord> = {
+  trips: decodeTrip,
+  travelers: decodeTraveler,
+  quarantine: decodeQuarantinedRecord,
+  outbox: decodeOutboxEntry
+};
 
 export class StorageService {
   private static instance: StorageService;
   private readonly STORAGE_PREFIX = 'natpac_travel_';
+  private readonly DB_NAME = 'natpac_travel';
+  private readonly DB_VERSION = 3;
   private readonly STORAGE_KEYS = {
     USER: 'user',
+    SESSION: 'session',
     TRIPS: 'trips',
     TRAVELERS: 'travelers',
     SETTINGS: 'settings',
     CONSENT: 'consent',
-    LAST_SYNC: 'last_sync'
+    LAST_SYNC: 'last_sync',
+    SYNC_CURSOR: 'sync_cursor',
+    DRAFT_TRIPS: 'draft_trips',
+    SAVED_PLACES: 'saved_places',
+    SCHEMA_VERSION: 'schema_version'
   };
 
+  // Trips and travelers are served from memory and written through the adapter
+  private adapter: StorageAdapter | null = null;
+  private cache: Record<StorageCollection, Map<string, StorageRecord>> = {
+    trips: new Map(),
+    travelers: new Map(),
+    quarantine: new Map(),
+    outbox: new Map()
+  };
+  private pendingDeletes: Record<StorageCollection, Set<string>> = {
+    trips: new Set(),
+    travelers: new Set(),
+    quarantine: new Set(),
+    outbox: new Set()
+  };
+  private initPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private listeners = new Set<StorageListener>();
+  private usage = { used: 0, total: 0 };
+
   static getInstance(): StorageService {
     if (!StorageService.instance) {
       StorageService.instance = new StorageService();
@@ -56,19 +133,256 @@ export class StorageService {
     }
   }
 
-  private getItem<T>(key: string, defaultValue: T): T {
+  private getItem<T>(key: string, defaultValue: T, decoder?: (value: unknown) => T): T {
     if (!this.isStorageAvailable()) return defaultValue;
     
     try {
       const item = localStorage.getItem(this.getStorageKey(key));
       if (item === null) return defaultValue;
-      return JSON.parse(item) as T;
+      const parsed: unknown = JSON.parse(item);
+      return decoder ? decoder(parsed) : (parsed as T);
     } catch (error) {
       console.error('Error reading from localStorage:', error);
       return defaultValue;
     }
   }
 
+  /**
+   * Pick a backend (IndexedDB, falling back to localStorage) and load
+   * trips and travelers into memory. Safe to call repeatedly.
+   */
+  init(): Promise<void> {
+    if (typeof window === 'undefined') return Promise.resolve();
+
+    if (!this.initPromise) {
+      this.initPromise = this.openAdapter()
+        .then(() => this.hydrate())
+        .catch(error => console.error('Error initializing storage:', error))
+        .finally(() => this.notify());
+    }
+    return this.initPromise;
+  }
+
+  private ensureInitialized(): void {
+    if (!this.initPromise) {
+      void this.init();
+    }
+  }
+
+  private async openAdapter(): Promise<void> {
+    const indexedDBAdapter = new IndexedDBAdapter(this.DB_NAME, this.DB_VERSION);
+    if (await indexedDBAdapter.open()) {
+      this.adapter = indexedDBAdapter;
+      await this.migrateLegacyCollections(indexedDBAdapter);
+      return;
+    }
+
+    const localStorageAdapter = new LocalStorageAdapter(this.STORAGE_PREFIX);
+    if (await localStorageAdapter.open()) {
+      this.adapter = localStorageAdapter;
+    }
+  }
+
+  /**
+   * Move collections written by the localStorage backend into IndexedDB
+   */
+  private async migrateLegacyCollections(target: StorageAdapter): Promise<void> {
+    if (!this.isStorageAvailable()) return;
+
+    const legacy = new LocalStorageAdapter(this.STORAGE_PREFIX);
+    for (const collection of Object.keys(this.cache) as StorageCollection[]) {
+      const records = await legacy.getAll(collection);
+      if (records.length === 0) continue;
+
+      const existingIds = new Set((await target.getAll(collection)).map(r => r.id));
+      await target.putMany(collection, records.filter(r => !existingIds.has(r.id)));
+      await legacy.clear(collection);
+    }
+  }
+
+  /**
+   * Schema version of the data on this device. Unstamped data predates
+   * versioning unless there is nothing stored at all.
+   */
+  private async getStoredSchemaVersion(adapter: StorageAdapter): Promise<number> {
+    const stamped = this.getItem<number | null>(this.STORAGE_KEYS.SCHEMA_VERSION, null);
+    if (stamped !== null) return stamped;
+
+    for (const collection of VERSIONED_COLLECTIONS) {
+      if ((await adapter.getAll(collection)).length > 0) return LEGACY_SCHEMA_VERSION;
+    }
+    return this.getItem<unknown>(this.STORAGE_KEYS.SETTINGS, null) !== null
+      ? LEGACY_SCHEMA_VERSION
+      : CURRENT_SCHEMA_VERSION;
+  }
+
+  /**
+   * Upgrade stored records in place, moving any that fail into quarantine
+   */
+  private async runMigrations(adapter: StorageAdapter, fromVersion: number): Promise<void> {
+    let quarantinedCount = 0;
+
+    for (const collection of VERSIONED_COLLECTIONS) {
+      const stored = await adapter.getAll(collection);
+      const { records, quarantined } = migrateRecords<StorageRecord>(collection, stored, fromVersion);
+
+      await adapter.putMany(collection, records);
+      for (const entry of quarantined) {
+        await adapter.put('quarantine', entry);
+        await adapter.delete(collection, entry.recordId);
+      }
+      quarantinedCount += quarantined.length;
+    }
+
+    const settings = this.getItem<unknown>(this.STORAGE_KEYS.SETTINGS, null);
+    if (settings !== null) {
+      try {
+        this.setItem(this.STORAGE_KEYS.SETTINGS, migrateRecord('settings', settings, fromVersion));
+      } catch (error) {
+        await adapter.put('quarantine', createQuarantinedRecord('settings', settings, fromVersion, error));
+        this.removeItem(this.STORAGE_KEYS.SETTINGS);
+        quarantinedCount++;
+      }
+    }
+
+    if (quarantinedCount > 0) {
+      console.warn(`${quarantinedCount} record(s) quarantined while migrating to schema v${CURRENT_SCHEMA_VERSION}`);
+    }
+  }
+
+  /**
+   * Decode stored records, quarantining any that no longer match the types
+   */
+  private async decodeStored(
+    adapter: StorageAdapter,
+    collection: StorageCollection,
+    stored: StorageRecord[]
+  ): Promise<StorageRecord[]> {
+    const decoded: StorageRecord[] = [];
+
+    for (const record of stored) {
+      try {
+        decoded.push(RECORD_DECODERS[collection](record));
+      } catch (error) {
+        console.error(`Error decoding stored ${collection} record:`, error);
+        if (collection === 'quarantine') {
+          decoded.push(record);
+          continue;
+        }
+        if (collection === 'outbox') {
+          // The trip itself is intact; it simply stays unsynced
+          await adapter.delete(collection, record.id);
+          continue;
+        }
+        const entry = createQuarantinedRecord(collection, record, CURRENT_SCHEMA_VERSION, error);
+        await adapter.put('quarantine', entry);
+        await adapter.delete(collection, record.id);
+        this.cache.quarantine.set(entry.id, entry);
+      }
+    }
+
+    return decoded;
+  }
+
+  private async hydrate(): Promise<void> {
+    if (!this.adapter) return;
+
+    const fromVersion = await this.getStoredSchemaVersion(this.adapter);
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+      console.warn(`Stored data uses schema v${fromVersion}, newer than this app (v${CURRENT_SCHEMA_VERSION})`);
+    } else {
+      if (fromVersion < CURRENT_SCHEMA_VERSION) {
+        await this.runMigrations(this.adapter, fromVersion);
+      }
+      this.setItem(this.STORAGE_KEYS.SCHEMA_VERSION, CURRENT_SCHEMA_VERSION);
+    }
+
+    for (const collection of Object.keys(this.cache) as StorageCollection[]) {
+      const stored = await this.decodeStored(this.adapter, collection, await this.adapter.getAll(collection));
+      const cache = this.cache[collection];
+
+      // Writes made before hydration finished take precedence over stored copies
+      const merged = new Map(stored.map(record => [record.id, record]));
+      cache.forEach((record, id) => merged.set(id, record));
+      this.pendingDeletes[collection].forEach(id => merged.delete(id));
+      this.pendingDeletes[collection].clear();
+
+      cache.clear();
+      merged.forEach((record, id) => cache.set(id, record));
+    }
+
+    this.usage = await this.adapter.estimateUsage();
+  }
+
+  private persist(operation: (adapter: StorageAdapter) => Promise<void>): boolean {
+    if (typeof window === 'undefined') return false;
+
+    this.ensureInitialized();
+    this.writeQueue = this.writeQueue
+      .then(() => this.initPromise)
+      .then(() => (this.adapter ? operation(this.adapter) : undefined))
+      .catch(error => console.error('Error writing to storage:', error));
+    return true;
+  }
+
+  private putRecord<T extends StorageRecord>(collection: StorageCollection, record: T): boolean {
+    this.cache[collection].set(record.id, record);
+    this.pendingDeletes[collection].delete(record.id);
+    return this.persist(adapter => adapter.put(collection, record));
+  }
+
+  private deleteRecord(collection: StorageCollection, id: string): boolean {
+    this.cache[collection].delete(id);
+    this.pendingDeletes[collection].add(id);
+    return this.persist(adapter => adapter.delete(collection, id));
+  }
+
+  private replaceCollection<T extends StorageRecord>(collection: StorageCollection, records: T[]): boolean {
+    const cache = this.cache[collection];
+    cache.forEach((_, id) => this.pendingDeletes[collection].add(id));
+    cache.clear();
+    records.forEach(record => {
+      cache.set(record.id, record);
+      this.pendingDeletes[collection].delete(record.id);
+    });
+    return this.persist(async adapter => {
+      await adapter.clear(collection);
+      await adapter.putMany(collection, records);
+    });
+  }
+
+  private getRecords<T extends StorageRecord>(collection: StorageCollection): T[] {
+    this.ensureInitialized();
+    return Array.from(this.cache[collection].values()) as T[];
+  }
+
+  /**
+   * Wait until every queued write has reached the backend
+   */
+  flush(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  /**
+   * Register a callback fired once stored records have been loaded, and
+   * whenever settings change
+   */
+  subscribe(listener: StorageListener): () => void {
+    this.listeners.add(listener);
+    this.ensureInitialized();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  getBackend(): StorageBackend | null {
+    return this.adapter?.backend ?? null;
+  }
+
   private removeItem(key: string): boolean {
     if (!this.isStorageAvailable()) return false;
     
@@ -87,47 +401,162 @@ export class StorageService {
   }
 
   getUser(): User | null {
-    return this.getItem<User | null>(this.STORAGE_KEYS.USER, null);
+    return this.getItem<User | null>(this.STORAGE_KEYS.USER, null, decodeUser);
   }
 
   removeUser(): boolean {
     return this.removeItem(this.STORAGE_KEYS.USER);
   }
 
+  // Session management
+  saveSession(session: AuthSession): boolean {
+    return this.setItem(this.STORAGE_KEYS.SESSION, session);
+  }
+
+  getSession(): AuthSession | null {
+    return this.getItem<AuthSession | null>(this.STORAGE_KEYS.SESSION, null, decodeAuthSession);
+  }
+
+  removeSession(): boolean {
+    return this.removeItem(this.STORAGE_KEYS.SESSION);
+  }
+
   // Trip management
   saveTrips(trips: Trip[]): boolean {
-    return this.setItem(this.STORAGE_KEYS.TRIPS, trips);
+    return this.replaceCollection('trips', trips);
   }
 
   getTrips(): Trip[] {
-    return this.getItem<Trip[]>(this.STORAGE_KEYS.TRIPS, []);
+    return this.getRecords<Trip>('trips');
   }
 
   addTrip(trip: Trip): boolean {
-    const trips = this.getTrips();
-    trips.push(trip);
-    return this.saveTrips(trips);
+    assertTripState(trip);
+    const saved = this.putRecord('trips', trip);
+    if (saved) this.enqueueMutation('create', trip.id, trip);
+    return saved;
   }
 
+  /**
+   * Edit a trip and queue the change for sync. Status changes must follow
+   * the trip lifecycle; an invalid one throws TripTransitionError.
+   */
   updateTrip(tripId: string, updates: Partial<Trip>): boolean {
-    const trips = this.getTrips();
-    const index = trips.findIndex(trip => trip.id === tripId);
-    
-    if (index === -1) return false;
+    const trip = this.cache.trips.get(tripId) as Trip | undefined;
     
-    trips[index] = { ...trips[index], ...updates, updatedAt: new Date() };
-    return this.saveTrips(trips);
+    if (!trip) return false;
+
+    const now = new Date();
+    const changes = enrichCompletedTrip(trip, applyTransition(trip, updates, now), now);
+
+    // The trace recorded so far goes up once, with the change that ends the trip
+    const ending = trip.status === 'active' && changes.status !== undefined && changes.status !== 'active';
+    if (ending && trip.waypoints && changes.waypoints === undefined) {
+      return this.writeTripUpdates(trip, { ...changes, waypoints: trip.waypoints }, now);
+    }
+    return this.writeTripUpdates(trip, changes, now);
+  }
+
+  /**
+   * Add recorded GPS fixes to an active trip's trace. Returns false once the
+   * trip has ended (or is gone), which tells the recorder to stop. The fixes
+   * stay on the device until the trip ends rather than queueing the whole
+   * trace again on every flush.
+   */
+  appendWaypoints(tripId: string, waypoints: Location[]): boolean {
+    const trip = this.cache.trips.get(tripId) as Trip | undefined;
+
+    if (!trip || trip.status !== 'active') return false;
+    if (waypoints.length === 0) return true;
+
+    return this.putRecord('trips', applyTripUpdates(trip, { waypoints: [...(trip.waypoints ?? []), ...waypoints] }, new Date()));
+  }
+
+  private writeTripUpdates(trip: Trip, updates: Partial<Trip>, at: Date): boolean {
+    const updated = applyTripUpdates(trip, updates, at);
+    const saved = this.putRecord('trips', updated);
+    if (saved) {
+      // Conflicts are reviewed per device and never leave it
+      const changes: Partial<Trip> = { ...updates };
+      delete changes.conflicts;
+      const fieldRevisions: Partial<Record<TripField, Date>> = {};
+      getTripFields(changes).forEach(field => {
+        fieldRevisions[field] = updated.fieldRevisions?.[field];
+      });
+      this.enqueueMutation('update', trip.id, { ...changes, fieldRevisions, updatedAt: updated.updatedAt });
+    }
+    return saved;
   }
 
   deleteTrip(tripId: string): boolean {
-    const trips = this.getTrips();
-    const filteredTrips = trips.filter(trip => trip.id !== tripId);
-    return this.saveTrips(filteredTrips);
+    const deleted = this.deleteRecord('trips', tripId);
+    if (deleted) this.enqueueMutation('delete', tripId);
+    return deleted;
+  }
+
+  /**
+   * Record that the server has accepted a trip. Unlike updateTrip this
+   * neither bumps updatedAt nor queues another mutation.
+   */
+  markTripSynced(tripId: string, syncedAt: Date): boolean {
+    const trip = this.cache.trips.get(tripId) as Trip | undefined;
+    
+    if (!trip) return false;
+    
+    return this.putRecord('trips', { ...trip, syncedAt });
+  }
+
+  /**
+   * Fold the server's copy of a trip into the local one. Fields edited on
+   * both sides since the last sync are recorded as conflicts on the trip,
+   * as are any the server reports finding when it took this device's edits.
+   */
+  mergeRemoteTrip(remote: Trip, syncedAt: Date = new Date()): boolean {
+    const local = this.cache.trips.get(remote.id) as Trip | undefined;
+
+    if (!local) {
+      return this.putRecord('trips', { ...remote, conflicts: undefined, syncedAt });
+    }
+
+    const reported = [...(local.conflicts ?? []), ...(remote.conflicts ?? [])];
+    const { merged } = mergeTrips({ ...local, conflicts: reported }, remote, local.syncedAt);
+    return this.putRecord('trips', { ...merged, syncedAt });
+  }
+
+  /**
+   * Drop a trip deleted on another device. Nothing is queued for it, and
+   * changes still waiting to go up for it are dropped too.
+   */
+  removeRemoteTrip(tripId: string): boolean {
+    this.getOutbox()
+      .filter(entry => entry.tripId === tripId)
+      .forEach(entry => this.removeOutboxEntry(entry.id));
+    return this.deleteRecord('trips', tripId);
+  }
+
+  /**
+   * Settle a conflict by keeping one side's value. The choice is written as
+   * a fresh edit so it wins on every device once synced.
+   */
+  resolveTripConflict(tripId: string, field: TripField, resolution: ConflictResolution): boolean {
+    const trip = this.cache.trips.get(tripId) as Trip | undefined;
+    const conflict = trip?.conflicts?.find(c => c.field === field);
+
+    if (!trip || !conflict) return false;
+
+    const value = resolution === 'local' ? conflict.localValue : conflict.remoteValue;
+    const conflicts = trip.conflicts!.filter(c => c.field !== field);
+
+    // Both sides reached their status legitimately, so either may be kept
+    return this.writeTripUpdates(trip, {
+      ...decodeTripPatch({ [field]: value }),
+      conflicts: conflicts.length > 0 ? conflicts : undefined
+    }, new Date());
   }
 
   getTripById(tripId: string): Trip | null {
-    const trips = this.getTrips();
-    return trips.find(trip => trip.id === tripId) || null;
+    this.ensureInitialized();
+    return (this.cache.trips.get(tripId) as Trip | undefined) || null;
   }
 
   getActiveTrip(): Trip | null {
@@ -135,45 +564,137 @@ export class StorageService {
     return trips.find(trip => trip.status === 'active') || null;
   }
 
+  // Detected trips waiting for the user to confirm or dismiss them
+  getDraftTrips(): DraftTrip[] {
+    return this.getItem<DraftTrip[]>(this.STORAGE_KEYS.DRAFT_TRIPS, [], decodeDraftTrips);
+  }
+
+  saveDraftTrip(draft: DraftTrip): boolean {
+    const drafts = this.getDraftTrips().filter(d => d.id !== draft.id);
+    return this.setItem(this.STORAGE_KEYS.DRAFT_TRIPS, [...drafts, draft]);
+  }
+
+  removeDraftTrip(draftId: string): boolean {
+    const drafts = this.getDraftTrips();
+    if (!drafts.some(d => d.id === draftId)) return false;
+    return this.setItem(this.STORAGE_KEYS.DRAFT_TRIPS, drafts.filter(d => d.id !== draftId));
+  }
+
+  // Saved places (home, work, ...) that locations snap to
+  getSavedPlaces(): SavedPlace[] {
+    return this.getItem<SavedPlace[]>(this.STORAGE_KEYS.SAVED_PLACES, [], decodeSavedPlaces);
+  }
+
+  saveSavedPlace(place: SavedPlace): boolean {
+    const places = this.getSavedPlaces().filter(p => p.id !== place.id);
+    const saved = this.setItem(this.STORAGE_KEYS.SAVED_PLACES, [...places, place]);
+    if (saved) this.notify();
+    return saved;
+  }
+
+  removeSavedPlace(placeId: string): boolean {
+    const places = this.getSavedPlaces();
+    if (!places.some(p => p.id === placeId)) return false;
+    const saved = this.setItem(this.STORAGE_KEYS.SAVED_PLACES, places.filter(p => p.id !== placeId));
+    if (saved) this.notify();
+    return saved;
+  }
+
+  // Sync outbox management
+  getOutbox(): OutboxEntry[] {
+    return this.getRecords<OutboxEntry>('outbox')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  saveOutboxEntry(entry: OutboxEntry): boolean {
+    return this.putRecord('outbox', entry);
+  }
+
+  removeOutboxEntry(entryId: string): boolean {
+    return this.deleteRecord('outbox', entryId);
+  }
+
+  /**
+   * Queue a trip mutation for the sync engine. Entries that have never been
+   * sent are folded together so the server sees one request per change set.
+   * The sync engine counts an attempt before sending, so an entry on its
+   * way to the server is never folded into or dropped.
+   */
+  private enqueueMutation(operation: SyncOperation, tripId: string, payload?: Partial<Trip>): void {
+    const forTrip = this.getOutbox().filter(entry => entry.tripId === tripId && !entry.failed);
+    const unsent = forTrip.filter(entry => entry.attempts === 0);
+
+    if (operation === 'update' && unsent.length > 0) {
+      const latest = unsent[unsent.length - 1];
+      if (latest.operation !== 'delete') {
+        // Fields from the earlier edits keep their own revisions
+        this.saveOutboxEntry({
+          ...latest,
+          payload: {
+            ...latest.payload,
+            ...payload,
+            fieldRevisions: { ...latest.payload?.fieldRevisions, ...payload?.fieldRevisions }
+          }
+        });
+        return;
+      }
+    }
+
+    if (operation === 'delete') {
+      unsent.forEach(entry => this.removeOutboxEntry(entry.id));
+      // The server never saw this trip, so there is nothing to delete there
+      const neverSent = forTrip.length === unsent.length && unsent.some(entry => entry.operation === 'create');
+      if (neverSent) return;
+    }
+
+    const now = new Date();
+    this.saveOutboxEntry({
+      id: `sync_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      tripId,
+      operation,
+      payload,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now
+    });
+  }
+
   // Traveler management
   saveTravelers(travelers: Traveler[]): boolean {
-    return this.setItem(this.STORAGE_KEYS.TRAVELERS, travelers);
+    return this.replaceCollection('travelers', travelers);
   }
 
   getTravelers(): Traveler[] {
-    return this.getItem<Traveler[]>(this.STORAGE_KEYS.TRAVELERS, []);
+    return this.getRecords<Traveler>('travelers');
   }
 
   addTraveler(traveler: Traveler): boolean {
-    const travelers = this.getTravelers();
-    travelers.push(traveler);
-    return this.saveTravelers(travelers);
+    return this.putRecord('travelers', traveler);
   }
 
   updateTraveler(travelerId: string, updates: Partial<Traveler>): boolean {
-    const travelers = this.getTravelers();
-    const index = travelers.findIndex(traveler => traveler.id === travelerId);
+    const traveler = this.cache.travelers.get(travelerId) as Traveler | undefined;
     
-    if (index === -1) return false;
+    if (!traveler) return false;
     
-    travelers[index] = { ...travelers[index], ...updates };
-    return this.saveTravelers(travelers);
+    return this.putRecord('travelers', { ...traveler, ...updates });
   }
 
   deleteTraveler(travelerId: string): boolean {
-    const travelers = this.getTravelers();
-    const filteredTravelers = travelers.filter(traveler => traveler.id !== travelerId);
-    return this.saveTravelers(filteredTravelers);
+    return this.deleteRecord('travelers', travelerId);
   }
 
   getTravelerById(travelerId: string): Traveler | null {
-    const travelers = this.getTravelers();
-    return travelers.find(traveler => traveler.id === travelerId) || null;
+    this.ensureInitialized();
+    return (this.cache.travelers.get(travelerId) as Traveler | undefined) || null;
   }
 
   // Settings management
   saveSettings(settings: AppSettings): boolean {
-    return this.setItem(this.STORAGE_KEYS.SETTINGS, settings);
+    const saved = this.setItem(this.STORAGE_KEYS.SETTINGS, settings);
+    // Let features that follow a setting (e.g. trip detection) pick it up
+    if (saved) this.notify();
+    return saved;
   }
 
   getSettings(): AppSettings {
@@ -184,7 +705,7 @@ export class StorageService {
       dataRetentionDays: 365,
       syncFrequency: 'weekly',
       theme: 'system'
-    });
+    }, decodeSettings);
   }
 
   updateSettings(updates: Partial<AppSettings>): boolean {
@@ -195,15 +716,20 @@ export class StorageService {
 
   // Consent management
   saveConsent(consent: ConsentData): boolean {
-    return this.setItem(this.STORAGE_KEYS.CONSENT, consent);
+    const saved = this.setItem(this.STORAGE_KEYS.CONSENT, consent);
+    // Trip detection waits for location consent
+    if (saved) this.notify();
+    return saved;
   }
 
   getConsent(): ConsentData | null {
-    return this.getItem<ConsentData | null>(this.STORAGE_KEYS.CONSENT, null);
+    return this.getItem<ConsentData | null>(this.STORAGE_KEYS.CONSENT, null, decodeConsent);
   }
 
   removeConsent(): boolean {
-    return this.removeItem(this.STORAGE_KEYS.CONSENT);
+    const removed = this.removeItem(this.STORAGE_KEYS.CONSENT);
+    if (removed) this.notify();
+    return removed;
   }
 
   // Sync management
@@ -212,29 +738,120 @@ export class StorageService {
   }
 
   getLastSync(): Date | null {
-    return this.getItem<Date | null>(this.STORAGE_KEYS.LAST_SYNC, null);
+    return this.getItem<Date | null>(this.STORAGE_KEYS.LAST_SYNC, null, decodeDate);
+  }
+
+  // Where the last pull got to in the server's change feed; 0 pulls everything
+  setSyncCursor(cursor: number): boolean {
+    return this.setItem(this.STORAGE_KEYS.SYNC_CURSOR, cursor);
+  }
+
+  getSyncCursor(): number {
+    return this.getItem<number>(this.STORAGE_KEYS.SYNC_CURSOR, 0);
+  }
+
+  // Schema version and quarantine management
+  getSchemaVersion(): number {
+    return this.getItem<number>(this.STORAGE_KEYS.SCHEMA_VERSION, CURRENT_SCHEMA_VERSION);
+  }
+
+  getQuarantinedRecords(): QuarantinedRecord[] {
+    return this.getRecords<QuarantinedRecord>('quarantine');
+  }
+
+  private quarantineRecords(entries: QuarantinedRecord[]): void {
+    entries.forEach(entry => this.putRecord('quarantine', entry));
+    if (entries.length > 0) {
+      console.warn(`${entries.length} record(s) quarantined during import`);
+    }
+  }
+
+  /**
+   * Re-run migrations on a quarantined record, restoring it on success
+   */
+  retryQuarantinedRecord(quarantineId: string): boolean {
+    const entry = this.cache.quarantine.get(quarantineId) as QuarantinedRecord | undefined;
+    if (!entry) return false;
+
+    try {
+      const migrated = migrateRecord(entry.source, entry.payload, entry.schemaVersion);
+      if (entry.source === 'settings') {
+        this.saveSettings(decodeSettings(migrated));
+      } else {
+        this.putRecord(entry.source, RECORD_DECODERS[entry.source](migrated));
+      }
+      return this.deleteRecord('quarantine', quarantineId);
+    } catch (error) {
+      this.putRecord('quarantine', {
+        ...entry,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
+  discardQuarantinedRecord(quarantineId: string): boolean {
+    return this.deleteRecord('quarantine', quarantineId);
   }
 
   // Data export/import
   exportAllData(): LocalStorageData {
+    const quarantine = this.getQuarantinedRecords();
     return {
       user: this.getUser() || undefined,
       trips: this.getTrips(),
       travelers: this.getTravelers(),
       settings: this.getSettings(),
       consent: this.getConsent() || undefined,
-      lastSync: this.getLastSync() || undefined
+      lastSync: this.getLastSync() || undefined,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      quarantine: quarantine.length > 0 ? quarantine : undefined,
+      savedPlaces: this.getSavedPlaces()
     };
   }
 
   importAllData(data: LocalStorageData): boolean {
     try {
-      if (data.user) this.saveUser(data.user);
-      if (data.trips) this.saveTrips(data.trips);
-      if (data.travelers) this.saveTravelers(data.travelers);
-      if (data.settings) this.saveSettings(data.settings);
-      if (data.consent) this.saveConsent(data.consent);
-      if (data.lastSync) this.setLastSync(data.lastSync);
+      const fromVersion = data.schemaVersion ?? LEGACY_SCHEMA_VERSION;
+      if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        console.error(`Cannot import data from schema v${fromVersion}, newer than this app (v${CURRENT_SCHEMA_VERSION})`);
+        return false;
+      }
+
+      // Decode singletons up front so a malformed file aborts before any write
+      const user = data.user ? decodeUser(data.user) : null;
+      const consent = data.consent ? decodeConsent(data.consent) : null;
+      const lastSync = data.lastSync ? decodeDate(data.lastSync) : null;
+      const savedPlaces = data.savedPlaces ? decodeSavedPlaces(data.savedPlaces) : null;
+
+      if (user) this.saveUser(user);
+      if (data.trips) {
+        const { records, quarantined } = migrateRecords('trips', data.trips, fromVersion, decodeTrip);
+        this.saveTrips(records);
+        this.quarantineRecords(quarantined);
+
+        // Trips the server has never seen go up with the next sync
+        const queued = new Set(this.getOutbox().map(entry => entry.tripId));
+        records
+          .filter(trip => !trip.syncedAt && !queued.has(trip.id))
+          .forEach(trip => this.enqueueMutation('create', trip.id, trip));
+      }
+      if (data.travelers) {
+        const { records, quarantined } = migrateRecords('travelers', data.travelers, fromVersion, decodeTraveler);
+        this.saveTravelers(records);
+        this.quarantineRecords(quarantined);
+      }
+      if (data.settings) {
+        try {
+          this.saveSettings(decodeSettings(migrateRecord('settings', data.settings, fromVersion)));
+        } catch (error) {
+          this.quarantineRecords([createQuarantinedRecord('settings', data.settings, fromVersion, error)]);
+        }
+      }
+      if (consent) this.saveConsent(consent);
+      if (lastSync) this.setLastSync(lastSync);
+      if (savedPlaces) this.setItem(this.STORAGE_KEYS.SAVED_PLACES, savedPlaces);
+      if (data.quarantine) this.quarantineRecords(data.quarantine.map(decodeQuarantinedRecord));
       return true;
     } catch (error) {
       console.error('Error importing data:', error);
@@ -245,8 +862,13 @@ export class StorageService {
   // Clear all data
   clearAllData(): boolean {
     try {
+      this.saveTrips([]);
+      this.saveTravelers([]);
+      this.replaceCollection('quarantine', []);
+      this.replaceCollection('outbox', []);
       const keys = Object.values(this.STORAGE_KEYS);
       keys.forEach(key => this.removeItem(key));
+      this.setItem(this.STORAGE_KEYS.SCHEMA_VERSION, CURRENT_SCHEMA_VERSION);
       return true;
     } catch (error) {
       console.error('Error clearing data:', error);
@@ -254,29 +876,20 @@ export class StorageService {
     }
   }
 
-  // Get storage usage info
+  // Get storage usage info (as of the last estimate from the active backend)
   getStorageInfo(): { used: number; total: number; percentage: number } {
-    if (!this.isStorageAvailable()) {
+    if (!this.adapter) {
       return { used: 0, total: 0, percentage: 0 };
     }
 
-    try {
-      let used = 0;
-      for (let key in localStorage) {
-        if (key.startsWith(this.STORAGE_PREFIX)) {
-          used += localStorage[key].length + key.length;
-        }
-      }
+    this.adapter.estimateUsage()
+      .then(usage => { this.usage = usage; })
+      .catch(error => console.error('Error calculating storage info:', error));
 
-      // Estimate total storage (5MB is typical for localStorage)
-      const total = 5 * 1024 * 1024; // 5MB in bytes
-      const percentage = (used / total) * 100;
+    const { used, total } = this.usage;
+    const percentage = total > 0 ? (used / total) * 100 : 0;
 
-      return { used, total, percentage };
-    } catch (error) {
-      console.error('Error calculating storage info:', error);
-      return { used: 0, total: 0, percentage: 0 };
-    }
+    return { used, total, percentage };
   }
 }
 
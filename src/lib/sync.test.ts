@@ -0,0 +1,155 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Trip } from './types';
+import { storageService } from './storage';
+import { SyncService } from './sync';
+
+const HOUR = 60 * 60 * 1000;
+
+const makeTrip = (id = 'trip_1'): Trip => {
+  const startTime = new Date(Date.now() - HOUR);
+  return {
+    id,
+    tripNumber: 1,
+    status: 'active',
+    origin: { latitude: 8.5241, longitude: 76.9366, timestamp: startTime },
+    startTime,
+    mode: 'bus',
+    purpose: 'work',
+    primaryTraveler: 'user_1',
+    accompanyingTravelers: [],
+    totalTravelers: 1,
+    createdAt: startTime,
+    updatedAt: startTime
+  };
+};
+
+const created = (trip: Trip) => Response.json({ success: true, data: trip }, { status: 201 });
+
+// A response that arrives only when the test says so
+const deferred = () => {
+  let respond: (response: Response) => void = () => {};
+  const response = new Promise<Response>(resolve => { respond = resolve; });
+  return { response, respond };
+};
+
+beforeEach(async () => {
+  await storageService.init();
+  storageService.clearAllData();
+  storageService.saveSession({
+    token: 'token',
+    user: { id: 'user_1', hasDataConsent: true, hasLocationConsent: true, createdAt: new Date(), lastActiveAt: new Date() },
+    expiresAt: new Date(Date.now() + HOUR)
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('outbox', () => {
+  it('folds unsent edits into the queued entry, keeping each field\'s revision', () => {
+    storageService.addTrip(makeTrip());
+    storageService.updateTrip('trip_1', { notes: 'first' });
+    const firstRevision = storageService.getTripById('trip_1')!.fieldRevisions!.notes;
+    storageService.updateTrip('trip_1', { purpose: 'shopping' });
+
+    const outbox = storageService.getOutbox();
+    expect(outbox.map(entry => entry.operation)).toEqual(['create']);
+    const [create] = outbox;
+    expect(create.payload).toMatchObject({ notes: 'first', purpose: 'shopping' });
+    expect(create.payload!.fieldRevisions!.notes).toEqual(firstRevision);
+  });
+
+  it('gives edits made while an entry is being sent an entry of their own', async () => {
+    const { response, respond } = deferred();
+    const fetcher = vi.fn(() => response);
+    const sync = new SyncService({ fetcher });
+    const trip = makeTrip();
+    storageService.addTrip(trip);
+
+    const syncing = sync.syncNow();
+    await vi.waitFor(() => expect(fetcher).toHaveBeenCalledTimes(1));
+    storageService.updateTrip(trip.id, { notes: 'typed while uploading' });
+    respond(created(trip));
+    await syncing;
+
+    const outbox = storageService.getOutbox();
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0]).toMatchObject({ operation: 'update', attempts: 0, payload: { notes: 'typed while uploading' } });
+    expect(storageService.getTripById(trip.id)!.notes).toBe('typed while uploading');
+  });
+
+  it('queues a delete for a trip whose create is already on its way', async () => {
+    const { response, respond } = deferred();
+    const fetcher = vi.fn(() => response);
+    const sync = new SyncService({ fetcher });
+    const trip = makeTrip();
+    storageService.addTrip(trip);
+
+    const syncing = sync.syncNow();
+    await vi.waitFor(() => expect(fetcher).toHaveBeenCalledTimes(1));
+    storageService.deleteTrip(trip.id);
+    respond(created(trip));
+    await syncing;
+
+    expect(storageService.getOutbox().map(entry => entry.operation)).toEqual(['delete']);
+    expect(storageService.getTripById(trip.id)).toBeNull();
+  });
+});
+
+describe('SyncService', () => {
+  it('backs off exponentially, capped at an hour', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(SyncService.getRetryDelay(1)).toBe(5000);
+    expect(SyncService.getRetryDelay(3)).toBe(20000);
+    expect(SyncService.getRetryDelay(30)).toBe(HOUR);
+  });
+
+  it('keeps an entry for retry after a network error, counting the attempt once', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const sync = new SyncService({ fetcher: vi.fn(() => Promise.reject(new Error('offline'))) });
+    storageService.addTrip(makeTrip());
+
+    const before = Date.now();
+    await sync.syncNow();
+
+    const [entry] = storageService.getOutbox();
+    expect(entry).toMatchObject({ operation: 'create', attempts: 1, lastError: 'offline' });
+    expect(entry.failed).toBeUndefined();
+    expect(entry.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 5000);
+    expect(sync.getState().lastError).toBe('offline');
+  });
+
+  it('marks an entry the server refuses as failed', async () => {
+    const sync = new SyncService({
+      fetcher: vi.fn(async () => Response.json({ success: false, error: 'Invalid trip' }, { status: 400 }))
+    });
+    storageService.addTrip(makeTrip());
+
+    await sync.syncNow();
+
+    expect(storageService.getOutbox()[0]).toMatchObject({ failed: true, lastError: 'Invalid trip' });
+  });
+
+  it('uploads the whole trip when the server no longer has it', async () => {
+    const trip = makeTrip();
+    storageService.addTrip(trip);
+    await new SyncService({ fetcher: vi.fn(async () => created(trip)) }).syncNow();
+    storageService.updateTrip(trip.id, { notes: 'edited' });
+    const [update] = storageService.getOutbox();
+
+    const fetcher = vi.fn(async (_url: RequestInfo | URL, init?: RequestInit) =>
+      init?.method === 'PUT'
+        ? Response.json({ success: false, error: 'Trip not found' }, { status: 404 })
+        : created({ ...trip, notes: 'edited' })
+    );
+    await new SyncService({ fetcher }).syncNow();
+
+    expect(fetcher.mock.calls.slice(0, 2).map(([, init]) => init?.method)).toEqual(['PUT', 'POST']);
+    const [, upsert] = fetcher.mock.calls[1];
+    expect((upsert!.headers as Record<string, string>)['Idempotency-Key']).toBe(`${update.id}_upsert`);
+    expect(JSON.parse(upsert!.body as string)).toMatchObject({ id: trip.id, notes: 'edited' });
+    expect(storageService.getOutbox()).toHaveLength(0);
+  });
+});
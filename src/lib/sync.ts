@@ -0,0 +1,382 @@
+// Offline-first trip sync for NATPAC Travel Data Collection App
+//
+// StorageService records every local trip mutation in an outbox. This
+// service replays the outbox against /api/trips when a sync is due, sending
+// each entry's id as an Idempotency-Key so a replay after a lost response
+// never creates a second copy of a trip on the server. After pushing, it
+// pulls trips changed or deleted elsewhere from the server's change feed and
+// merges them field by field (./conflicts).
+
+import { AppSettings, OutboxEntry, SyncState } from './types';
+import { storageService } from './storage';
+import { decodeTrip } from './codecs';
+import { authService } from './auth';
+
+type SyncListener = (state: SyncState) => void;
+
+type EntryOutcome = 'done' | 'retry' | 'failed';
+
+interface SyncServiceOptions {
+  baseUrl?: string;
+  fetcher?: typeof fetch;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const SYNC_INTERVALS: Record<AppSettings['syncFrequency'], number | null> = {
+  manual: null,
+  daily: 24 * HOUR,
+  weekly: 7 * 24 * HOUR
+};
+
+const RETRY_BASE_DELAY = 5 * 1000; // 5 seconds
+const RETRY_MAX_DELAY = HOUR;
+const SCHEDULE_CHECK_INTERVAL = 60 * 1000; // 1 minute
+const PULL_PAGE_SIZE = 100;
+
+export class SyncService {
+  private static instance: SyncService;
+  private readonly baseUrl: string;
+  private readonly fetcher: typeof fetch;
+  private running: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribeAuth: (() => void) | null = null;
+  private listeners = new Set<SyncListener>();
+  private lastError: string | null = null;
+
+  constructor(options: SyncServiceOptions = {}) {
+    this.baseUrl = options.baseUrl ?? '';
+    this.fetcher = options.fetcher ?? ((...args) => fetch(...args));
+  }
+
+  static getInstance(): SyncService {
+    if (!SyncService.instance) {
+      SyncService.instance = new SyncService();
+    }
+    return SyncService.instance;
+  }
+
+  /**
+   * Exponential backoff with jitter: 5s, 10s, 20s ... capped at one hour
+   */
+  static getRetryDelay(attempts: number): number {
+    const delay = Math.min(RETRY_BASE_DELAY * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_DELAY);
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  /**
+   * Whether a scheduled sync should run for the given frequency setting
+   */
+  static isSyncDue(
+    frequency: AppSettings['syncFrequency'],
+    lastSync: Date | null,
+    now: Date = new Date()
+  ): boolean {
+    const interval = SYNC_INTERVALS[frequency];
+    if (interval === null) return false;
+    if (!lastSync) return true;
+    return now.getTime() - lastSync.getTime() >= interval;
+  }
+
+  /**
+   * Begin scheduled syncing. Safe to call from every component that needs it.
+   */
+  start(): void {
+    if (this.timer !== null || typeof window === 'undefined') return;
+
+    this.timer = setInterval(() => void this.maybeSync(), SCHEDULE_CHECK_INTERVAL);
+    window.addEventListener('online', this.handleOnline);
+    // Anything recorded while signed out goes up as soon as the user signs in
+    this.unsubscribeAuth = authService.subscribe(session => {
+      if (session) void this.maybeSync();
+    });
+    void storageService.init().then(() => this.maybeSync());
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribeAuth?.();
+    this.unsubscribeAuth = null;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+  }
+
+  private handleOnline = () => {
+    void this.maybeSync();
+  };
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  getState(): SyncState {
+    const outbox = storageService.getOutbox();
+    return {
+      pending: outbox.filter(entry => !entry.failed).length,
+      failed: outbox.filter(entry => entry.failed).length,
+      syncing: this.running !== null,
+      lastSync: storageService.getLastSync(),
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * Sync if the configured frequency says so, or if earlier attempts are
+   * waiting on their backoff to expire
+   */
+  async maybeSync(): Promise<void> {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+    if (!authService.isAuthenticated()) return;
+
+    const { syncFrequency } = storageService.getSettings();
+    const now = new Date();
+    const retryReady = storageService.getOutbox().some(
+      entry => !entry.failed && entry.attempts > 0 && entry.nextAttemptAt <= now
+    );
+
+    if (retryReady || SyncService.isSyncDue(syncFrequency, storageService.getLastSync(), now)) {
+      await this.runSync(false);
+    }
+  }
+
+  /**
+   * Sync immediately, ignoring frequency and backoff (e.g. "Sync now")
+   */
+  syncNow(): Promise<void> {
+    return this.runSync(true);
+  }
+
+  private runSync(force: boolean): Promise<void> {
+    if (!this.running) {
+      this.running = this.processOutbox(force).finally(() => {
+        this.running = null;
+        this.notify();
+      });
+      this.notify();
+    }
+    return this.running;
+  }
+
+  private async processOutbox(force: boolean): Promise<void> {
+    await storageService.init();
+    this.lastError = null;
+
+    if (!authService.isAuthenticated()) {
+      this.lastError = 'Sign in to sync your trips';
+      return;
+    }
+
+    const now = new Date();
+    // Later changes to a trip must wait for its earlier ones
+    const blockedTrips = new Set<string>();
+
+    for (const entry of storageService.getOutbox()) {
+      if (entry.failed) {
+        blockedTrips.add(entry.tripId);
+        continue;
+      }
+      if (blockedTrips.has(entry.tripId)) continue;
+      if (!force && entry.nextAttemptAt > now) {
+        blockedTrips.add(entry.tripId);
+        continue;
+      }
+
+      const outcome = await this.processEntry(entry);
+      if (outcome === 'retry') {
+        // Most likely offline or the server is down; try the rest later
+        break;
+      }
+      if (outcome === 'failed') {
+        blockedTrips.add(entry.tripId);
+      }
+    }
+
+    if (storageService.getOutbox().every(entry => entry.failed)) {
+      // Only schedules the next sync; what to pull is tracked by the cursor
+      const pulledAt = new Date();
+      if (await this.pullChanges()) {
+        storageService.setLastSync(pulledAt);
+      }
+    }
+  }
+
+  /**
+   * Merge in trips edited or deleted on other devices since the last pull.
+   * The server numbers every change, so a trip uploaded late or from a
+   * device with a wrong clock is still picked up.
+   */
+  private async pullChanges(): Promise<boolean> {
+    try {
+      // Changes come oldest first, a page at a time; keep going until the last
+      for (let hasMore = true; hasMore;) {
+        const since = storageService.getSyncCursor();
+        const query = new URLSearchParams({ since: String(since), limit: String(PULL_PAGE_SIZE) });
+
+        const response = await this.fetcher(`${this.baseUrl}/api/trips/changes?${query}`, {
+          headers: authService.getAuthHeaders()
+        });
+        if (response.status === 401) {
+          authService.clearSession();
+        }
+        if (!response.ok) {
+          this.lastError = await this.readError(response);
+          return false;
+        }
+
+        const { trips, deleted, cursor, hasMore: more } = (await response.json()).data ?? {};
+        (Array.isArray(trips) ? trips : []).forEach((trip: unknown) => {
+          this.mergeRemote(trip);
+        });
+        (Array.isArray(deleted) ? deleted : []).forEach((tripId: unknown) => {
+          if (typeof tripId === 'string') storageService.removeRemoteTrip(tripId);
+        });
+
+        // A cursor that does not move would fetch the same page forever
+        if (typeof cursor !== 'number' || cursor <= since) break;
+        storageService.setSyncCursor(cursor);
+        hasMore = more === true;
+      }
+      return true;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : 'Network error';
+      return false;
+    }
+  }
+
+  private mergeRemote(trip: unknown): boolean {
+    try {
+      return storageService.mergeRemoteTrip(decodeTrip(trip));
+    } catch (error) {
+      console.error('Error merging remote trip:', error);
+      return false;
+    }
+  }
+
+  private async processEntry(queued: OutboxEntry): Promise<EntryOutcome> {
+    // Edits made since the outbox was read may have been folded into it
+    const current = storageService.getOutbox().find(({ id }) => id === queued.id);
+    if (!current) return 'done';
+
+    // Counted before sending: from here on the server may have it, so later
+    // edits get an entry of their own instead of folding into this one
+    const entry: OutboxEntry = { ...current, attempts: current.attempts + 1 };
+    storageService.saveOutboxEntry(entry);
+
+    let response: Response;
+
+    try {
+      response = await this.send(entry);
+    } catch (error) {
+      return this.recordFailure(entry, error instanceof Error ? error.message : 'Network error', false);
+    }
+
+    if (response.ok) {
+      storageService.removeOutboxEntry(entry.id);
+      // A trip deleted while this was on its way stays deleted here
+      if (entry.operation !== 'delete' && storageService.getTripById(entry.tripId)) {
+        // The server answers with its merged copy, which may carry edits from elsewhere
+        const body = await response.json().catch(() => null);
+        if (!body?.data || !this.mergeRemote(body.data)) {
+          storageService.markTripSynced(entry.tripId, new Date());
+        }
+      }
+      return 'done';
+    }
+
+    const message = await this.readError(response);
+    // The session expired; the entry goes through once the user signs in again
+    if (response.status === 401) {
+      authService.clearSession();
+      return this.recordFailure(entry, message, false);
+    }
+
+    // 4xx means the server understood and refused; retrying will not help
+    const permanent = response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429;
+    return this.recordFailure(entry, message, permanent);
+  }
+
+  // `entry` already counts the attempt that failed
+  private recordFailure(entry: OutboxEntry, message: string, permanent: boolean): EntryOutcome {
+    this.lastError = message;
+    storageService.saveOutboxEntry({
+      ...entry,
+      lastError: message,
+      failed: permanent || undefined,
+      nextAttemptAt: new Date(Date.now() + SyncService.getRetryDelay(entry.attempts))
+    });
+    return permanent ? 'failed' : 'retry';
+  }
+
+  private async readError(response: Response): Promise<string> {
+    try {
+      const body = await response.json();
+      return body.error || `Sync failed with status ${response.status}`;
+    } catch {
+      return `Sync failed with status ${response.status}`;
+    }
+  }
+
+  private async send(entry: OutboxEntry): Promise<Response> {
+    const headers = {
+      'Content-Type': 'application/json',
+      'Idempotency-Key': entry.id,
+      ...authService.getAuthHeaders()
+    };
+    const url = `${this.baseUrl}/api/trips`;
+    const tripUrl = `${url}/${encodeURIComponent(entry.tripId)}`;
+
+    switch (entry.operation) {
+      case 'create':
+        return this.fetcher(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(storageService.getTripById(entry.tripId) ?? { ...entry.payload, id: entry.tripId })
+        });
+
+      case 'update': {
+        const trip = storageService.getTripById(entry.tripId);
+        const response = await this.fetcher(tripUrl, {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ updates: entry.payload, baseRevision: trip?.syncedAt })
+        });
+
+        // The server lost (or never got) the trip: upload the full record
+        if (response.status === 404 && trip) {
+          return this.fetcher(url, {
+            method: 'POST',
+            headers: { ...headers, 'Idempotency-Key': `${entry.id}_upsert` },
+            body: JSON.stringify(trip)
+          });
+        }
+        return response;
+      }
+
+      case 'delete': {
+        const response = await this.fetcher(tripUrl, {
+          method: 'DELETE',
+          headers
+        });
+        // Already gone on the server is as good as deleted
+        return response.status === 404 ? new Response(null, { status: 204 }) : response;
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const syncService = SyncService.getInstance();
+
+export const syncNow = () => syncService.syncNow();
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { Location } from './types';
+import { cleanTrace, filterOutliers, getAverageSpeed, simplifyTrace, smoothTrace, traceDistance } from './trace';
+
+const METRE = 1 / 111195; // degrees of latitude
+
+// A fix `north` metres north of the start, `seconds` into the trip
+const fix = (seconds: number, north: number, east = 0, accuracy = 10): Location => ({
+  latitude: 8.5 + north * METRE,
+  longitude: 76.9 + east * METRE,
+  accuracy,
+  timestamp: new Date(Date.UTC(2024, 2, 1, 8, 0, seconds))
+});
+
+// Walking north at a steady 1.5 m/s, a fix every 10 s
+const walk = (count: number) => Array.from({ length: count }, (_, i) => fix(i * 10, i * 15));
+
+describe('filterOutliers', () => {
+  it('drops fixes coarser than the mode allows', () => {
+    const points = [fix(0, 0), fix(10, 15, 0, 200), fix(20, 30)];
+
+    expect(filterOutliers(points, 'walk')).toEqual([points[0], points[2]]);
+  });
+
+  it('drops a fix that would mean moving faster than the mode can', () => {
+    const points = walk(4);
+    const jump = fix(25, 200); // 34 m/s
+
+    expect(filterOutliers([...points.slice(0, 3), jump, points[3]], 'walk')).toEqual(points);
+    expect(filterOutliers([...points.slice(0, 3), jump, points[3]], 'car')).toHaveLength(5);
+  });
+
+  it('restarts from the fixes when the kept one was the outlier', () => {
+    const stray = fix(0, -1000);
+    const points = walk(5).map(point => ({ ...point, timestamp: new Date(new Date(point.timestamp).getTime() + 10000) }));
+
+    const kept = filterOutliers([stray, ...points], 'walk');
+
+    expect(kept[0]).toBe(stray);
+    expect(kept.slice(1)).toEqual(points.slice(3));
+  });
+});
+
+describe('smoothTrace', () => {
+  it('pulls an inaccurate fix towards the estimate and trusts an accurate one', () => {
+    const [first, second] = smoothTrace([fix(0, 0, 0, 5), fix(1, 0, 40, 60)], 'walk');
+    expect(first.longitude).toBeCloseTo(76.9, 9);
+    expect(second.longitude).toBeLessThan(76.9 + 10 * METRE);
+
+    const [, precise] = smoothTrace([fix(0, 0, 0, 50), fix(60, 0, 40, 3)], 'walk');
+    expect(precise.longitude).toBeGreaterThan(76.9 + 39 * METRE);
+  });
+
+  it('keeps each fix\'s time', () => {
+    const points = walk(3);
+
+    expect(smoothTrace(points, 'walk').map(point => point.timestamp)).toEqual(points.map(point => point.timestamp));
+  });
+});
+
+describe('simplifyTrace', () => {
+  it('reduces a straight line to its endpoints', () => {
+    const points = walk(10);
+
+    expect(simplifyTrace(points, 5)).toEqual([points[0], points[9]]);
+  });
+
+  it('keeps the corners of the route', () => {
+    const corner = fix(100, 100);
+    const points = [fix(0, 0), fix(50, 50, 1), corner, fix(150, 100, 50), fix(200, 100, 100)];
+
+    expect(simplifyTrace(points, 5)).toEqual([points[0], corner, points[4]]);
+  });
+});
+
+describe('cleanTrace', () => {
+  it('runs every pass', () => {
+    const points = walk(10);
+    const cleaned = cleanTrace([...points.slice(0, 5), fix(45, 900), ...points.slice(5)], 'walk');
+
+    expect(cleaned).toHaveLength(2);
+    // Smoothing draws the ends in a little from the 135 m walked
+    expect(traceDistance(cleaned)).toBeGreaterThan(0.12);
+    expect(traceDistance(cleaned)).toBeLessThan(0.135);
+  });
+});
+
+describe('getAverageSpeed', () => {
+  it('needs a duration', () => {
+    expect(getAverageSpeed(10, 30)).toBe(20);
+    expect(getAverageSpeed(10, 0)).toBeUndefined();
+    expect(getAverageSpeed(undefined, 30)).toBeUndefined();
+  });
+});
@@ -0,0 +1,242 @@
+// GPS trace cleaning for NATPAC Travel Data Collection App
+//
+// Raw fixes from watchPosition jump around near buildings and under tree
+// cover. cleanTrace turns a recorded trace into one fit for analysis in
+// three passes: drop fixes that are too inaccurate or imply an impossible
+// speed for the trip's mode, smooth the rest with a simple Kalman filter
+// weighted by each fix's accuracy, then simplify the line (Douglas-Peucker)
+// so only the points that shape the route are stored. The raw waypoints
+// are always kept alongside, so either trace can be exported.
+//
+// Trip distance is measured along the cleaned trace, from the origin to the
+// destination; a trip without a usable trace falls back to the straight
+// line between the two.
+
+import { Location, TransportMode, Trip } from './types';
+import { GeolocationService } from './geolocation';
+
+export interface TraceProfile {
+  maxAccuracy: number; // metres; coarser fixes are dropped
+  maxSpeed: number; // metres per second between consecutive fixes
+  tolerance: number; // metres a simplified line may stray from the raw one
+}
+
+export const TRACE_PROFILES: Record<TransportMode, TraceProfile> = {
+  walk: { maxAccuracy: 50, maxSpeed: 4, tolerance: 5 },
+  bicycle: { maxAccuracy: 50, maxSpeed: 12, tolerance: 8 },
+  motorcycle: { maxAccuracy: 75, maxSpeed: 35, tolerance: 15 },
+  car: { maxAccuracy: 75, maxSpeed: 40, tolerance: 15 },
+  bus: { maxAccuracy: 75, maxSpeed: 30, tolerance: 15 },
+  train: { maxAccuracy: 100, maxSpeed: 45, tolerance: 25 },
+  metro: { maxAccuracy: 150, maxSpeed: 25, tolerance: 25 },
+  auto_rickshaw: { maxAccuracy: 75, maxSpeed: 20, tolerance: 10 },
+  taxi: { maxAccuracy: 75, maxSpeed: 40, tolerance: 15 },
+  shared_taxi: { maxAccuracy: 75, maxSpeed: 40, tolerance: 15 },
+  other: { maxAccuracy: 100, maxSpeed: 50, tolerance: 15 }
+};
+
+// After this many fixes in a row are rejected for speed, the last kept fix
+// was more likely the outlier than all of them, so the trace restarts
+const MAX_CONSECUTIVE_REJECTS = 3;
+
+const EARTH_RADIUS = 6371000; // metres
+
+const timeOf = (point: Location) => new Date(point.timestamp).getTime();
+
+const metresBetween = (a: Location, b: Location) =>
+  GeolocationService.calculateDistance(a, b) * 1000;
+
+/**
+ * Drop fixes coarser than the mode allows, and fixes that would mean
+ * travelling faster than the mode can from the last fix kept
+ */
+export function filterOutliers(points: Location[], mode: TransportMode, profile = TRACE_PROFILES[mode]): Location[] {
+  const kept: Location[] = [];
+  let rejected = 0;
+
+  points.forEach(point => {
+    if (point.accuracy !== undefined && point.accuracy > profile.maxAccuracy) return;
+
+    const previous = kept[kept.length - 1];
+    if (previous && rejected < MAX_CONSECUTIVE_REJECTS) {
+      const seconds = (timeOf(point) - timeOf(previous)) / 1000;
+      if (seconds <= 0 || metresBetween(previous, point) / seconds > profile.maxSpeed) {
+        rejected++;
+        return;
+      }
+    }
+
+    rejected = 0;
+    kept.push(point);
+  });
+
+  return kept;
+}
+
+/**
+ * Smooth a trace with a constant-position Kalman filter: the estimate's
+ * uncertainty grows with time at the mode's top speed and each fix pulls
+ * the estimate in proportion to how accurate it claims to be
+ */
+export function smoothTrace(points: Location[], mode: TransportMode, profile = TRACE_PROFILES[mode]): Location[] {
+  let estimate: Location | null = null;
+  let variance = 0; // square metres
+
+  return points.map(point => {
+    const accuracy = point.accuracy ?? profile.maxAccuracy;
+
+    if (!estimate) {
+      variance = accuracy * accuracy;
+    } else {
+      const seconds = Math.max(0, (timeOf(point) - timeOf(estimate)) / 1000);
+      variance += seconds * profile.maxSpeed * profile.maxSpeed;
+    }
+
+    const gain = estimate ? variance / (variance + accuracy * accuracy) : 1;
+    const previous: Location = estimate ?? point;
+    estimate = {
+      ...point,
+      latitude: previous.latitude + gain * (point.latitude - previous.latitude),
+      longitude: previous.longitude + gain * (point.longitude - previous.longitude)
+    };
+    variance = (1 - gain) * variance;
+    estimate.accuracy = Math.sqrt(variance) || accuracy;
+
+    return estimate;
+  });
+}
+
+// Distance in metres from `point` to the segment from `start` to `end`, on a
+// flat projection around `start` (plenty at trace scales)
+function distanceToSegment(point: Location, start: Location, end: Location): number {
+  const scale = Math.cos((start.latitude * Math.PI) / 180);
+  const project = (location: Location) => ({
+    x: ((location.longitude - start.longitude) * Math.PI / 180) * EARTH_RADIUS * scale,
+    y: ((location.latitude - start.latitude) * Math.PI / 180) * EARTH_RADIUS
+  });
+
+  const p = project(point);
+  const e = project(end);
+  const lengthSquared = e.x * e.x + e.y * e.y;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (p.x * e.x + p.y * e.y) / lengthSquared));
+  return Math.hypot(p.x - t * e.x, p.y - t * e.y);
+}
+
+/**
+ * Douglas-Peucker simplification: keep the endpoints and every point that
+ * strays more than `tolerance` metres from the line the others make
+ */
+export function simplifyTrace(points: Location[], tolerance: number): Location[] {
+  if (points.length <= 2) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let farthest = -1;
+    let maxDistance = tolerance;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Filter, smooth and simplify a raw trace for a trip made by `mode`
+ */
+export function cleanTrace(points: Location[], mode: TransportMode): Location[] {
+  const profile = TRACE_PROFILES[mode];
+  return simplifyTrace(smoothTrace(filterOutliers(points, mode, profile), mode, profile), profile.tolerance);
+}
+
+/**
+ * A trip's raw and cleaned traces. Trips still in progress (and records
+ * from before cleaning existed) are cleaned on the fly.
+ */
+export function getTraces(trip: Trip): { raw: Location[]; cleaned: Location[] } {
+  const raw = trip.waypoints ?? [];
+  return {
+    raw,
+    cleaned: trip.cleanedWaypoints ?? cleanTrace(raw, trip.mode)
+  };
+}
+
+/**
+ * Length of a path in kilometres
+ */
+export function traceDistance(points: Location[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += GeolocationService.calculateDistance(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Distance travelled in kilometres (to the nearest 10 m), or undefined for
+ * a trip that has no destination yet
+ */
+export function getTripDistance(trip: Trip): number | undefined {
+  if (!trip.destination) return undefined;
+
+  const { cleaned } = getTraces(trip);
+  const path = cleaned.length >= 2
+    ? [trip.origin, ...cleaned, trip.destination]
+    : [trip.origin, trip.destination];
+  return round(traceDistance(path), 2);
+}
+
+/**
+ * Average speed in km/h over the whole trip, stops included
+ */
+export function getAverageSpeed(distance: number | undefined, duration: number | undefined): number | undefined {
+  if (distance === undefined || !duration) return undefined;
+  return round(distance / (duration / 60), 1);
+}
+
+/**
+ * Distance and average speed for a finished trip
+ */
+export function measureTrip(trip: Trip): Pick<Trip, 'distance' | 'averageSpeed'> {
+  const distance = getTripDistance(trip);
+  return { distance, averageSpeed: getAverageSpeed(distance, trip.duration) };
+}
+
+/**
+ * Total kilometres over completed trips, e.g. a trip chain. Trips finished
+ * before distances were stored are measured on the fly.
+ */
+export function getTotalDistance(trips: Trip[]): number {
+  return round(
+    trips
+      .filter(trip => trip.status === 'completed')
+      .reduce((sum, trip) => sum + (trip.distance ?? getTripDistance(trip) ?? 0), 0),
+    2
+  );
+}
+
+/**
+ * Format a distance in kilometres for display
+ */
+export function formatDistance(kilometres: number): string {
+  return kilometres < 1
+    ? `${Math.round(kilometres * 1000)} m`
+    : `${kilometres.toFixed(1)} km`;
+}
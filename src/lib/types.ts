@@ -1,10 +1,45 @@
 // Core type definitions for NATPAC Travel Data Collection App
 
+// Where a location's coordinates came from: a device fix, typed in by
+// the user, or looked up from an address
+export type LocationSource = 'gps' | 'manual' | 'geocoded';
+
+// Parts of an address, from the most to the least specific
+export interface AddressComponents {
+  landmark?: string; // a station, hospital, campus etc. the location is at
+  locality?: string; // town, village or neighbourhood
+  taluk?: string;
+  district?: string;
+  state: string;
+  country: string;
+}
+
 export interface Location {
   latitude: number;
   longitude: number;
   address?: string;
+  addressComponents?: AddressComponents;
+  savedPlaceId?: string; // set when the location was snapped to a saved place
+  zoneId?: string; // finest analysis zone (e.g. TAZ) the location lies in
   timestamp: Date;
+  source?: LocationSource;
+  accuracy?: number; // metres
+  altitude?: number; // metres above the WGS84 ellipsoid
+  speed?: number; // metres per second
+  heading?: number; // degrees clockwise from true north
+}
+
+export type SavedPlaceKind = 'home' | 'work' | 'school' | 'other';
+
+// A place the user goes often; fixes within `radius` count as being there
+export interface SavedPlace {
+  id: string;
+  name: string;
+  kind: SavedPlaceKind;
+  location: Location;
+  radius: number; // metres
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface Traveler {
@@ -41,6 +76,39 @@ export type TripPurpose =
   | 'return_home'
   | 'other';
 
+// A transport mode suggested by a classifier from a recorded trace
+export interface ModeInference {
+  mode: TransportMode;
+  confidence: number; // 0-1
+  classifier: string; // which classifier (and version) made the suggestion
+  inferredAt: Date;
+}
+
+// A trip purpose suggested from where and when the trip ended
+export interface PurposeInference {
+  purpose: TripPurpose;
+  confidence: number; // 0-1
+  engine: string; // which engine (and version) made the suggestion
+  reasons: string[]; // the evidence, for display, e.g. "Near General Hospital"
+  inferredAt: Date;
+  accepted?: boolean; // whether the user kept the suggestion or chose another purpose
+}
+
+// One leg of a multimodal trip, e.g. the auto rickshaw ride between a walk
+// and a metro journey. A stage's origin is the transfer point from the one
+// before it.
+export interface TripStage {
+  id: string;
+  mode: TransportMode;
+  origin: Location;
+  destination?: Location;
+  startTime: Date; // when the traveller set off or boarded
+  endTime?: Date;
+  waitingTime?: number; // minutes spent waiting at the transfer point before starting
+  distance?: number; // in kilometres
+  inferredMode?: ModeInference;
+}
+
 export type TripStatus = 'planned' | 'active' | 'completed' | 'cancelled';
 
 export interface Trip {
@@ -51,17 +119,23 @@ export interface Trip {
   // Location data
   origin: Location;
   destination?: Location;
-  waypoints?: Location[];
+  waypoints?: Location[]; // raw GPS trace, as recorded
+  cleanedWaypoints?: Location[]; // filtered, smoothed and simplified trace
   
   // Time data
   startTime: Date;
   endTime?: Date;
   duration?: number; // in minutes
+  distance?: number; // in kilometres, along the trace
+  averageSpeed?: number; // in km/h
   
   // Trip details
-  mode: TransportMode;
+  mode: TransportMode; // main mode; the longest stage's on a multimodal trip
+  inferredMode?: ModeInference; // suggested from the trace, kept next to the user's choice
+  stages?: TripStage[]; // legs, in order, once the traveller has switched mode
   purpose: TripPurpose;
   purposeDetail?: string;
+  inferredPurpose?: PurposeInference; // suggested on completion, with the user's response
   
   // Travelers
   primaryTraveler: string; // user ID
@@ -71,15 +145,43 @@ export interface Trip {
   // Additional data
   satisfactionRating?: number; // 1-5 scale
   notes?: string;
-  isPartOfChain?: boolean;
-  chainId?: string;
+  isPartOfChain?: boolean; // false once the user unlinks the trip
+  chainId?: string | null; // null when unlinked, so the removal syncs
+  chainLinkedByUser?: boolean; // in its chain because the user linked it
   
   // Metadata
   createdAt: Date;
   updatedAt: Date;
   syncedAt?: Date;
+  fieldRevisions?: Partial<Record<TripField, Date>>; // when each field last changed
+  conflicts?: TripFieldConflict[]; // concurrent edits awaiting review
 }
 
+// Trip bookkeeping fields that are never merged field-by-field
+export type TripMetaField =
+  | 'id'
+  | 'tripNumber'
+  | 'primaryTraveler'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'syncedAt'
+  | 'fieldRevisions'
+  | 'conflicts';
+
+export type TripField = Exclude<keyof Trip, TripMetaField>;
+
+// A field edited both on this device and on the server since they last agreed
+export interface TripFieldConflict {
+  field: TripField;
+  localValue: unknown;
+  remoteValue: unknown;
+  localRevision: Date;
+  remoteRevision: Date;
+  detectedAt: Date;
+}
+
+export type ConflictResolution = 'local' | 'remote';
+
 export interface TripChain {
   id: string;
   userId: string;
@@ -125,11 +227,30 @@ export interface AppSettings {
   theme: 'light' | 'dark' | 'system';
 }
 
+// Auth types
+export interface AuthSession {
+  token: string;
+  user: User;
+  expiresAt: Date;
+}
+
+export interface OtpChallenge {
+  phone: string; // normalized E.164, e.g. +919876543210
+  expiresAt: Date;
+  resendAfter: Date;
+}
+
 // API Response types
+export interface FieldError {
+  path: string; // dotted path into the request body, e.g. "origin.latitude"
+  message: string;
+}
+
 export interface APIResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  errors?: FieldError[]; // per-field problems when validation fails
   message?: string;
 }
 
@@ -146,6 +267,7 @@ export interface PaginatedResponse<T> {
 
 // Form types
 export interface NewTripForm {
+  status?: Extract<TripStatus, 'planned' | 'active'>; // Defaults to starting right away
   mode: TransportMode;
   purpose: TripPurpose;
   purposeDetail?: string;
@@ -153,6 +275,9 @@ export interface NewTripForm {
   notes?: string;
 }
 
+// Details the user adds to confirm a detected trip
+export type DraftTripForm = Pick<NewTripForm, 'mode' | 'purpose' | 'purposeDetail' | 'accompanyingTravelers' | 'notes'>;
+
 export interface TripUpdateForm {
   destination?: Location;
   mode?: TransportMode;
@@ -162,6 +287,13 @@ export interface TripUpdateForm {
   notes?: string;
 }
 
+export interface SavedPlaceForm {
+  name: string;
+  kind: SavedPlaceKind;
+  location: Location;
+  radius: number;
+}
+
 export interface TravelerForm {
   name: string;
   ageGroup: Traveler['ageGroup'];
@@ -180,9 +312,96 @@ export interface AddressResult {
   formatted_address: string;
   place_id?: string;
   types?: string[];
+  components?: AddressComponents;
+  provider?: string; // which geocoding provider answered
+}
+
+// A place offered while the user types an address
+export interface PlaceSuggestion {
+  id: string;
+  name: string;
+  description: string; // where it is, e.g. "Kanayannur, Ernakulam"
+  latitude: number;
+  longitude: number;
+  accuracy: number; // metres; how far the place may stretch from its point
+  components: AddressComponents;
+  distance?: number; // km from the point the search was made near
+}
+
+// Sync types
+export type SyncOperation = 'create' | 'update' | 'delete';
+
+// A local trip mutation waiting to be sent to the server
+export interface OutboxEntry {
+  id: string; // doubles as the Idempotency-Key sent to the server
+  tripId: string;
+  operation: SyncOperation;
+  payload?: Partial<Trip>;
+  createdAt: Date;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  failed?: boolean; // rejected by the server; needs attention, not retries
+}
+
+export interface SyncState {
+  pending: number;
+  failed: number;
+  syncing: boolean;
+  lastSync: Date | null;
+  lastError: string | null;
+}
+
+// GPS trace recording types
+export interface RecorderState {
+  tripId: string | null;
+  recording: boolean;
+  paused: boolean;
+  pointCount: number;
+  lastFix: Location | null;
+  error: string | null;
+}
+
+// Automatic trip detection types
+export interface DraftTrip {
+  id: string;
+  origin: Location;
+  destination: Location;
+  startTime: Date; // last fix at the origin
+  endTime: Date; // first fix at the destination
+  waypoints: Location[];
+  detectedAt: Date;
+}
+
+export interface DetectorState {
+  running: boolean;
+  moving: boolean; // left the last place the device stayed
+  drafts: DraftTrip[];
+  error: string | null;
 }
 
 // Storage types
+export type StorageBackend = 'indexeddb' | 'localstorage';
+
+export type StorageCollection = 'trips' | 'travelers' | 'quarantine' | 'outbox';
+
+export type QuarantineSource = 'trips' | 'travelers' | 'settings';
+
+// A persisted record that could not be upgraded to the current schema
+export interface QuarantinedRecord {
+  id: string;
+  source: QuarantineSource;
+  recordId: string;
+  payload: unknown;
+  schemaVersion: number; // version the payload was written with
+  error: string;
+  quarantinedAt: Date;
+}
+
+export interface StorageRecord {
+  id: string;
+}
+
 export interface LocalStorageData {
   user?: User;
   trips: Trip[];
@@ -190,4 +409,7 @@ export interface LocalStorageData {
   settings: AppSettings;
   consent?: ConsentData;
   lastSync?: Date;
+  schemaVersion?: number;
+  quarantine?: QuarantinedRecord[];
+  savedPlaces?: SavedPlace[];
 }
\ No newline at end of file
@@ -0,0 +1,260 @@
+// Input validation for NATPAC Travel Data Collection App
+//
+// Unlike the codecs, which only check that stored data has the right shape,
+// these schemas hold user input to the survey's rules (coordinate bounds,
+// rating scale, known enums) and reject fields a client may not set. The
+// API routes and the client forms share them so both report the same errors.
+
+import { z } from 'zod';
+import {
+  AddressComponents,
+  DraftTripForm,
+  Location,
+  ModeInference,
+  PurposeInference,
+  TripStage,
+  NewTripForm,
+  SavedPlaceForm,
+  TripUpdateForm,
+  Trip,
+  TravelerForm
+} from './types';
+import {
+  ageGroupSchema,
+  decode,
+  locationSourceSchema,
+  relationshipSchema,
+  savedPlaceKindSchema,
+  transportModeSchema,
+  tripPurposeSchema,
+  tripShape,
+  tripStatusSchema
+} from './codecs';
+
+const date = z.coerce.date();
+
+const modeSchema = z.enum(transportModeSchema.options, {
+  errorMap: () => ({ message: 'Choose a valid mode of transport' })
+});
+
+const purposeSchema = z.enum(tripPurposeSchema.options, {
+  errorMap: () => ({ message: 'Choose a valid trip purpose' })
+});
+
+const statusSchema = z.enum(tripStatusSchema.options, {
+  errorMap: () => ({ message: 'Invalid trip status' })
+});
+
+export const ratingSchema = z
+  .number({ invalid_type_error: 'Rating must be a number' })
+  .int('Rating must be a whole number')
+  .min(1, 'Rating must be between 1 and 5')
+  .max(5, 'Rating must be between 1 and 5');
+
+const placeName = z.string().trim().min(1).max(200, 'Place name is too long');
+
+const addressComponentsInputSchema: z.ZodType<AddressComponents, z.ZodTypeDef, unknown> = z.object({
+  landmark: placeName.optional(),
+  locality: placeName.optional(),
+  taluk: placeName.optional(),
+  district: placeName.optional(),
+  state: placeName,
+  country: placeName
+});
+
+export const locationInputSchema: z.ZodType<Location, z.ZodTypeDef, unknown> = z.object({
+  latitude: z
+    .number({ required_error: 'Latitude is required', invalid_type_error: 'Latitude must be a number' })
+    .min(-90, 'Latitude must be between -90 and 90')
+    .max(90, 'Latitude must be between -90 and 90'),
+  longitude: z
+    .number({ required_error: 'Longitude is required', invalid_type_error: 'Longitude must be a number' })
+    .min(-180, 'Longitude must be between -180 and 180')
+    .max(180, 'Longitude must be between -180 and 180'),
+  address: z.string().trim().max(500, 'Address is too long').optional(),
+  addressComponents: addressComponentsInputSchema.optional(),
+  savedPlaceId: z.string().min(1).optional(),
+  zoneId: z.string().min(1).optional(),
+  timestamp: date,
+  source: z.enum(locationSourceSchema.options, { errorMap: () => ({ message: 'Invalid location source' }) }).optional(),
+  accuracy: z.number().nonnegative('Accuracy cannot be negative').optional(),
+  altitude: z.number().optional(),
+  speed: z.number().nonnegative('Speed cannot be negative').optional(),
+  heading: z.number().min(0, 'Heading must be between 0 and 360').max(360, 'Heading must be between 0 and 360').optional()
+});
+
+const modeInferenceInputSchema: z.ZodType<ModeInference, z.ZodTypeDef, unknown> = z.object({
+  mode: modeSchema,
+  confidence: z.number().min(0, 'Confidence must be between 0 and 1').max(1, 'Confidence must be between 0 and 1'),
+  classifier: z.string().min(1),
+  inferredAt: date
+});
+
+const purposeInferenceInputSchema: z.ZodType<PurposeInference, z.ZodTypeDef, unknown> = z.object({
+  purpose: purposeSchema,
+  confidence: z.number().min(0, 'Confidence must be between 0 and 1').max(1, 'Confidence must be between 0 and 1'),
+  engine: z.string().min(1),
+  reasons: z.array(z.string().max(200)).max(10),
+  inferredAt: date,
+  accepted: z.boolean().optional()
+});
+
+const tripStageInputSchema: z.ZodType<TripStage, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  mode: modeSchema,
+  origin: locationInputSchema,
+  destination: locationInputSchema.optional(),
+  startTime: date,
+  endTime: date.optional(),
+  waitingTime: z.number().min(0, 'Waiting time cannot be negative').optional(),
+  distance: z.number().min(0, 'Distance cannot be negative').optional(),
+  inferredMode: modeInferenceInputSchema.optional()
+});
+
+const optionalText = (max: number, label: string) =>
+  z.string().trim().max(max, `${label} must be at most ${max} characters`).optional();
+
+const newTripFormShape = z.object({
+  status: z.enum(['planned', 'active'], { errorMap: () => ({ message: 'A new trip is either planned or active' }) }).default('active'),
+  mode: modeSchema,
+  purpose: purposeSchema,
+  purposeDetail: optionalText(200, 'Purpose details'),
+  accompanyingTravelers: z.array(z.string().min(1)).max(20, 'At most 20 accompanying travelers').default([]),
+  notes: optionalText(1000, 'Notes')
+});
+
+export const newTripFormSchema: z.ZodType<NewTripForm, z.ZodTypeDef, unknown> = newTripFormShape.strict();
+
+// What the user adds to a detected trip to confirm it
+export const draftTripFormSchema: z.ZodType<DraftTripForm, z.ZodTypeDef, unknown> = newTripFormShape
+  .omit({ status: true })
+  .strict();
+
+// POST /api/trips body: the form plus where the trip starts
+export const newTripRequestSchema: z.ZodType<NewTripForm & { origin: Location }, z.ZodTypeDef, unknown> =
+  newTripFormShape.extend({ origin: locationInputSchema }).strict();
+
+const tripUpdateFormShape = z.object({
+  destination: locationInputSchema.optional(),
+  mode: modeSchema.optional(),
+  purpose: purposeSchema.optional(),
+  purposeDetail: optionalText(200, 'Purpose details'),
+  satisfactionRating: ratingSchema.optional(),
+  notes: optionalText(1000, 'Notes')
+});
+
+export const tripUpdateFormSchema: z.ZodType<TripUpdateForm, z.ZodTypeDef, unknown> = tripUpdateFormShape.strict();
+
+/**
+ * PUT /api/trips/[id] `updates`: everything a device may change on a trip it
+ * owns. Identity and ownership (id, tripNumber, primaryTraveler,
+ * createdAt) are rejected rather than silently ignored.
+ */
+export const tripChangesSchema: z.ZodType<Partial<Trip>, z.ZodTypeDef, unknown> = tripUpdateFormShape
+  .extend({
+    status: statusSchema.optional(),
+    origin: locationInputSchema.optional(),
+    waypoints: z.array(locationInputSchema).optional(),
+    cleanedWaypoints: z.array(locationInputSchema).optional(),
+    inferredMode: modeInferenceInputSchema.optional(),
+    inferredPurpose: purposeInferenceInputSchema.optional(),
+    stages: z.array(tripStageInputSchema).max(20, 'At most 20 stages').optional(),
+    startTime: date.optional(),
+    endTime: date.optional(),
+    duration: z.number().min(0, 'Duration cannot be negative').optional(),
+    distance: z.number().min(0, 'Distance cannot be negative').optional(),
+    averageSpeed: z.number().min(0, 'Average speed cannot be negative').optional(),
+    accompanyingTravelers: z.array(z.string().min(1)).max(20, 'At most 20 accompanying travelers').optional(),
+    totalTravelers: z.number().int().min(1).optional(),
+    isPartOfChain: z.boolean().optional(),
+    chainId: z.string().min(1).nullable().optional(),
+    chainLinkedByUser: z.boolean().optional(),
+    fieldRevisions: z.record(z.string(), date).optional(),
+    updatedAt: date.optional()
+  })
+  .strict();
+
+// A complete trip recorded offline and uploaded by the sync engine
+export const uploadedTripSchema: z.ZodType<Trip, z.ZodTypeDef, unknown> = tripShape.extend({
+  origin: locationInputSchema,
+  destination: locationInputSchema.optional(),
+  waypoints: z.array(locationInputSchema).optional(),
+  cleanedWaypoints: z.array(locationInputSchema).optional(),
+  mode: modeSchema,
+  inferredMode: modeInferenceInputSchema.optional(),
+  stages: z.array(tripStageInputSchema).max(20, 'At most 20 stages').optional(),
+  purpose: purposeSchema,
+  inferredPurpose: purposeInferenceInputSchema.optional(),
+  status: statusSchema,
+  duration: z.number().min(0, 'Duration cannot be negative').optional(),
+  distance: z.number().min(0, 'Distance cannot be negative').optional(),
+  averageSpeed: z.number().min(0, 'Average speed cannot be negative').optional(),
+  satisfactionRating: ratingSchema.optional()
+});
+
+const travelerFormShape = z.object({
+  name: z
+    .string({ required_error: 'Name is required' })
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be at most 100 characters'),
+  ageGroup: z.enum(ageGroupSchema.options, { errorMap: () => ({ message: 'Choose an age group' }) }),
+  relationship: z.enum(relationshipSchema.options, { errorMap: () => ({ message: 'Choose a relationship' }) }),
+  hasConsent: z.boolean().default(false)
+});
+
+export const travelerFormSchema: z.ZodType<TravelerForm, z.ZodTypeDef, unknown> = travelerFormShape.strict();
+
+export const travelerUpdateSchema: z.ZodType<Partial<TravelerForm>, z.ZodTypeDef, unknown> = travelerFormShape
+  .partial()
+  .extend({ hasConsent: z.boolean().optional() })
+  .strict();
+
+export const MIN_PLACE_RADIUS = 50; // metres; tighter than GPS can tell
+export const MAX_PLACE_RADIUS = 1000;
+
+export const savedPlaceFormSchema: z.ZodType<SavedPlaceForm, z.ZodTypeDef, unknown> = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(50, 'Name must be at most 50 characters'),
+    kind: z.enum(savedPlaceKindSchema.options, { errorMap: () => ({ message: 'Invalid place type' }) }),
+    location: locationInputSchema,
+    radius: z
+      .number({ invalid_type_error: 'Radius must be a number' })
+      .min(MIN_PLACE_RADIUS, `Radius must be at least ${MIN_PLACE_RADIUS} m`)
+      .max(MAX_PLACE_RADIUS, `Radius must be at most ${MAX_PLACE_RADIUS} m`)
+  })
+  .strict();
+
+export type FormValidationResult<T> =
+  | { success: true; data: T; errors: Record<string, never> }
+  | { success: false; data?: undefined; errors: Record<string, string> };
+
+/**
+ * Check form input without throwing; `errors` maps each field path to its
+ * first problem, ready to show next to the input
+ */
+export function validateForm<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  value: unknown
+): FormValidationResult<T> {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data, errors: {} };
+  }
+
+  const errors: Record<string, string> = {};
+  result.error.issues.forEach(issue => {
+    const path = issue.path.join('.');
+    if (!(path in errors)) errors[path] = issue.message;
+  });
+  return { success: false, errors };
+}
+
+export const firstError = (errors: Record<string, string>): string | null =>
+  Object.values(errors)[0] ?? null;
+
+export const validateNewTrip = (value: unknown) => decode(newTripRequestSchema, value, 'trip');
+export const validateTripChanges = (value: unknown) => decode(tripChangesSchema, value, 'trip update');
+export const validateUploadedTrip = (value: unknown) => decode(uploadedTripSchema, value, 'trip');
+export const validateTravelerForm = (value: unknown) => decode(travelerFormSchema, value, 'traveler');
+export const validateTravelerUpdate = (value: unknown) => decode(travelerUpdateSchema, value, 'traveler update');
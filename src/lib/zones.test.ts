@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Location, Trip } from './types';
+import { countTripsByZone, getLocationZone, getZones, OUTSIDE_ZONES, Zone, ZoneIndex } from './zones';
+
+// A square [west, south] to [east, north], as a GeoJSON ring
+const square = (west: number, south: number, east: number, north: number) => [
+  [west, south], [east, south], [east, north], [west, north], [west, south]
+];
+
+const feature = (zone: Omit<Zone, 'district'>, coordinates: number[][][]) => ({
+  properties: { ...zone, district: 'Test' },
+  geometry: { type: 'Polygon' as const, coordinates }
+});
+
+// A district with a hole, a local body inside it and a TAZ inside that
+const zones = new ZoneIndex([
+  feature({ id: 'D', name: 'District', level: 'district' }, [square(0, 0, 10, 10), square(8, 8, 9, 9)]),
+  feature({ id: 'L', name: 'Local body', level: 'local_body', parent: 'D' }, [square(0, 0, 5, 5)]),
+  feature({ id: 'T', name: 'TAZ', level: 'taz', parent: 'L' }, [square(1, 1, 2, 2)]),
+  {
+    properties: { id: 'M', name: 'Islands', level: 'district' as const, district: 'Islands' },
+    geometry: { type: 'MultiPolygon' as const, coordinates: [[square(20, 0, 21, 1)], [square(30, 0, 31, 1)]] }
+  }
+]);
+
+const point = (longitude: number, latitude: number) => ({ latitude, longitude });
+
+describe('ZoneIndex', () => {
+  it('finds the zone at each level that holds a point', () => {
+    expect(zones.find(point(1.5, 1.5), 'district')?.id).toBe('D');
+    expect(zones.find(point(1.5, 1.5), 'local_body')?.id).toBe('L');
+    expect(zones.find(point(3, 3), 'taz')).toBeNull();
+  });
+
+  it('locates the finest zone', () => {
+    expect(zones.locate(point(1.5, 1.5))?.id).toBe('T');
+    expect(zones.locate(point(3, 3))?.id).toBe('L');
+    expect(zones.locate(point(7, 7))?.id).toBe('D');
+    expect(zones.locate(point(15, 5))).toBeNull();
+  });
+
+  it('leaves out holes and looks in every part of a multipolygon', () => {
+    expect(zones.locate(point(8.5, 8.5))).toBeNull();
+    expect(zones.locate(point(30.5, 0.5))?.id).toBe('M');
+  });
+
+  it('walks up and down the nesting', () => {
+    expect(zones.ancestor('T', 'district')?.id).toBe('D');
+    expect(zones.ancestor('T', 'taz')?.id).toBe('T');
+    expect(zones.ancestor('L', 'taz')).toBeNull();
+    expect(zones.descendants('D')).toEqual(['D', 'L', 'T']);
+    expect(zones.list('district').map(zone => zone.id)).toEqual(['D', 'M']);
+  });
+});
+
+describe('bundled zones', () => {
+  const trivandrum: Location = { latitude: 8.5241, longitude: 76.9366, timestamp: new Date() };
+
+  it('place Thiruvananthapuram city in its district', () => {
+    expect(getLocationZone(trivandrum, 'district')?.name).toBe('Thiruvananthapuram');
+  });
+
+  it('trust the zone recorded on a location over its coordinates', () => {
+    const ernakulam = getZones().list('district').find(zone => zone.name === 'Ernakulam')!;
+
+    expect(getLocationZone({ ...trivandrum, zoneId: ernakulam.id }, 'district')?.id).toBe(ernakulam.id);
+  });
+
+  it('count trips ending outside every zone apart', () => {
+    const trip = (latitude: number, longitude: number) =>
+      ({ destination: { latitude, longitude, timestamp: new Date() } }) as Trip;
+    const counts = countTripsByZone([trip(8.5241, 76.9366), trip(8.5241, 76.9366), trip(0, 0), {} as Trip], 'destination', 'district');
+
+    expect(counts).toEqual({ [getLocationZone(trivandrum, 'district')!.id]: 2, [OUTSIDE_ZONES]: 1 });
+  });
+});
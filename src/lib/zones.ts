@@ -0,0 +1,187 @@
+// Zones for NATPAC Travel Data Collection App
+//
+// Origin–destination analysis counts trips by zone, not by coordinate. Zone
+// boundaries are bundled as GeoJSON (src/data/zones.json) at three levels
+// that nest: districts, local bodies (corporations, municipalities and
+// panchayats) and traffic analysis zones (TAZs). Each zone names its
+// parent, so a location only stores the finest zone it lies in and the
+// zones above follow. A lookup tests each zone's bounding box first and
+// runs the point-in-polygon test only where the box holds the point.
+//
+// The bundled file is a simplified stand-in for development; swapping in
+// the official boundaries only needs the same feature properties.
+
+import zoneData from '@/data/zones.json';
+import { Location, Trip } from './types';
+
+export type ZoneLevel = 'district' | 'local_body' | 'taz';
+
+// Coarsest first
+export const ZONE_LEVELS: ZoneLevel[] = ['district', 'local_body', 'taz'];
+
+export interface Zone {
+  id: string;
+  name: string;
+  level: ZoneLevel;
+  parent?: string; // id of the zone this one lies in
+  district: string;
+}
+
+type Position = number[]; // [longitude, latitude]
+type Polygon = Position[][]; // outer ring, then holes
+
+interface ZoneFeature {
+  properties: Zone;
+  geometry: { type: 'Polygon'; coordinates: Polygon } | { type: 'MultiPolygon'; coordinates: Polygon[] };
+}
+
+interface ZoneShape {
+  zone: Zone;
+  polygons: Polygon[];
+  bbox: [west: number, south: number, east: number, north: number];
+}
+
+type Point = { latitude: number; longitude: number };
+
+// Even-odd ray casting; a point on an edge may fall either side
+function inRing({ latitude, longitude }: Point, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[j];
+    if ((y1 > latitude) !== (y2 > latitude) && longitude < x1 + ((latitude - y1) * (x2 - x1)) / (y2 - y1)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+const inPolygon = (point: Point, [outer, ...holes]: Polygon) =>
+  inRing(point, outer) && !holes.some(hole => inRing(point, hole));
+
+function toShape(feature: ZoneFeature): ZoneShape {
+  const polygons = feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+  const positions = polygons.flatMap(([outer]) => outer);
+  return {
+    zone: feature.properties,
+    polygons,
+    bbox: [
+      Math.min(...positions.map(([lon]) => lon)),
+      Math.min(...positions.map(([, lat]) => lat)),
+      Math.max(...positions.map(([lon]) => lon)),
+      Math.max(...positions.map(([, lat]) => lat))
+    ]
+  };
+}
+
+export class ZoneIndex {
+  private shapes: ZoneShape[];
+  private zones = new Map<string, Zone>();
+
+  constructor(features: ZoneFeature[]) {
+    this.shapes = features.map(toShape);
+    this.shapes.forEach(({ zone }) => this.zones.set(zone.id, zone));
+  }
+
+  get(id: string): Zone | null {
+    return this.zones.get(id) ?? null;
+  }
+
+  /**
+   * Every zone at `level`, in file order
+   */
+  list(level: ZoneLevel): Zone[] {
+    return this.shapes.map(shape => shape.zone).filter(zone => zone.level === level);
+  }
+
+  /**
+   * The zone at `level` that contains the point, if any
+   */
+  find(point: Point, level: ZoneLevel): Zone | null {
+    const { latitude, longitude } = point;
+    const shape = this.shapes.find(({ zone, bbox: [west, south, east, north], polygons }) =>
+      zone.level === level &&
+      longitude >= west && longitude <= east && latitude >= south && latitude <= north &&
+      polygons.some(polygon => inPolygon(point, polygon))
+    );
+    return shape?.zone ?? null;
+  }
+
+  /**
+   * The finest zone that contains the point, if any
+   */
+  locate(point: Point): Zone | null {
+    for (const level of [...ZONE_LEVELS].reverse()) {
+      const zone = this.find(point, level);
+      if (zone) return zone;
+    }
+    return null;
+  }
+
+  /**
+   * The zone itself if it is at `level`, else the one above it that is
+   */
+  ancestor(zoneId: string, level: ZoneLevel): Zone | null {
+    let zone = this.get(zoneId);
+    while (zone && zone.level !== level) {
+      zone = zone.parent ? this.get(zone.parent) : null;
+    }
+    return zone;
+  }
+
+  /**
+   * Ids of the zone and every zone within it
+   */
+  descendants(zoneId: string): string[] {
+    const ids = [zoneId];
+    for (let i = 0; i < ids.length; i++) {
+      this.zones.forEach(zone => {
+        if (zone.parent === ids[i]) ids.push(zone.id);
+      });
+    }
+    return ids;
+  }
+}
+
+// Built on first use rather than when the module loads
+let index: ZoneIndex | null = null;
+
+export function getZones(): ZoneIndex {
+  if (!index) index = new ZoneIndex(zoneData.features as unknown as ZoneFeature[]);
+  return index;
+}
+
+/**
+ * `location` with the id of the finest zone it lies in, or without one
+ * outside every zone
+ */
+export function assignZone(location: Location): Location {
+  const zone = getZones().locate(location);
+  return { ...location, zoneId: zone?.id };
+}
+
+/**
+ * The zone at `level` a location lies in: from its recorded zone where
+ * that says, otherwise from its coordinates
+ */
+export function getLocationZone(location: Location, level: ZoneLevel): Zone | null {
+  const zones = getZones();
+  const recorded = location.zoneId ? zones.ancestor(location.zoneId, level) : null;
+  return recorded ?? zones.find(location, level);
+}
+
+// Where trips ending outside every zone are counted
+export const OUTSIDE_ZONES = 'outside';
+
+/**
+ * How many trips start (or end) in each zone at `level`, by zone id
+ */
+export function countTripsByZone(trips: Trip[], end: 'origin' | 'destination', level: ZoneLevel): Record<string, number> {
+  return trips.reduce((acc, trip) => {
+    const location = trip[end];
+    if (!location) return acc;
+    const key = getLocationZone(location, level)?.id ?? OUTSIDE_ZONES;
+    acc[key] = (acc[key] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+}